@@ -1,7 +1,51 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Note, AIActionType, AIState, CustomPrompt } from './types';
-import { performAIAction } from './services/geminiService';
-import { marked } from 'marked';
+import { flushSync } from 'react-dom';
+import { Note, Folder, NoteRevision, RevisionReason, AIActionType, AIState, CustomPrompt, AISettings, PromptOutputTarget } from './types';
+import { performAIAction, runCustomPrompt, suggestNoteMetadata } from './services/aiService';
+import { describeAIError } from './services/aiErrors';
+import { t, MessageKey, Locale, LOCALES, LOCALE_LABELS, isLocale, getLocale, setLocale, allTranslations, formatDate, formatDay, compareText } from './services/i18n';
+import { credentialStore, apiKeysOf, withApiKeys, withoutApiKeys } from './services/credentials';
+import { findTemplateInputs } from './services/promptTemplate';
+import { createAIJobQueue, AIJob, AIJobRunner } from './services/aiQueue';
+import { createAutoSuggester, AUTO_SUGGEST_LIMITS } from './services/autoSuggest';
+import { fnv1a } from './services/hash';
+import { rebaseRange, TextRange } from './services/diff';
+import { DEFAULT_AI_SETTINGS, normalizeAISettings } from './services/aiProviders';
+import { noteRepository } from './services/noteRepository';
+import { revisionRepository } from './services/revisionRepository';
+import { folderRepository, getDescendantFolderIds, canMoveFolder, getFolderPath } from './services/folderRepository';
+import { extractTags, appendTags, matchesTags, TagMatchMode } from './services/tags';
+import { renderMarkdown } from './services/markdown';
+import { createSearchIndex, parseQuery, isEmptyQuery } from './services/searchIndex';
+import { findBacklinks, findNoteByTitle, rewriteWikiLinks } from './services/wikiLinks';
+import { FolderTree, NOTE_DRAG_TYPE } from './components/FolderTree';
+import { TagBrowser } from './components/TagBrowser';
+import { BacklinksPanel } from './components/BacklinksPanel';
+import { HighlightedText } from './components/HighlightedText';
+import { HistoryModal } from './components/HistoryModal';
+import { ImportModal } from './components/ImportModal';
+import { ImportCandidate } from './services/importer';
+import { RestoreModal } from './components/RestoreModal';
+import { AIProviderSettings, CredentialState } from './components/AIProviderSettings';
+import { AIReviewModal } from './components/AIReviewModal';
+import { AIErrorToast } from './components/AIErrorToast';
+import { ChatPanel } from './components/ChatPanel';
+import { RelatedNotesPanel } from './components/RelatedNotesPanel';
+import { DuplicatesModal } from './components/DuplicatesModal';
+import { NoteSuggestionBar, NoteSuggestion } from './components/NoteSuggestionBar';
+import { createSimilarityModel, mergeNoteContents } from './services/noteSimilarity';
+import { Workspace, RestoreMode, createBackup, serializeBackup } from './services/backup';
+import { exportNoteAsMarkdown, exportNotesAsMarkdownZip } from './services/markdownExport';
+import { exportNoteAsHtml, exportNotesAsSite } from './services/htmlExport';
+import {
+  PdfSettings,
+  PaperSize,
+  PAPER_SIZE_LABELS,
+  DEFAULT_PDF_SETTINGS,
+  PDF_MARGIN_OPTIONS,
+  exportNotesAsPdf
+} from './services/pdfExport';
+import { downloadBlob, sanitizeFilename, todayStamp } from './services/download';
 import JSZip from 'jszip';
 import { 
   PlusIcon, 
@@ -21,27 +65,96 @@ import {
   SunIcon,
   MoonIcon,
   SettingsIcon,
-  XIcon
+  XIcon,
+  HistoryIcon,
+  StopIcon,
+  MessageIcon
 } from './components/Icons';
 
 // --- Constants & Helper Functions ---
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
-const STORAGE_KEY = 'mindspace_notes_v1';
 const THEME_KEY = 'mindspace_theme_v1';
 const CUSTOM_PROMPTS_KEY = 'mindspace_custom_prompts_v1';
+const TRASH_RETENTION_KEY = 'mindspace_trash_retention_v1';
+const PDF_SETTINGS_KEY = 'mindspace_pdf_settings_v1';
+const AI_SETTINGS_KEY = 'mindspace_ai_settings_v1';
+const LOCALE_KEY = 'mindspace_locale_v1';
+const MAX_RELATED_NOTES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0]; // 0 = keep forever
+
+// AI actions whose output is written into the note while it streams in
+const STREAMED_ACTIONS = [AIActionType.CONTINUE_WRITING, AIActionType.SUMMARIZE, AIActionType.CUSTOM];
+
+// Actions that rewrite existing text are shown as a diff for review before applying
+const REVIEWED_ACTIONS = [AIActionType.FIX_GRAMMAR, AIActionType.REWRITE, AIActionType.TRANSLATE];
+
+const AI_ACTION_LABELS: Record<AIActionType, MessageKey> = {
+  [AIActionType.SUMMARIZE]: 'ai.actionSummarize',
+  [AIActionType.FIX_GRAMMAR]: 'ai.actionFixGrammar',
+  [AIActionType.CONTINUE_WRITING]: 'ai.actionContinue',
+  [AIActionType.GENERATE_TITLE]: 'ai.actionTitle',
+  [AIActionType.REWRITE]: 'ai.actionRewrite',
+  [AIActionType.TRANSLATE]: 'ai.actionTranslate',
+  [AIActionType.CUSTOM]: 'ai.actionCustom'
+};
+
+// AI requests running at once; further requests wait in the queue
+const MAX_CONCURRENT_AI_JOBS = 2;
+
+// Background suggestions skip notes too short to say what they're about
+const AUTO_SUGGEST_MIN_LENGTH = 40;
+// Most used tags offered to suggestions as the vocabulary to pick from
+const MAX_KNOWN_TAGS = 50;
+
+const PROMPT_TARGET_LABELS: Record<PromptOutputTarget, MessageKey> = {
+  append: 'settings.targetAppend',
+  replace: 'settings.targetReplace',
+  prepend: 'settings.targetPrepend',
+  cursor: 'settings.targetCursor',
+  title: 'settings.targetTitle',
+  newNote: 'settings.targetNewNote'
+};
 
-// Type for html2pdf global variable
-declare var html2pdf: any;
-
-const formatDate = (timestamp: number) => {
-  return new Intl.DateTimeFormat('zh-CN', {
-    month: 'short',
-    day: 'numeric',
-    hour: 'numeric',
-    minute: 'numeric',
-    hour12: false
-  }).format(new Date(timestamp));
+interface AIReview {
+  id: string;
+  noteId: string;
+  title: string;
+  original: string;
+  suggestion: string;
+  range: TextRange;
+  base: string; // note content the suggestion was computed against
+}
+
+const createNote = (title: string, folderId: string | null): Note => {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    title,
+    content: '',
+    excerpt: t('note.emptyExcerpt'),
+    updatedAt: now,
+    createdAt: now,
+    isFavorite: false,
+    folderId,
+    tags: [],
+  };
+};
+
+// Splits a state array into the entries that differ from what was last persisted
+// and the ids that disappeared since then
+const diffAgainstPersisted = <T extends { id: string }>(
+  persisted: Map<string, T>,
+  items: T[]
+): { changed: T[]; removedIds: string[] } => {
+  const changed = items.filter(item => persisted.get(item.id) !== item);
+  const currentIds = new Set(items.map(item => item.id));
+  const removedIds = [...persisted.keys()].filter(id => !currentIds.has(id));
+  return { changed, removedIds };
 };
 
 interface NoteSnapshot {
@@ -54,6 +167,8 @@ interface HistoryState {
   future: NoteSnapshot[];
 }
 
+type ViewFilter = 'all' | 'favorites' | 'trash';
+
 type SortKey = 'updatedAt' | 'createdAt' | 'title';
 type SortDirection = 'asc' | 'desc';
 
@@ -68,30 +183,74 @@ export default function App() {
   // --- State ---
   const [notes, setNotes] = useState<Note[]>([]);
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null); // null = all notebooks
   const [searchQuery, setSearchQuery] = useState('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true); // For mobile responsive
-  const [aiState, setAiState] = useState<AIState>({ isLoading: false, error: null });
+  const [aiState, setAiState] = useState<AIState>({ error: null });
   const [showAiMenu, setShowAiMenu] = useState(false);
+  // Editor selection captured when the AI menu opens, collapsed when only the caret is
+  // placed; null (or collapsed) targets the whole note
+  const [aiSelection, setAiSelection] = useState<TextRange | null>(null);
+  // Suggestions waiting for review, shown one at a time in the order they arrived
+  const [aiReviews, setAiReviews] = useState<AIReview[]>([]);
+  const [aiJobs, setAiJobs] = useState<AIJob[]>([]);
+  // Background suggestions per note, shown until used or dismissed
+  const [noteSuggestions, setNoteSuggestions] = useState<Record<string, NoteSuggestion>>({});
   const [showExportMenu, setShowExportMenu] = useState(false); // For single note export
   const [showGlobalMenu, setShowGlobalMenu] = useState(false); // For "Export All"
   const [showSortMenu, setShowSortMenu] = useState(false);
-  const [viewFilter, setViewFilter] = useState<'all' | 'favorites'>('all');
+  const [viewFilter, setViewFilter] = useState<ViewFilter>('all');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>('or');
   const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'updatedAt', direction: 'desc' });
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
   
   // Custom Prompts
   const [customPrompts, setCustomPrompts] = useState<CustomPrompt[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [pdfSettings, setPdfSettings] = useState<PdfSettings>(DEFAULT_PDF_SETTINGS);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [notesLoaded, setNotesLoaded] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false); // notes are not persisted until a reload succeeds
+  const [aiSettings, setAiSettings] = useState<AISettings>(DEFAULT_AI_SETTINGS);
+  // Starts locked so keys aren't saved before the stored ones are loaded
+  const [credentials, setCredentials] = useState<CredentialState>({ encrypted: false, locked: true });
   
   // New Prompt Input State
   const [newPromptName, setNewPromptName] = useState('');
   const [newPromptTemplate, setNewPromptTemplate] = useState('');
-  const [newPromptAction, setNewPromptAction] = useState<'replace' | 'append'>('append');
+  const [newPromptAction, setNewPromptAction] = useState<PromptOutputTarget>('append');
+  const [newPromptSystem, setNewPromptSystem] = useState('');
+  const [newPromptModel, setNewPromptModel] = useState('');
+  const [newPromptTemperature, setNewPromptTemperature] = useState('');
   
   // History State: map noteId -> { past[], future[] }
   const [history, setHistory] = useState<Record<string, HistoryState>>({});
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Passphrase for encrypted API keys, kept in memory only
+  const credentialPassphraseRef = useRef<string | null>(null);
+  const aiQueueRef = useRef(createAIJobQueue(MAX_CONCURRENT_AI_JOBS));
+  // The runner only reads refs, so the one from the first render stays current
+  const autoSuggesterRef = useRef(createAutoSuggester(AUTO_SUGGEST_LIMITS, (noteId, signal) => runAutoSuggest(noteId, signal)));
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  // Title when the title input gained focus, used to offer link rewrites on rename
+  const titleAtFocusRef = useRef<string | null>(null);
+
+  // Last version of each note written to the repository, used to persist only what changed
+  const persistedNotesRef = useRef<Map<string, Note> | null>(null);
+  const persistedFoldersRef = useRef<Map<string, Folder> | null>(null);
+
+  // Full-text index, updated incrementally with the notes it was last synced against
+  const searchIndexRef = useRef(createSearchIndex());
 
   // --- Effects ---
 
@@ -116,38 +275,109 @@ export default function App() {
     localStorage.setItem(THEME_KEY, theme);
   }, [theme]);
 
-  // Load Notes & Prompts from local storage on mount
+  // Load Locale; strings are looked up in the module locale, so it's switched before
+  // anything (like the welcome note) is created
   useEffect(() => {
-    const savedNotes = localStorage.getItem(STORAGE_KEY);
-    const savedPrompts = localStorage.getItem(CUSTOM_PROMPTS_KEY);
+    const savedLocale = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(savedLocale)) {
+      setLocale(savedLocale);
+      setLocaleState(savedLocale);
+    }
+  }, []);
 
-    if (savedNotes) {
+  // Apply Locale
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = t('app.name');
+    localStorage.setItem(LOCALE_KEY, locale);
+  }, [locale]);
+
+  // Load Notes from the repository & Prompts from local storage on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadNotes = async () => {
       try {
-        const parsed: Note[] = JSON.parse(savedNotes);
-        // Backfill createdAt if missing for existing notes
-        const patched = parsed.map(n => ({
-          ...n,
-          createdAt: n.createdAt || n.updatedAt || Date.now()
-        }));
-        setNotes(patched);
+        const saved = await noteRepository.getAll();
+        const savedFolders = await folderRepository.getAll();
+        const initialized = saved.length > 0 || await noteRepository.isInitialized();
+        if (cancelled) return;
+
+        persistedFoldersRef.current = new Map(savedFolders.map(f => [f.id, f]));
+        setFolders(savedFolders);
+
+        if (initialized) {
+          // Backfill createdAt / folderId / tags if missing for existing notes
+          const patched = saved.map(n => n.createdAt && n.folderId !== undefined && n.tags ? n : {
+            ...n,
+            createdAt: n.createdAt || n.updatedAt || Date.now(),
+            folderId: n.folderId ?? null,
+            tags: n.tags ?? extractTags(n.content)
+          });
+          persistedNotesRef.current = new Map(saved.map(n => [n.id, n]));
+          setNotes(patched);
+          setNotesLoaded(true);
+        } else {
+          // Create initial welcome note
+          const initialNote: Note = {
+            id: generateId(),
+            title: t('note.welcomeTitle'),
+            content: t('note.welcomeContent'),
+            excerpt: t('note.welcomeExcerpt'),
+            updatedAt: Date.now(),
+            createdAt: Date.now(),
+            isFavorite: false,
+            folderId: null,
+            tags: [],
+          };
+          await noteRepository.markInitialized();
+          persistedNotesRef.current = new Map();
+          setNotes([initialNote]);
+          setSelectedNoteId(initialNote.id);
+          setNotesLoaded(true);
+        }
       } catch (e) {
         console.error("Failed to load notes", e);
+        if (!cancelled) setLoadFailed(true);
       }
+    };
+
+    loadNotes();
+
+    const savedRetention = localStorage.getItem(TRASH_RETENTION_KEY);
+    if (savedRetention !== null && !Number.isNaN(Number(savedRetention))) {
+      setTrashRetentionDays(Number(savedRetention));
+    }
+
+    const savedPdfSettings = localStorage.getItem(PDF_SETTINGS_KEY);
+    if (savedPdfSettings) {
+      try {
+        setPdfSettings({ ...DEFAULT_PDF_SETTINGS, ...JSON.parse(savedPdfSettings) });
+      } catch (e) {
+        console.error("Failed to load PDF settings", e);
+      }
+    }
+
+    let loadedAiSettings = DEFAULT_AI_SETTINGS;
+    const savedAiSettings = localStorage.getItem(AI_SETTINGS_KEY);
+    if (savedAiSettings) {
+      try {
+        loadedAiSettings = normalizeAISettings(JSON.parse(savedAiSettings));
+      } catch (e) {
+        console.error("Failed to load AI settings", e);
+      }
+    }
+    // Encrypted keys wait for the passphrase; keys saved with the settings by older
+    // versions are moved to the credential store on the next save
+    if (credentialStore.isEncrypted()) {
+      setAiSettings(withoutApiKeys(loadedAiSettings));
+      setCredentials({ encrypted: true, locked: true });
     } else {
-      // Create initial welcome note
-      const initialNote: Note = {
-        id: generateId(),
-        title: '欢迎使用 MindSpace',
-        content: '# 欢迎使用 MindSpace\n\n这是一个全新的极简工作区。\n\n## 功能介绍\n\n- **AI 增强**：尝试点击上方的“魔术棒”图标来体验功能，例如：\n  - 自动生成摘要\n  - 修正语法\n  - 续写内容\n  - **自定义指令**：点击设置图标，添加你自己的 AI 提示词！\n- **Markdown 支持**：点击右上角的眼睛图标即可预览 Markdown 格式。\n- **导出功能**：您可以将笔记导出为 TXT 或 PDF 文件，也支持批量导出。\n- **排序与整理**：支持按修改时间、创建时间或标题排序。\n- **深色模式**：点击侧边栏的月亮/太阳图标，随心切换主题。\n\n享受写作的乐趣吧！',
-        excerpt: '这是一个全新的极简工作区。',
-        updatedAt: Date.now(),
-        createdAt: Date.now(),
-        isFavorite: false,
-      };
-      setNotes([initialNote]);
-      setSelectedNoteId(initialNote.id);
+      setAiSettings(withApiKeys(loadedAiSettings, { ...apiKeysOf(loadedAiSettings), ...credentialStore.read() }));
+      setCredentials({ encrypted: false, locked: false });
     }
 
+    const savedPrompts = localStorage.getItem(CUSTOM_PROMPTS_KEY);
     if (savedPrompts) {
       try {
         setCustomPrompts(JSON.parse(savedPrompts));
@@ -155,19 +385,62 @@ export default function App() {
         console.error("Failed to load custom prompts", e);
       }
     }
+
+    return () => { cancelled = true; };
   }, []);
 
-  // Save to local storage on change
+  // Persist changed notes individually once the initial load has finished
   useEffect(() => {
-    if (notes.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(notes));
-    }
+    const persisted = persistedNotesRef.current;
+    if (!persisted) return;
+
+    const { changed, removedIds } = diffAgainstPersisted<Note>(persisted, notes);
+    persistedNotesRef.current = new Map(notes.map(n => [n.id, n]));
+
+    noteRepository.putMany(changed).catch(e => console.error("Failed to save notes", e));
+    removedIds.forEach(id => {
+      noteRepository.remove(id).catch(e => console.error("Failed to delete note", e));
+    });
   }, [notes]);
 
+  useEffect(() => {
+    const persisted = persistedFoldersRef.current;
+    if (!persisted) return;
+
+    const { changed, removedIds } = diffAgainstPersisted<Folder>(persisted, folders);
+    persistedFoldersRef.current = new Map(folders.map(f => [f.id, f]));
+
+    folderRepository.putMany(changed).catch(e => console.error("Failed to save folders", e));
+    removedIds.forEach(id => {
+      folderRepository.remove(id).catch(e => console.error("Failed to delete folder", e));
+    });
+  }, [folders]);
+
   useEffect(() => {
     localStorage.setItem(CUSTOM_PROMPTS_KEY, JSON.stringify(customPrompts));
   }, [customPrompts]);
 
+  useEffect(() => {
+    localStorage.setItem(TRASH_RETENTION_KEY, String(trashRetentionDays));
+  }, [trashRetentionDays]);
+
+  useEffect(() => {
+    localStorage.setItem(PDF_SETTINGS_KEY, JSON.stringify(pdfSettings));
+  }, [pdfSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(withoutApiKeys(aiSettings)));
+  }, [aiSettings]);
+
+  // Keys are only re-saved (and re-encrypted) when they or the passphrase change
+  const apiKeysJson = useMemo(() => JSON.stringify(apiKeysOf(aiSettings)), [aiSettings]);
+  useEffect(() => {
+    if (credentials.locked) return;
+    credentialStore
+      .save(JSON.parse(apiKeysJson), credentialPassphraseRef.current)
+      .catch(e => console.error("Failed to save API keys", e));
+  }, [apiKeysJson, credentials]);
+
   // Reset typing timer when switching notes
   useEffect(() => {
     if (typingTimeoutRef.current) {
@@ -176,6 +449,15 @@ export default function App() {
     }
   }, [selectedNoteId]);
 
+  useEffect(() => aiQueueRef.current.subscribe(setAiJobs), []);
+
+  // Switching background suggestions off drops what's scheduled and what was suggested
+  useEffect(() => {
+    const suggester = autoSuggesterRef.current;
+    if (!aiSettings.autoSuggest) setNoteSuggestions({});
+    return () => suggester.stop();
+  }, [aiSettings.autoSuggest]);
+
   // Keyboard Shortcuts for Undo/Redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -199,21 +481,43 @@ export default function App() {
 
   // --- Computed ---
 
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+
+  const searchResults = useMemo(() => {
+    if (isEmptyQuery(parsedQuery)) return null;
+
+    // Idempotent, so repeated renders with the same notes do no extra work
+    const index = searchIndexRef.current;
+    index.sync(notes);
+    return new Map(index.search(parsedQuery, { notes, folders }).map(r => [r.noteId, r]));
+  }, [notes, folders, parsedQuery]);
+
+  // Trashed notes are hidden from everything except the trash view
+  const activeNotes = useMemo(() => notes.filter(n => !n.deletedAt), [notes]);
+  const trashedNotes = useMemo(() => notes.filter(n => n.deletedAt), [notes]);
+
   const filteredNotes = useMemo(() => {
-    let result = [...notes];
+    let result = viewFilter === 'trash' ? [...trashedNotes] : [...activeNotes];
     
     // 1. Filter
     if (viewFilter === 'favorites') {
       result = result.filter(n => n.isFavorite);
     }
 
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      result = result.filter(
-        (n) =>
-          n.title.toLowerCase().includes(q) ||
-          n.content.toLowerCase().includes(q)
-      );
+    // Folder scope includes notes in nested subfolders
+    if (selectedFolderId) {
+      const scope = getDescendantFolderIds(folders, selectedFolderId);
+      result = result.filter(n => n.folderId !== null && scope.has(n.folderId));
+    }
+
+    if (selectedTags.length > 0) {
+      result = result.filter(n => matchesTags(n.tags, selectedTags, tagMatchMode));
+    }
+
+    if (searchResults) {
+      result = result.filter(n => searchResults.has(n.id));
+      // 2. Sort by relevance while searching
+      return result.sort((a, b) => searchResults.get(b.id)!.score - searchResults.get(a.id)!.score);
     }
 
     // 2. Sort
@@ -234,58 +538,160 @@ export default function App() {
     });
 
     return result;
-  }, [notes, searchQuery, viewFilter, sortConfig]);
+  }, [activeNotes, trashedNotes, folders, selectedFolderId, selectedTags, tagMatchMode, searchResults, viewFilter, sortConfig]);
 
   const selectedNote = useMemo(
     () => notes.find((n) => n.id === selectedNoteId) || null,
     [notes, selectedNoteId]
   );
 
-  const canUndo = selectedNoteId ? (history[selectedNoteId]?.past.length > 0) : false;
-  const canRedo = selectedNoteId ? (history[selectedNoteId]?.future.length > 0) : false;
+  // Latest notes and selection for AI jobs, which finish long after the render that started them
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+  const foldersRef = useRef(folders);
+  foldersRef.current = folders;
+  const selectedNoteIdRef = useRef(selectedNoteId);
+  selectedNoteIdRef.current = selectedNoteId;
+  // Retried jobs use the settings as they are now, e.g. after a key was fixed
+  const aiSettingsRef = useRef(aiSettings);
+  aiSettingsRef.current = aiSettings;
+
+  const selectedAiJobs = aiJobs.filter(job => job.noteId === selectedNoteId);
+  const runningAiJob = selectedAiJobs.find(job => job.status === 'running') || null;
+  // Streamed output is written into the note as it arrives, so the editor waits for it
+  const isNoteLocked = !!runningAiJob?.locksNote;
+  const aiJobNoteIds = useMemo(() => new Set(aiJobs.map(job => job.noteId)), [aiJobs]);
+  const selectedSuggestion = selectedNoteId ? noteSuggestions[selectedNoteId] : undefined;
+
+  const folderNoteCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    activeNotes.forEach(n => {
+      if (n.folderId) counts[n.folderId] = (counts[n.folderId] || 0) + 1;
+    });
+    return counts;
+  }, [activeNotes]);
+
+  // All tags in the workspace with their note counts, most used first
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    activeNotes.forEach(n => n.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || compareText(a[0], b[0]));
+  }, [activeNotes]);
+  const knownTagsRef = useRef<string[]>([]);
+  knownTagsRef.current = tagCounts.slice(0, MAX_KNOWN_TAGS).map(([tag]) => tag);
+
+  // Drop selected tags that no longer exist on any note
+  useEffect(() => {
+    setSelectedTags(prev => {
+      const next = prev.filter(tag => tagCounts.some(([t]) => t === tag));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [tagCounts]);
+
+  const backlinks = useMemo(
+    () => (selectedNote ? findBacklinks(activeNotes, selectedNote) : []),
+    [activeNotes, selectedNote]
+  );
+
+  const similarityModel = useMemo(() => createSimilarityModel(activeNotes), [activeNotes]);
+  const relatedNotes = useMemo(
+    () => (selectedNote && !selectedNote.deletedAt ? similarityModel.related(selectedNote.id, MAX_RELATED_NOTES) : []),
+    [similarityModel, selectedNote]
+  );
+
+  const previewHtml = useMemo(() => {
+    if (!selectedNote || !isPreviewMode) return '';
+    return renderMarkdown(selectedNote.content, {
+      resolveWikiLink: (title) => Boolean(findNoteByTitle(activeNotes, title))
+    });
+  }, [activeNotes, selectedNote, isPreviewMode]);
+
+  const canUndo = selectedNoteId && !isNoteLocked ? (history[selectedNoteId]?.past.length > 0) : false;
+  const canRedo = selectedNoteId && !isNoteLocked ? (history[selectedNoteId]?.future.length > 0) : false;
 
   // --- Handlers ---
 
   const handleCreateNote = useCallback(() => {
-    const now = Date.now();
-    const newNote: Note = {
-      id: generateId(),
-      title: '新笔记',
-      content: '',
-      excerpt: '无额外内容',
-      updatedAt: now,
-      createdAt: now,
-      isFavorite: false,
-    };
+    const newNote = createNote(t('note.newTitle'), selectedFolderId);
     setNotes((prev) => [newNote, ...prev]);
     setSelectedNoteId(newNote.id);
     setIsPreviewMode(false); // Switch to edit mode for new note
     // On mobile, close sidebar after creating/selecting
     if (window.innerWidth < 768) setIsSidebarOpen(false);
-  }, []);
+  }, [selectedFolderId]);
 
   // Core update function (does NOT handle history)
+  // Tags are derived from content, so any content change re-parses them.
   const updateNoteState = (id: string, updates: Partial<Note>) => {
+    const derived = updates.content !== undefined && !updates.tags
+      ? { tags: extractTags(updates.content) }
+      : {};
     setNotes((prev) =>
-      prev.map((n) => (n.id === id ? { ...n, ...updates, updatedAt: Date.now() } : n))
+      prev.map((n) => (n.id === id ? { ...n, ...updates, ...derived, updatedAt: Date.now() } : n))
     );
   };
 
+  // Soft delete: the note moves to the trash and keeps its history
   const handleDeleteNote = (id: string) => {
-    if (window.confirm('确定要删除这条笔记吗？')) {
-        setNotes((prev) => prev.filter((n) => n.id !== id));
-        if (selectedNoteId === id) {
-          setSelectedNoteId(null);
-        }
-        // Clean up history
-        setHistory(prev => {
-          const newHistory = { ...prev };
-          delete newHistory[id];
-          return newHistory;
-        });
+    setNotes((prev) => prev.map((n) => (n.id === id ? { ...n, deletedAt: Date.now() } : n)));
+    if (selectedNoteId === id) {
+      setSelectedNoteId(null);
+    }
+  };
+
+  const handleRestoreNote = (id: string) => {
+    // The note's folder may have been deleted while it was in the trash
+    setNotes((prev) => prev.map((n) => (n.id === id ? {
+      ...n,
+      deletedAt: null,
+      folderId: n.folderId && folders.some(f => f.id === n.folderId) ? n.folderId : null
+    } : n)));
+  };
+
+  // Permanently removes notes along with their undo stacks and revisions
+  const purgeNotes = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    const purged = new Set(ids);
+    setNotes((prev) => prev.filter((n) => !purged.has(n.id)));
+    setSelectedNoteId(prev => (prev && purged.has(prev) ? null : prev));
+    // Clean up history
+    setHistory(prev => {
+      const newHistory = { ...prev };
+      ids.forEach(id => delete newHistory[id]);
+      return newHistory;
+    });
+    ids.forEach(id => {
+      revisionRepository.removeForNote(id).catch(e => console.error("Failed to delete revisions", e));
+    });
+  }, []);
+
+  const handlePurgeNote = (id: string) => {
+    if (window.confirm(t('note.confirmDeleteForever'))) {
+      purgeNotes([id]);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (trashedNotes.length === 0) return;
+    if (window.confirm(t('note.confirmEmptyTrash', { count: trashedNotes.length }))) {
+      purgeNotes(trashedNotes.map(n => n.id));
     }
   };
 
+  // Auto-empty: purge notes that have outlived the retention period. Checked once the
+  // notes have loaded, whenever the trash changes and hourly, so a tab left open still
+  // empties the trash.
+  useEffect(() => {
+    if (!notesLoaded || trashRetentionDays <= 0) return;
+    const purgeExpired = () => {
+      const cutoff = Date.now() - trashRetentionDays * DAY_MS;
+      purgeNotes(trashedNotes.filter(n => n.deletedAt! < cutoff).map(n => n.id));
+    };
+    purgeExpired();
+    const timer = setInterval(purgeExpired, TRASH_PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [notesLoaded, trashedNotes, trashRetentionDays, purgeNotes]);
+
   const handleToggleFavorite = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     const note = notes.find(n => n.id === id);
@@ -294,6 +700,93 @@ export default function App() {
     }
   };
 
+  // --- Folder Handlers ---
+
+  const handleCreateFolder = (parentId: string | null) => {
+    const name = window.prompt(t('folder.namePrompt'), t('folder.defaultName'));
+    if (!name || !name.trim()) return;
+    const now = Date.now();
+    const folder: Folder = { id: generateId(), name: name.trim(), parentId, createdAt: now, updatedAt: now };
+    setFolders(prev => [...prev, folder]);
+    setSelectedFolderId(folder.id);
+  };
+
+  const handleRenameFolder = (folder: Folder) => {
+    const name = window.prompt(t('folder.renamePrompt'), folder.name);
+    if (!name || !name.trim() || name.trim() === folder.name) return;
+    setFolders(prev => prev.map(f => f.id === folder.id ? { ...f, name: name.trim(), updatedAt: Date.now() } : f));
+  };
+
+  // Deleting a folder keeps its contents: notes and subfolders move up one level
+  const handleDeleteFolder = (folder: Folder) => {
+    if (!window.confirm(t('folder.confirmDelete', { name: folder.name }))) return;
+    setFolders(prev => prev
+      .filter(f => f.id !== folder.id)
+      .map(f => f.parentId === folder.id ? { ...f, parentId: folder.parentId, updatedAt: Date.now() } : f)
+    );
+    setNotes(prev => prev.map(n => n.folderId === folder.id ? { ...n, folderId: folder.parentId } : n));
+    if (selectedFolderId === folder.id) {
+      setSelectedFolderId(folder.parentId);
+    }
+  };
+
+  const handleMoveFolder = (folderId: string, parentId: string | null) => {
+    if (!canMoveFolder(folders, folderId, parentId)) return;
+    setFolders(prev => prev.map(f => f.id === folderId ? { ...f, parentId, updatedAt: Date.now() } : f));
+  };
+
+  const handleMoveNote = (noteId: string, folderId: string | null) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note || note.folderId === folderId) return;
+    updateNoteState(noteId, { folderId });
+  };
+
+  // --- Wiki Link Handlers ---
+
+  // Opens the note a [[link]] points at, creating it next to the current note if missing
+  const handleOpenWikiLink = (title: string) => {
+    const target = findNoteByTitle(activeNotes, title);
+    if (target) {
+      setSelectedNoteId(target.id);
+      return;
+    }
+    const newNote = createNote(title, selectedNote?.folderId ?? selectedFolderId);
+    setNotes(prev => [newNote, ...prev]);
+    setSelectedNoteId(newNote.id);
+    setIsPreviewMode(false);
+  };
+
+  const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const link = (e.target as HTMLElement).closest('a[data-wikilink]');
+    if (!link) return;
+    e.preventDefault();
+    handleOpenWikiLink(link.getAttribute('data-wikilink') || '');
+  };
+
+  const handleTitleBlur = () => {
+    const oldTitle = titleAtFocusRef.current;
+    titleAtFocusRef.current = null;
+    if (!selectedNote || oldTitle === null) return;
+
+    const newTitle = selectedNote.title.trim();
+    if (!oldTitle.trim() || !newTitle || oldTitle.trim() === newTitle) return;
+
+    const linking = findBacklinks(activeNotes, { ...selectedNote, title: oldTitle });
+    if (linking.length === 0) return;
+    if (!window.confirm(t('note.confirmUpdateLinks', { count: linking.length, oldTitle, newTitle }))) return;
+
+    const linkingIds = new Set(linking.map(n => n.id));
+    setNotes(prev => prev.map(n => {
+      if (!linkingIds.has(n.id)) return n;
+      const content = rewriteWikiLinks(n.content, oldTitle, newTitle);
+      return { ...n, content, excerpt: content.substring(0, 100), updatedAt: Date.now() };
+    }));
+  };
+
+  const handleToggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
   const handleSortChange = (key: SortKey, direction: SortDirection) => {
     setSortConfig({ key, direction });
     setShowSortMenu(false);
@@ -303,11 +796,17 @@ export default function App() {
     setTheme(prev => prev === 'light' ? 'dark' : 'light');
   };
 
-  // Helper to push current state to history before modification
+  // The module locale changes first so the re-render picks up the new strings
+  const handleLocaleChange = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
+
+  // Helper to push current state to history before modification; returns the new entry
   const saveToHistory = (note: Note) => {
+    const snapshot: NoteSnapshot = { title: note.title, content: note.content };
     setHistory(prev => {
       const noteHistory = prev[note.id] || { past: [], future: [] };
-      const snapshot: NoteSnapshot = { title: note.title, content: note.content };
       return {
         ...prev,
         [note.id]: {
@@ -316,6 +815,20 @@ export default function App() {
         }
       };
     });
+    return snapshot;
+  };
+
+  // Durable revision, kept across reloads (unlike the in-memory undo stack)
+  const captureRevision = (note: Note, reason: RevisionReason) => {
+    const revision: NoteRevision = {
+      id: generateId(),
+      noteId: note.id,
+      title: note.title,
+      content: note.content,
+      createdAt: Date.now(),
+      reason
+    };
+    revisionRepository.add(revision).catch(e => console.error("Failed to save revision", e));
   };
 
   // Handler for input changes (Title/Content) with Debounced History
@@ -325,6 +838,7 @@ export default function App() {
     // If this is the start of a new typing session, save snapshot
     if (!typingTimeoutRef.current) {
       saveToHistory(selectedNote);
+      captureRevision(selectedNote, 'typing');
     }
 
     // Clear existing timeout
@@ -342,10 +856,15 @@ export default function App() {
       [key]: value,
       excerpt: key === 'content' ? value.substring(0, 100) : selectedNote.excerpt
     });
+
+    if (aiSettings.autoSuggest) {
+      const edited = { ...selectedNote, [key]: value };
+      autoSuggesterRef.current.noteChanged(edited.id, fnv1a(`${edited.title}\n${edited.content}`));
+    }
   };
 
   const handleUndo = () => {
-    if (!selectedNote) return;
+    if (!selectedNote || isNoteLocked) return;
     const noteHistory = history[selectedNote.id];
     if (!noteHistory || noteHistory.past.length === 0) return;
 
@@ -368,7 +887,7 @@ export default function App() {
   };
 
   const handleRedo = () => {
-    if (!selectedNote) return;
+    if (!selectedNote || isNoteLocked) return;
     const noteHistory = history[selectedNote.id];
     if (!noteHistory || noteHistory.future.length === 0) return;
 
@@ -390,114 +909,557 @@ export default function App() {
     updateNoteState(selectedNote.id, { title: next.title, content: next.content });
   };
 
-  const handleAiAction = async (action: AIActionType, customPrompt?: CustomPrompt) => {
+  const handleRestoreRevision = (revision: NoteRevision) => {
     if (!selectedNote) return;
-    setShowAiMenu(false);
-    setAiState({ isLoading: true, error: null });
-
-    // Save state before AI modification
     saveToHistory(selectedNote);
-    // Force reset typing timer
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
-      typingTimeoutRef.current = null;
+    captureRevision(selectedNote, 'restore');
+    updateNoteState(selectedNote.id, {
+      title: revision.title,
+      content: revision.content,
+      excerpt: revision.content.substring(0, 100)
+    });
+    setIsHistoryOpen(false);
+  };
+
+  // Removes one entry pushed by saveToHistory, leaving entries added since in place
+  const dropHistoryEntry = (noteId: string, snapshot: NoteSnapshot) => {
+    setHistory(prev => {
+      const noteHistory = prev[noteId];
+      if (!noteHistory || !noteHistory.past.includes(snapshot)) return prev;
+      return { ...prev, [noteId]: { ...noteHistory, past: noteHistory.past.filter(entry => entry !== snapshot) } };
+    });
+  };
+
+  // Replaces `range` of `from`, an earlier version of the note's content, with `text` in the
+  // current content, following edits made since. Returns the new content and where `text`
+  // landed, or null when those edits overlap the range.
+  const spliceIntoNote = (noteId: string, from: string, range: TextRange, text: string) => {
+    const note = notesRef.current.find(n => n.id === noteId);
+    if (!note) return null;
+    const target = rebaseRange(from, note.content, range);
+    if (!target) return null;
+    const content = note.content.slice(0, target.start) + text + note.content.slice(target.end);
+    // Rendered right away so the next write compares against this one
+    flushSync(() => updateNoteState(noteId, { content }));
+    return { content, range: { start: target.start, end: target.start + text.length } };
+  };
+
+  const selectInEditor = (noteId: string, range: TextRange) => {
+    if (noteId !== selectedNoteIdRef.current) return;
+    requestAnimationFrame(() => editorRef.current?.setSelectionRange(range.start, range.end));
+  };
+
+  const showAiError = (error: string) => setAiState({ error });
+
+  // Shows why a request failed, with a retry button when sending it again could help
+  const showAiFailure = (err: unknown, label: string, retry?: () => void) => {
+    const { title, hint, detail } = describeAIError(err);
+    setAiState({ error: t('ai.failed', { label, title }), hint, detail, retry });
+  };
+
+  // Output that can no longer go where it was requested is offered at the end of the note
+  const resolveAiConflict = (noteId: string, label: string, text: string) => {
+    const note = notesRef.current.find(n => n.id === noteId);
+    if (!note || note.deletedAt) return;
+    if (!window.confirm(t('ai.confirmConflict', { title: note.title || t('common.untitledNote'), label }))) return;
+    saveToHistory(note);
+    captureRevision(note, 'ai');
+    const end = { start: note.content.length, end: note.content.length };
+    spliceIntoNote(noteId, note.content, end, `\n\n${text}`);
+  };
+
+  const handleAiAction = (action: AIActionType, customPrompt?: CustomPrompt) => {
+    if (!selectedNote) return;
+    const note = selectedNote;
+    const selection = aiSelection;
+    setShowAiMenu(false);
+    setAiSelection(null);
+    setAiState({ error: null });
+
+    // {{input:...}} values are asked for up front; cancelling any of them cancels the prompt
+    const inputs: Record<string, string> = {};
+    for (const label of customPrompt ? findTemplateInputs(customPrompt.template) : []) {
+      const value = window.prompt(t('ai.promptInput', { name: customPrompt!.name, label }));
+      if (value === null) return;
+      inputs[label] = value;
     }
 
-    try {
-      const result = await performAIAction(
-        action, 
-        selectedNote.content, 
-        customPrompt?.template
-      );
-
-      if (action === AIActionType.GENERATE_TITLE) {
-        updateNoteState(selectedNote.id, { title: result });
-      } else if (action === AIActionType.SUMMARIZE) {
-        const summaryBlock = `\n\n--- 摘要 ---\n${result}`;
-        updateNoteState(selectedNote.id, { content: selectedNote.content + summaryBlock });
-      } else if (action === AIActionType.CONTINUE_WRITING) {
-        updateNoteState(selectedNote.id, { content: selectedNote.content + ' ' + result });
-      } else if (action === AIActionType.FIX_GRAMMAR) {
-        updateNoteState(selectedNote.id, { content: result });
-      } else if (action === AIActionType.CUSTOM && customPrompt) {
-        if (customPrompt.actionType === 'replace') {
-           updateNoteState(selectedNote.id, { content: result });
+    const output = customPrompt?.actionType;
+    const label = customPrompt?.name || t(AI_ACTION_LABELS[action]);
+    const reviewed = output === 'replace' || REVIEWED_ACTIONS.includes(action);
+    const writesTitle = action === AIActionType.GENERATE_TITLE || output === 'title';
+    // Titles, new notes and reviewed changes are only written once complete
+    const streams = STREAMED_ACTIONS.includes(action) && !reviewed && !writesTitle && output !== 'newNote';
+
+    // Without a selection the whole note is the target
+    const requested = note.content;
+    const editorRange = selection && selection.end <= requested.length ? selection : null;
+    const wholeNote = !editorRange || editorRange.end === editorRange.start ||
+      (editorRange.start === 0 && editorRange.end === requested.length);
+    const requestedRange = wholeNote ? { start: 0, end: requested.length } : editorRange!;
+    const requestedCaret = editorRange ? editorRange.end : requested.length;
+
+    const run: AIJobRunner = async (signal) => {
+      const current = notesRef.current.find(n => n.id === note.id);
+      if (!current || current.deletedAt) return;
+
+      // Earlier jobs or edits may have changed the note while this one was queued
+      const base = current.content;
+      const range = wholeNote ? { start: 0, end: base.length } : rebaseRange(requested, base, requestedRange);
+      const caret = rebaseRange(requested, base, { start: requestedCaret, end: requestedCaret });
+      if (!range || !caret) {
+        showAiError(t('ai.selectionChanged', { label }));
+        return;
+      }
+      const isSelection = !wholeNote;
+      const target = base.slice(range.start, range.end);
+
+      // The undo entry and revision for the AI edit are recorded with the first write that
+      // lands, so a failed, stopped or declined job leaves none behind. Streamed output
+      // stays a single undo step.
+      let snapshot: NoteSnapshot | null = null;
+      const recordEdit = (before: Note) => {
+        if (snapshot) return;
+        snapshot = saveToHistory(before);
+        captureRevision(before, 'ai');
+        // Force reset typing timer
+        if (typingTimeoutRef.current && note.id === selectedNoteIdRef.current) {
+          clearTimeout(typingTimeoutRef.current);
+          typingTimeoutRef.current = null;
+        }
+      };
+
+      // Where the output goes in `base`, with the separators around it
+      const separator = action === AIActionType.SUMMARIZE
+        ? `\n\n${t('ai.summaryHeading')}\n`
+        : action === AIActionType.CONTINUE_WRITING ? ' ' : '\n\n';
+      const placement = output === 'prepend'
+        ? { at: { start: range.start, end: range.start }, before: '', after: '\n\n' }
+        : output === 'cursor'
+          ? { at: caret, before: '', after: '' }
+          : { at: { start: range.end, end: range.end }, before: separator, after: '' };
+
+      // The content as last written and where the output sits in it, so every write
+      // (streamed or final) follows edits made in the meantime
+      let written = base;
+      let region = placement.at;
+      const write = (result: string) => {
+        const before = notesRef.current.find(n => n.id === note.id);
+        const placed = spliceIntoNote(note.id, written, region, placement.before + result + placement.after);
+        if (!placed || !before) return false;
+        recordEdit(before);
+        written = placed.content;
+        region = placed.range;
+        return true;
+      };
+      const revert = () => {
+        if (written !== base) spliceIntoNote(note.id, written, region, '');
+        if (snapshot) dropHistoryEntry(note.id, snapshot);
+      };
+
+      let partial = '';
+      try {
+        const options = {
+          signal,
+          noteContext: isSelection ? base : undefined,
+          onText: streams
+            ? (text: string) => {
+                partial = text;
+                write(text);
+              }
+            : undefined
+        };
+        const result = customPrompt
+          ? await runCustomPrompt(customPrompt, {
+              text: target,
+              selection: isSelection ? target : '',
+              title: current.title,
+              date: formatDay(Date.now()),
+              tags: current.tags,
+              inputs
+            }, aiSettingsRef.current, options)
+          : await performAIAction(action, target, aiSettingsRef.current, options);
+
+        if (reviewed) {
+          setAiReviews(prev => [...prev, {
+            id: generateId(), noteId: note.id, title: label, original: target, suggestion: result, range, base
+          }]);
+          return;
+        }
+        if (output === 'newNote') {
+          const created: Note = {
+            ...createNote(t('ai.newNoteTitle', { name: customPrompt!.name, title: current.title || t('common.untitledNote') }), current.folderId),
+            content: result,
+            excerpt: result.substring(0, 100),
+            tags: extractTags(result)
+          };
+          setNotes(prev => [created, ...prev]);
+          setSelectedNoteId(created.id);
+          return;
+        }
+        if (writesTitle) {
+          const title = output === 'title' ? result.split('\n')[0].trim() : result;
+          const latest = notesRef.current.find(n => n.id === note.id);
+          if (!latest) return;
+          if (latest.title !== current.title &&
+            !window.confirm(t('ai.confirmTitleChanged', { current: latest.title, title }))) return;
+          recordEdit(latest);
+          updateNoteState(note.id, { title });
+          return;
+        }
+        if (!write(result)) {
+          resolveAiConflict(note.id, label, result);
+          return;
+        }
+        // Highlight the spliced output so it can be reviewed or undone at a glance
+        if (isSelection) {
+          selectInEditor(note.id, {
+            start: region.start + placement.before.length,
+            end: region.end - placement.after.length
+          });
+        }
+      } catch (err: any) {
+        if (signal.aborted) {
+          if (!partial || !window.confirm(t('ai.confirmKeepPartial', { label }))) revert();
         } else {
-           updateNoteState(selectedNote.id, { content: selectedNote.content + '\n\n' + result });
+          revert();
+          showAiFailure(err, label, enqueue);
         }
       }
+    };
+    const enqueue = () => {
+      aiQueueRef.current.enqueue({ noteId: note.id, label, locksNote: streams }, run);
+    };
+    enqueue();
+  };
 
-    } catch (err: any) {
-      setAiState({ isLoading: false, error: 'AI 请求失败，请检查 API Key。' });
-      setTimeout(() => setAiState(prev => ({ ...prev, error: null })), 3000);
-    } finally {
-      setAiState(prev => ({ ...prev, isLoading: false }));
+  const handleApplyAiReview = (text: string) => {
+    const review = aiReviews[0];
+    if (!review) return;
+    setAiReviews(prev => prev.slice(1));
+    const note = notes.find((n: Note) => n.id === review.noteId);
+    if (!note) return;
+
+    // The note may have been edited while the suggestion was generated or reviewed
+    const placed = spliceIntoNote(note.id, review.base, review.range, text);
+    if (!placed) {
+      resolveAiConflict(note.id, review.title, text);
+      return;
+    }
+    saveToHistory(note);
+    captureRevision(note, 'ai');
+    selectInEditor(note.id, placed.range);
+  };
+
+  const handleToggleAiMenu = () => {
+    const editor = editorRef.current;
+    setAiSelection(editor && !isPreviewMode ? { start: editor.selectionStart, end: editor.selectionEnd } : null);
+    setShowAiMenu(!showAiMenu);
+  };
+
+  // Stops the running job for the selected note and drops any queued behind it
+  const handleStopAi = () => {
+    selectedAiJobs.forEach(job => aiQueueRef.current.cancel(job.id));
+  };
+
+
+  // --- API Keys ---
+
+  const handleUnlockCredentials = async (passphrase: string) => {
+    try {
+      const keys = await credentialStore.unlock(passphrase);
+      credentialPassphraseRef.current = passphrase;
+      setAiSettings(prev => withApiKeys(prev, keys));
+      setCredentials({ encrypted: true, locked: false });
+      return true;
+    } catch {
+      return false;
     }
   };
 
+  // Re-saves the keys encrypted with the new passphrase, or in plain text for null
+  const handleSetCredentialPassphrase = (passphrase: string | null) => {
+    credentialPassphraseRef.current = passphrase;
+    setCredentials({ encrypted: passphrase !== null, locked: false });
+  };
+
+  const handleForgetCredentials = () => {
+    credentialStore.clear();
+    credentialPassphraseRef.current = null;
+    setAiSettings(prev => withoutApiKeys(prev));
+    setCredentials({ encrypted: false, locked: false });
+  };
+
+  // --- Background Suggestions ---
+
+  // Full path, so folders with the same name can be told apart
+  const folderLabel = (folderId: string, within: Folder[] = folders) =>
+    getFolderPath(within, folderId).map(f => f.name).join(' / ');
+
+  // Asks for a title (for untitled notes), tags and a folder (for unfiled notes) once a
+  // note stopped changing. Nothing is applied until the user picks a suggestion.
+  const runAutoSuggest = async (noteId: string, signal: AbortSignal) => {
+    const note = notesRef.current.find(n => n.id === noteId);
+    if (!note || note.deletedAt || note.content.trim().length < AUTO_SUGGEST_MIN_LENGTH) return;
+    const title = note.title.trim();
+    const folderIds = note.folderId ? [] : foldersRef.current.map(f => f.id);
+    const folderNames = folderIds.map(id => folderLabel(id, foldersRef.current));
+
+    const suggestion = await suggestNoteMetadata({
+      title,
+      content: note.content,
+      wantsTitle: !title || allTranslations('note.newTitle').includes(title),
+      tags: note.tags,
+      knownTags: knownTagsRef.current,
+      folders: folderNames
+    }, aiSettingsRef.current, { signal });
+
+    const folderId = suggestion.folder ? folderIds[folderNames.indexOf(suggestion.folder)] : null;
+    setNoteSuggestions(({ [noteId]: _, ...rest }) =>
+      suggestion.title || suggestion.tags.length > 0 || folderId
+        ? { ...rest, [noteId]: { title: suggestion.title, tags: suggestion.tags, folderId } }
+        : rest
+    );
+  };
+
+  // Removes the parts of a suggestion that were used, and the suggestion once nothing is left
+  const updateSuggestion = (noteId: string, used: Partial<NoteSuggestion>) => {
+    setNoteSuggestions(({ [noteId]: current, ...rest }) => {
+      if (!current) return rest;
+      const next = { ...current, ...used };
+      return next.title || next.tags.length > 0 || next.folderId ? { ...rest, [noteId]: next } : rest;
+    });
+  };
+
+  const handleUseSuggestedTitle = () => {
+    const title = selectedNote && noteSuggestions[selectedNote.id]?.title;
+    if (!selectedNote || !title) return;
+    saveToHistory(selectedNote);
+    updateNoteState(selectedNote.id, { title });
+    updateSuggestion(selectedNote.id, { title: null });
+  };
+
+  const handleAddSuggestedTags = (tags: string[]) => {
+    const suggestion = selectedNote && noteSuggestions[selectedNote.id];
+    if (!selectedNote || !suggestion) return;
+    saveToHistory(selectedNote);
+    const content = appendTags(selectedNote.content, tags);
+    updateNoteState(selectedNote.id, { content, excerpt: content.substring(0, 100) });
+    updateSuggestion(selectedNote.id, { tags: suggestion.tags.filter(tag => !tags.includes(tag)) });
+  };
+
+  const handleMoveToSuggestedFolder = () => {
+    const folderId = selectedNote && noteSuggestions[selectedNote.id]?.folderId;
+    if (!selectedNote || !folderId) return;
+    handleMoveNote(selectedNote.id, folderId);
+    updateSuggestion(selectedNote.id, { folderId: null });
+  };
+
+  const handleDismissSuggestion = () => {
+    if (selectedNote) setNoteSuggestions(({ [selectedNote.id]: _, ...rest }) => rest);
+  };
+
   const handleAddCustomPrompt = () => {
     if (!newPromptName.trim() || !newPromptTemplate.trim()) return;
+    const temperature = parseFloat(newPromptTemperature);
     const newPrompt: CustomPrompt = {
       id: generateId(),
       name: newPromptName,
       template: newPromptTemplate,
+      ...(newPromptSystem.trim() ? { systemPrompt: newPromptSystem.trim() } : {}),
+      ...(newPromptModel.trim() ? { model: newPromptModel.trim() } : {}),
+      ...(Number.isFinite(temperature) ? { temperature: Math.min(2, Math.max(0, temperature)) } : {}),
       actionType: newPromptAction
     };
     setCustomPrompts(prev => [...prev, newPrompt]);
     setNewPromptName('');
     setNewPromptTemplate('');
     setNewPromptAction('append');
+    setNewPromptSystem('');
+    setNewPromptModel('');
+    setNewPromptTemperature('');
   };
 
   const handleDeleteCustomPrompt = (id: string) => {
     setCustomPrompts(prev => prev.filter(p => p.id !== id));
   };
 
+  // --- Duplicates ---
+
+  // Folds the source notes into the target and moves them to the trash
+  const handleMergeNotes = (targetId: string, sourceIds: string[]) => {
+    const target = notes.find(n => n.id === targetId);
+    const sources = notes.filter(n => sourceIds.includes(n.id));
+    if (!target || sources.length === 0) return;
+    if (!window.confirm(t('note.confirmMerge', { count: sources.length, title: target.title || t('common.untitledNote') }))) return;
+
+    saveToHistory(target);
+    captureRevision(target, 'merge');
+    const content = mergeNoteContents(target, sources);
+    const merged = new Set(sourceIds);
+    // Links to a merged note now lead to the note that absorbed it
+    const renamed = sources.filter(s => s.title.trim() && s.title.trim() !== target.title.trim());
+    const now = Date.now();
+
+    setNotes(prev => prev.map(n => {
+      if (n.id === target.id) {
+        return {
+          ...n,
+          content,
+          excerpt: content.substring(0, 100),
+          tags: extractTags(content),
+          isFavorite: n.isFavorite || sources.some(s => s.isFavorite),
+          updatedAt: now
+        };
+      }
+      if (merged.has(n.id)) return { ...n, deletedAt: now };
+      if (n.deletedAt || !target.title.trim()) return n;
+      const relinked = renamed.reduce((text, s) => rewriteWikiLinks(text, s.title, target.title), n.content);
+      return relinked === n.content ? n : { ...n, content: relinked, excerpt: relinked.substring(0, 100), updatedAt: now };
+    }));
+    if (selectedNoteId && merged.has(selectedNoteId)) setSelectedNoteId(target.id);
+  };
+
+  // --- Import ---
+
+  // Imported notes land in the selected folder; directory paths become subfolders,
+  // reusing existing folders with the same name at the same level.
+  const handleImportNotes = (candidates: ImportCandidate[], keepFolders: boolean) => {
+    const now = Date.now();
+    const allFolders = [...folders];
+    const createdFolders: Folder[] = [];
+
+    const resolveFolder = (path: string[]): string | null => {
+      let parentId = selectedFolderId;
+      path.forEach(name => {
+        let folder = allFolders.find(f => f.parentId === parentId && f.name === name);
+        if (!folder) {
+          folder = { id: generateId(), name, parentId, createdAt: now, updatedAt: now };
+          allFolders.push(folder);
+          createdFolders.push(folder);
+        }
+        parentId = folder.id;
+      });
+      return parentId;
+    };
+
+    const imported: Note[] = candidates.map(c => ({
+      id: generateId(),
+      title: c.title,
+      content: c.content,
+      excerpt: c.content.substring(0, 100),
+      createdAt: c.createdAt,
+      updatedAt: c.updatedAt,
+      isFavorite: c.isFavorite,
+      folderId: keepFolders ? resolveFolder(c.folderPath) : selectedFolderId,
+      tags: c.tags,
+    }));
+
+    if (createdFolders.length > 0) {
+      setFolders(prev => [...prev, ...createdFolders]);
+    }
+    setNotes(prev => [...imported, ...prev]);
+    setIsImportOpen(false);
+    setViewFilter('all');
+    if (imported.length > 0) setSelectedNoteId(imported[0].id);
+  };
+
+  // --- Backup & Restore ---
+
+  const workspace = useMemo<Workspace>(() => ({
+    notes,
+    folders,
+    customPrompts,
+    settings: { theme, trashRetentionDays, locale, pdf: pdfSettings, ai: aiSettings }
+  }), [notes, folders, customPrompts, theme, trashRetentionDays, locale, pdfSettings, aiSettings]);
+
+  const handleExportBackup = () => {
+    setShowGlobalMenu(false);
+    const blob = new Blob([serializeBackup(createBackup(workspace))], { type: 'application/json;charset=utf-8' });
+    downloadBlob(blob, `MindSpace_Workspace_${todayStamp()}.json`);
+  };
+
+  const handleApplyRestore = (restored: Workspace, mode: RestoreMode) => {
+    if (mode === 'replace') {
+      // Drop undo stacks and revisions of notes that no longer exist
+      const keptIds = new Set(restored.notes.map(n => n.id));
+      notes.filter((n: Note) => !keptIds.has(n.id)).forEach((n: Note) => {
+        revisionRepository.removeForNote(n.id).catch(e => console.error("Failed to delete revisions", e));
+      });
+      setHistory({});
+      setTheme(restored.settings.theme);
+      setTrashRetentionDays(restored.settings.trashRetentionDays);
+      handleLocaleChange(restored.settings.locale);
+      setPdfSettings(restored.settings.pdf);
+      // Backups carry no API keys; the ones configured here stay in place
+      setAiSettings(withApiKeys(restored.settings.ai, apiKeysOf(aiSettings)));
+      setSelectedFolderId(null);
+      if (selectedNoteId && !keptIds.has(selectedNoteId)) setSelectedNoteId(null);
+    }
+    setNotes(restored.notes);
+    setFolders(restored.folders);
+    setCustomPrompts(restored.customPrompts);
+  };
+
   // --- Export Functions ---
 
   const handleExportSingleTxt = () => {
     if (!selectedNote) return;
     const blob = new Blob([selectedNote.content], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${selectedNote.title || '未命名'}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `${sanitizeFilename(selectedNote.title)}.txt`);
     setShowExportMenu(false);
   };
 
-  const handleExportSinglePdf = () => {
+  const handleExportSingleMarkdown = async () => {
     if (!selectedNote) return;
     setShowExportMenu(false);
-    
-    // Create a temporary container for rendering
-    const element = document.createElement('div');
-    element.className = 'prose prose-slate max-w-none p-10 bg-white text-gray-900';
-    element.style.width = '800px'; 
-    element.innerHTML = `
-      <h1 style="margin-bottom: 1.5rem; border-bottom: 1px solid #eee; padding-bottom: 0.5rem;">${selectedNote.title || '未命名'}</h1>
-      <div>${marked.parse(selectedNote.content)}</div>
-    `;
-
-    const opt = {
-      margin: [10, 10],
-      filename: `${selectedNote.title || '未命名'}.pdf`,
-      image: { type: 'jpeg', quality: 0.98 },
-      html2canvas: { scale: 2, useCORS: true },
-      jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
-    };
+    try {
+      const { blob, filename } = await exportNoteAsMarkdown(selectedNote);
+      downloadBlob(blob, filename);
+    } catch (error) {
+      console.error("Export Markdown failed", error);
+      alert(t('app.exportFailed'));
+    }
+  };
+
+  const handleExportSingleHtml = () => {
+    if (!selectedNote) return;
+    setShowExportMenu(false);
+    downloadBlob(exportNoteAsHtml(selectedNote, activeNotes, { formatDate }), `${sanitizeFilename(selectedNote.title)}.html`);
+  };
+
+  const exportPdf = async (pdfNotes: Note[], filename: string) => {
+    setIsExportingPdf(true);
+    try {
+      const warnings: string[] = [];
+      const blob = await exportNotesAsPdf(pdfNotes, {
+        settings: pdfSettings,
+        formatDate,
+        onWarning: message => warnings.push(message)
+      });
+      downloadBlob(blob, filename);
+      if (warnings.length > 0) alert(warnings.join('\n'));
+    } catch (error) {
+      console.error("Export PDF failed", error);
+      alert(error instanceof Error ? error.message : t('app.exportFailed'));
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
 
-    html2pdf().set(opt).from(element).save();
+  const handleExportSinglePdf = () => {
+    if (!selectedNote || isExportingPdf) return;
+    setShowExportMenu(false);
+    exportPdf([selectedNote], `${sanitizeFilename(selectedNote.title)}.pdf`);
   };
 
   const handleExportAllTxt = async () => {
     setShowGlobalMenu(false);
-    if (notes.length === 0) return;
+    if (activeNotes.length === 0) return;
 
     const zip = new JSZip();
-    notes.forEach(note => {
-      const filename = (note.title || '未命名').replace(/[\\/:*?"<>|]/g, '_') + '.txt';
+    activeNotes.forEach(note => {
+      const filename = (note.title || t('common.untitled')).replace(/[\\/:*?"<>|]/g, '_') + '.txt';
       zip.file(filename, note.content);
     });
 
@@ -511,39 +1473,38 @@ export default function App() {
       URL.revokeObjectURL(url);
     } catch (error) {
       console.error("Export ZIP failed", error);
-      alert("导出失败");
+      alert(t('app.exportFailed'));
     }
   };
 
-  const handleExportAllPdf = () => {
+  const handleExportAllMarkdown = async () => {
     setShowGlobalMenu(false);
-    if (notes.length === 0) return;
-
-    const element = document.createElement('div');
-    element.className = 'prose prose-slate max-w-none p-10 bg-white text-gray-900';
-    element.style.width = '800px';
-
-    notes.forEach((note, index) => {
-       const noteDiv = document.createElement('div');
-       noteDiv.style.pageBreakAfter = 'always';
-       if (index === notes.length - 1) noteDiv.style.pageBreakAfter = 'avoid';
-       
-       noteDiv.innerHTML = `
-         <h1 style="margin-bottom: 1.5rem; border-bottom: 1px solid #eee; padding-bottom: 0.5rem;">${note.title || '未命名'}</h1>
-         <div>${marked.parse(note.content)}</div>
-       `;
-       element.appendChild(noteDiv);
-    });
+    if (activeNotes.length === 0) return;
+    try {
+      const blob = await exportNotesAsMarkdownZip(activeNotes, folders);
+      downloadBlob(blob, `MindSpace_Markdown_${todayStamp()}.zip`);
+    } catch (error) {
+      console.error("Export Markdown failed", error);
+      alert(t('app.exportFailed'));
+    }
+  };
 
-    const opt = {
-      margin: [10, 10],
-      filename: `MindSpace_All_Notes_${new Date().toISOString().split('T')[0]}.pdf`,
-      image: { type: 'jpeg', quality: 0.98 },
-      html2canvas: { scale: 2, useCORS: true },
-      jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
-    };
+  const handleExportSite = async () => {
+    setShowGlobalMenu(false);
+    if (activeNotes.length === 0) return;
+    try {
+      const blob = await exportNotesAsSite(activeNotes, folders, { formatDate });
+      downloadBlob(blob, `MindSpace_Site_${todayStamp()}.zip`);
+    } catch (error) {
+      console.error("Export site failed", error);
+      alert(t('app.exportFailed'));
+    }
+  };
 
-    html2pdf().set(opt).from(element).save();
+  const handleExportAllPdf = () => {
+    setShowGlobalMenu(false);
+    if (activeNotes.length === 0 || isExportingPdf) return;
+    exportPdf(activeNotes, `MindSpace_All_Notes_${todayStamp()}.pdf`);
   };
 
   // --- Render ---
@@ -570,14 +1531,23 @@ export default function App() {
         {/* Sidebar Header */}
         <div className="p-4 border-b border-gray-200 dark:border-gray-800">
            <div className="flex justify-between items-center mb-4 relative">
-             <h1 className="text-xl font-bold text-gray-800 dark:text-gray-100 tracking-tight">MindSpace 笔记</h1>
+             <h1 className="text-xl font-bold text-gray-800 dark:text-gray-100 tracking-tight">{t('app.name')}</h1>
              
              <div className="flex items-center">
+                {/* Chat with Notes */}
+                <button
+                  onClick={() => setIsChatOpen(!isChatOpen)}
+                  className={`p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-800 mr-1 transition-colors ${isChatOpen ? 'bg-gray-200 dark:bg-gray-800 text-gray-800 dark:text-gray-200' : 'text-gray-500 dark:text-gray-400'}`}
+                  title={t('sidebar.chat')}
+                >
+                  <MessageIcon className="w-5 h-5" />
+                </button>
+
                 {/* Theme Toggle */}
                 <button
                   onClick={toggleTheme}
                   className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-800 mr-1 transition-colors text-gray-500 dark:text-gray-400"
-                  title={theme === 'light' ? '切换至深色模式' : '切换至浅色模式'}
+                  title={theme === 'light' ? t('sidebar.darkMode') : t('sidebar.lightMode')}
                 >
                   {theme === 'light' ? <MoonIcon className="w-5 h-5" /> : <SunIcon className="w-5 h-5" />}
                 </button>
@@ -587,7 +1557,7 @@ export default function App() {
                    <button 
                      onClick={() => setShowSortMenu(!showSortMenu)}
                      className={`p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-800 mr-1 transition-colors ${showSortMenu ? 'bg-gray-200 dark:bg-gray-800 text-gray-800 dark:text-gray-200' : 'text-gray-500 dark:text-gray-400'}`}
-                     title="排序"
+                     title={t('sidebar.sort')}
                    >
                      <SortIcon className="w-5 h-5" />
                    </button>
@@ -595,24 +1565,24 @@ export default function App() {
                    {showSortMenu && (
                      <div className="absolute left-0 top-full mt-2 w-48 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-100 dark:border-gray-700 z-50 overflow-hidden">
                         <div className="py-1">
-                          <div className="px-4 py-1 text-xs font-semibold text-gray-400 uppercase tracking-wider">排序方式</div>
+                          <div className="px-4 py-1 text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('sidebar.sortBy')}</div>
                           <button 
                             onClick={() => handleSortChange('updatedAt', 'desc')}
                             className={`block w-full text-left px-4 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 ${sortConfig.key === 'updatedAt' && sortConfig.direction === 'desc' ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-gray-700' : 'text-gray-700 dark:text-gray-300'}`}
                           >
-                            修改时间 (最新)
+                            {t('sidebar.sortUpdated')}
                           </button>
                           <button 
                             onClick={() => handleSortChange('createdAt', 'desc')}
                             className={`block w-full text-left px-4 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 ${sortConfig.key === 'createdAt' && sortConfig.direction === 'desc' ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-gray-700' : 'text-gray-700 dark:text-gray-300'}`}
                           >
-                            创建时间 (最新)
+                            {t('sidebar.sortCreated')}
                           </button>
                           <button 
                             onClick={() => handleSortChange('title', 'asc')}
                             className={`block w-full text-left px-4 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 ${sortConfig.key === 'title' && sortConfig.direction === 'asc' ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-gray-700' : 'text-gray-700 dark:text-gray-300'}`}
                           >
-                            标题 (A-Z)
+                            {t('sidebar.sortTitle')}
                           </button>
                         </div>
                      </div>
@@ -635,13 +1605,69 @@ export default function App() {
                             onClick={handleExportAllTxt}
                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
                           >
-                            导出所有笔记 (ZIP)
+                            {t('sidebar.exportAllZip')}
+                          </button>
+                          <button 
+                            onClick={handleExportAllMarkdown}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            {t('sidebar.exportAllMarkdown')}
                           </button>
                           <button 
                             onClick={handleExportAllPdf}
                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
                           >
-                            导出所有笔记 (PDF)
+                            {t('sidebar.exportAllPdf')}
+                          </button>
+                          <button 
+                            onClick={handleExportSite}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            {t('sidebar.exportSite')}
+                          </button>
+                          <button 
+                            onClick={() => {
+                              setShowGlobalMenu(false);
+                              setIsImportOpen(true);
+                            }}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            {t('sidebar.import')}
+                          </button>
+                          <button 
+                            onClick={() => {
+                              setShowGlobalMenu(false);
+                              setIsDuplicatesOpen(true);
+                            }}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            {t('sidebar.findDuplicates')}
+                          </button>
+                          <div className="border-t border-gray-100 dark:border-gray-700 my-1"></div>
+                          <button 
+                            onClick={handleExportBackup}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            {t('sidebar.backup')}
+                          </button>
+                          <button 
+                            onClick={() => {
+                              setShowGlobalMenu(false);
+                              setIsRestoreOpen(true);
+                            }}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            {t('sidebar.restore')}
+                          </button>
+                          <div className="border-t border-gray-100 dark:border-gray-700 my-1"></div>
+                          <button 
+                            onClick={() => {
+                              setShowGlobalMenu(false);
+                              setIsSettingsOpen(true);
+                            }}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            {t('sidebar.settings')}
                           </button>
                         </div>
                      </div>
@@ -663,7 +1689,8 @@ export default function App() {
              <SearchIcon className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
              <input
                type="text"
-               placeholder="搜索笔记..."
+               placeholder={t('sidebar.searchPlaceholder')}
+               title={t('sidebar.searchHint')}
                className="w-full pl-9 pr-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all placeholder-gray-400 dark:placeholder-gray-500"
                value={searchQuery}
                onChange={(e) => setSearchQuery(e.target.value)}
@@ -676,58 +1703,120 @@ export default function App() {
               onClick={() => setViewFilter('all')}
               className={`flex-1 text-xs font-medium py-1.5 rounded-md transition-colors ${viewFilter === 'all' ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
              >
-               全部
+               {t('common.all')}
              </button>
              <button 
                onClick={() => setViewFilter('favorites')}
                className={`flex-1 text-xs font-medium py-1.5 rounded-md transition-colors ${viewFilter === 'favorites' ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
              >
-               收藏
+               {t('sidebar.favorites')}
+             </button>
+             <button 
+               onClick={() => setViewFilter('trash')}
+               className={`flex-1 text-xs font-medium py-1.5 rounded-md transition-colors ${viewFilter === 'trash' ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+             >
+               {t('sidebar.trash')}{trashedNotes.length > 0 ? ` (${trashedNotes.length})` : ''}
              </button>
            </div>
+
+           {viewFilter === 'trash' && (
+             <div className="flex justify-between items-center mt-2 px-1 text-[11px] text-gray-400">
+               <span>{trashRetentionDays > 0 ? t('sidebar.trashRetention', { days: trashRetentionDays }) : t('sidebar.trashKept')}</span>
+               <button
+                 onClick={handleEmptyTrash}
+                 disabled={trashedNotes.length === 0}
+                 className="text-red-500 hover:text-red-600 disabled:text-gray-300 dark:disabled:text-gray-600"
+               >
+                 {t('sidebar.emptyTrash')}
+               </button>
+             </div>
+           )}
+
+           {/* Tag Browser */}
+           <TagBrowser
+             tagCounts={tagCounts}
+             selectedTags={selectedTags}
+             matchMode={tagMatchMode}
+             onToggleTag={handleToggleTag}
+             onMatchModeChange={setTagMatchMode}
+             onClear={() => setSelectedTags([])}
+           />
+
+           {/* Folder Tree */}
+           <FolderTree
+             folders={folders}
+             selectedFolderId={selectedFolderId}
+             noteCounts={folderNoteCounts}
+             onSelect={setSelectedFolderId}
+             onCreate={handleCreateFolder}
+             onRename={handleRenameFolder}
+             onDelete={handleDeleteFolder}
+             onMoveFolder={handleMoveFolder}
+             onMoveNote={handleMoveNote}
+           />
         </div>
 
         {/* Note List */}
         <div className="flex-1 overflow-y-auto">
           {filteredNotes.length === 0 ? (
             <div className="p-8 text-center text-gray-400 text-sm">
-              没有找到笔记。
+              {t('sidebar.noNotes')}
             </div>
           ) : (
             <ul>
-              {filteredNotes.map((note) => (
-                <li
-                  key={note.id}
-                  onClick={() => {
-                    setSelectedNoteId(note.id);
-                    setIsPreviewMode(false); 
-                    if (window.innerWidth < 768) setIsSidebarOpen(false);
-                  }}
-                  className={`group relative p-4 border-b border-gray-100 dark:border-gray-800 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-850 transition-colors ${
-                    selectedNoteId === note.id ? 'bg-white dark:bg-gray-800 border-l-4 border-l-blue-500 shadow-sm' : 'border-l-4 border-l-transparent'
-                  }`}
-                >
-                  <div className="flex justify-between items-start mb-1">
-                    <h3 className={`text-sm font-semibold truncate pr-6 ${selectedNoteId === note.id ? 'text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
-                      {note.title || '无标题笔记'}
-                    </h3>
-                  </div>
-                  <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 h-8 mb-2">
-                    {note.content || '暂无内容...'}
-                  </p>
-                  <div className="flex justify-between items-center mt-1">
-                     <span className="text-[10px] text-gray-400 dark:text-gray-500 font-medium">
-                      {formatDate(note.updatedAt)}
-                    </span>
-                    <button
-                      onClick={(e) => handleToggleFavorite(note.id, e)}
-                      className={`p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${note.isFavorite ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600 opacity-0 group-hover:opacity-100'}`}
-                    >
-                      <StarIcon className="w-4 h-4" fill={note.isFavorite} />
-                    </button>
-                  </div>
-                </li>
-              ))}
+              {filteredNotes.map((note) => {
+                const match = searchResults?.get(note.id);
+                return (
+                  <li
+                    key={note.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onClick={() => {
+                      setSelectedNoteId(note.id);
+                      setIsPreviewMode(false); 
+                      if (window.innerWidth < 768) setIsSidebarOpen(false);
+                    }}
+                    className={`group relative p-4 border-b border-gray-100 dark:border-gray-800 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-850 transition-colors ${
+                      selectedNoteId === note.id ? 'bg-white dark:bg-gray-800 border-l-4 border-l-blue-500 shadow-sm' : 'border-l-4 border-l-transparent'
+                    }`}
+                  >
+                    <div className="flex justify-between items-start mb-1">
+                      <h3 className={`text-sm font-semibold truncate pr-6 ${selectedNoteId === note.id ? 'text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+                        {aiJobNoteIds.has(note.id) && (
+                          <WandIcon className="inline w-3 h-3 mr-1 text-indigo-500 animate-pulse" />
+                        )}
+                        {match && note.title ? <HighlightedText segments={match.titleSegments} /> : (note.title || t('common.untitledNote'))}
+                      </h3>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 h-8 mb-2">
+                      {match ? <HighlightedText segments={match.snippet} /> : (note.content || t('common.noContent'))}
+                    </p>
+                    {note.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-1">
+                        {note.tags.slice(0, 4).map(tag => (
+                          <span key={tag} className="text-[10px] px-1.5 rounded bg-blue-50 dark:bg-gray-800 text-blue-600 dark:text-blue-400">
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center mt-1">
+                       <span className="text-[10px] text-gray-400 dark:text-gray-500 font-medium">
+                        {note.deletedAt ? t('sidebar.deletedAt', { date: formatDate(note.deletedAt) }) : formatDate(note.updatedAt)}
+                      </span>
+                      <button
+                        onClick={(e) => handleToggleFavorite(note.id, e)}
+                        className={`p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${note.isFavorite ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600 opacity-0 group-hover:opacity-100'}`}
+                      >
+                        <StarIcon className="w-4 h-4" fill={note.isFavorite} />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
             </ul>
           )}
         </div>
@@ -740,20 +1829,30 @@ export default function App() {
             {/* Toolbar */}
             <div className="h-16 border-b border-gray-100 dark:border-gray-800 flex items-center justify-between px-4 md:px-8 bg-white dark:bg-gray-950 shrink-0">
                <div className="flex items-center text-gray-400 text-xs">
-                 <span className="hidden md:inline">最后编辑：{formatDate(selectedNote.updatedAt)}</span>
+                 <span className="hidden md:inline">{t('editor.lastEdited', { date: formatDate(selectedNote.updatedAt) })}</span>
                </div>
                
                <div className="flex items-center space-x-2">
-                 {/* AI Loading Indicator */}
-                 {aiState.isLoading && (
-                   <div className="flex items-center text-indigo-600 dark:text-indigo-400 text-xs font-medium mr-4 animate-pulse">
-                     <WandIcon className="w-3 h-3 mr-1" />
-                     思考中...
-                   </div>
-                 )}
-                 {aiState.error && (
-                   <div className="text-red-500 text-xs font-medium mr-4">
-                     {aiState.error}
+                 {/* AI Job Indicator */}
+                 {selectedAiJobs.length > 0 && (
+                   <div className="flex items-center text-indigo-600 dark:text-indigo-400 text-xs font-medium mr-4">
+                     <span className="flex items-center animate-pulse">
+                       <WandIcon className="w-3 h-3 mr-1" />
+                       {runningAiJob
+                         ? t('ai.generating', { label: runningAiJob.label })
+                         : t('ai.queued', { label: selectedAiJobs[0].label })}
+                     </span>
+                     {selectedAiJobs.length > 1 && (
+                       <span className="ml-1 text-gray-400">{t('ai.moreQueued', { count: selectedAiJobs.length - 1 })}</span>
+                     )}
+                     <button
+                       onClick={handleStopAi}
+                       className="ml-2 flex items-center px-2 py-0.5 rounded border border-indigo-200 dark:border-indigo-800 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 transition-colors"
+                       title={t('ai.stopGenerating')}
+                     >
+                       <StopIcon className="w-3 h-3 mr-1" />
+                       {t('common.stop')}
+                     </button>
                    </div>
                  )}
 
@@ -763,7 +1862,7 @@ export default function App() {
                      onClick={handleUndo}
                      disabled={!canUndo}
                      className={`p-2 rounded-md transition-colors ${canUndo ? 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800' : 'text-gray-300 dark:text-gray-700 cursor-not-allowed'}`}
-                     title="撤销 (Ctrl+Z)"
+                     title={t('editor.undo')}
                    >
                      <UndoIcon className="w-4 h-4" />
                    </button>
@@ -771,7 +1870,7 @@ export default function App() {
                      onClick={handleRedo}
                      disabled={!canRedo}
                      className={`p-2 rounded-md transition-colors ${canRedo ? 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800' : 'text-gray-300 dark:text-gray-700 cursor-not-allowed'}`}
-                     title="重做 (Ctrl+Y)"
+                     title={t('editor.redo')}
                    >
                      <RedoIcon className="w-4 h-4" />
                    </button>
@@ -781,17 +1880,26 @@ export default function App() {
                  <button
                    onClick={() => setIsPreviewMode(!isPreviewMode)}
                    className={`p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ${isPreviewMode ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-gray-800' : 'text-gray-500 dark:text-gray-400'}`}
-                   title={isPreviewMode ? "切换至编辑模式" : "预览 Markdown"}
+                   title={isPreviewMode ? t('editor.edit') : t('editor.preview')}
                  >
                     {isPreviewMode ? <PenIcon className="w-5 h-5" /> : <EyeIcon className="w-5 h-5" />}
                  </button>
 
+                 {/* Version History */}
+                 <button
+                   onClick={() => setIsHistoryOpen(true)}
+                   className="p-2 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                   title={t('editor.history')}
+                 >
+                   <HistoryIcon className="w-5 h-5" />
+                 </button>
+
                  {/* Export Menu */}
                  <div className="relative">
                     <button
                       onClick={() => setShowExportMenu(!showExportMenu)}
                       className={`p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ${showExportMenu ? 'bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200' : 'text-gray-500 dark:text-gray-400'}`}
-                      title="导出笔记"
+                      title={t('editor.export')}
                     >
                       <DownloadIcon className="w-5 h-5" />
                     </button>
@@ -802,13 +1910,25 @@ export default function App() {
                             onClick={handleExportSingleTxt}
                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
                           >
-                            导出为 TXT
+                            {t('editor.exportTxt')}
+                          </button>
+                          <button 
+                            onClick={handleExportSingleMarkdown}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            {t('editor.exportMarkdown')}
+                          </button>
+                          <button 
+                            onClick={handleExportSingleHtml}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                          >
+                            {t('editor.exportHtml')}
                           </button>
                           <button 
                             onClick={handleExportSinglePdf}
                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
                           >
-                            导出为 PDF
+                            {t('editor.exportPdf')}
                           </button>
                         </div>
                       </div>
@@ -818,54 +1938,71 @@ export default function App() {
                  {/* AI Menu */}
                  <div className="relative">
                     <button 
-                      onClick={() => setShowAiMenu(!showAiMenu)}
+                      onClick={handleToggleAiMenu}
                       className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 rounded-md transition-colors"
-                      disabled={aiState.isLoading}
+                      disabled={!!selectedNote.deletedAt}
                     >
                       <WandIcon className="w-3.5 h-3.5" />
-                      AI 助手
+                      {t('ai.assistant')}
                     </button>
                     
                     {showAiMenu && (
                       <div className="absolute right-0 top-full mt-2 w-56 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-100 dark:border-gray-700 z-50 overflow-hidden">
                         <div className="py-1 max-h-96 overflow-y-auto">
-                          <div className="px-4 py-1 text-xs font-semibold text-gray-400 uppercase tracking-wider">基础功能</div>
+                          {aiSelection && aiSelection.end > aiSelection.start && (
+                            <div className="px-4 py-1.5 mb-1 text-xs text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30">
+                              {t('ai.selectionHint', { count: aiSelection.end - aiSelection.start })}
+                            </div>
+                          )}
+                          <div className="px-4 py-1 text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('ai.basic')}</div>
                           <button 
                             onClick={() => handleAiAction(AIActionType.GENERATE_TITLE)}
                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-indigo-600 dark:hover:text-indigo-400"
                           >
-                            生成标题
+                            {t('ai.actionTitle')}
                           </button>
                           <button 
                             onClick={() => handleAiAction(AIActionType.FIX_GRAMMAR)}
                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-indigo-600 dark:hover:text-indigo-400"
                           >
-                            修正语法
+                            {t('ai.actionFixGrammar')}
+                          </button>
+                          <button 
+                            onClick={() => handleAiAction(AIActionType.REWRITE)}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-indigo-600 dark:hover:text-indigo-400"
+                          >
+                            {t('ai.actionRewrite')}
+                          </button>
+                          <button 
+                            onClick={() => handleAiAction(AIActionType.TRANSLATE)}
+                            className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-indigo-600 dark:hover:text-indigo-400"
+                          >
+                            {t('ai.actionTranslate')}
                           </button>
                           <button 
                             onClick={() => handleAiAction(AIActionType.SUMMARIZE)}
                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-indigo-600 dark:hover:text-indigo-400"
                           >
-                            生成摘要
+                            {t('ai.menuSummarize')}
                           </button>
                           <button 
                             onClick={() => handleAiAction(AIActionType.CONTINUE_WRITING)}
                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-indigo-600 dark:hover:text-indigo-400"
                           >
-                            智能续写
+                            {t('ai.menuContinue')}
                           </button>
 
                           <div className="border-t border-gray-100 dark:border-gray-700 my-1"></div>
                           
                           <div className="px-4 py-1 text-xs font-semibold text-gray-400 uppercase flex justify-between items-center">
-                            <span>自定义指令</span>
+                            <span>{t('ai.customPrompts')}</span>
                             <button 
                                 onClick={() => {
                                     setShowAiMenu(false);
                                     setIsSettingsOpen(true);
                                 }}
                                 className="text-indigo-500 hover:text-indigo-600 p-1 rounded hover:bg-indigo-50 dark:hover:bg-indigo-900/50"
-                                title="管理指令"
+                                title={t('ai.managePrompts')}
                             >
                                 <SettingsIcon className="w-3.5 h-3.5" />
                             </button>
@@ -882,7 +2019,7 @@ export default function App() {
                                 </button>
                             ))
                           ) : (
-                            <div className="px-4 py-2 text-xs text-gray-500 italic">暂无自定义指令</div>
+                            <div className="px-4 py-2 text-xs text-gray-500 italic">{t('ai.noCustomPrompts')}</div>
                           )}
                         </div>
                       </div>
@@ -893,54 +2030,107 @@ export default function App() {
                  <button
                    onClick={(e) => handleToggleFavorite(selectedNote.id, e)}
                    className={`p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ${selectedNote.isFavorite ? 'text-yellow-400' : 'text-gray-400 dark:text-gray-500'}`}
-                   title={selectedNote.isFavorite ? "取消收藏" : "收藏笔记"}
+                   title={selectedNote.isFavorite ? t('editor.unfavorite') : t('editor.favorite')}
                  >
                    <StarIcon className="w-5 h-5" fill={selectedNote.isFavorite} />
                  </button>
 
                  {/* Delete Button */}
                  <button 
-                   onClick={() => handleDeleteNote(selectedNote.id)}
+                   onClick={() => selectedNote.deletedAt ? handlePurgeNote(selectedNote.id) : handleDeleteNote(selectedNote.id)}
                    className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
-                   title="删除笔记"
+                   title={selectedNote.deletedAt ? t('editor.deleteForever') : t('editor.moveToTrash')}
                  >
                    <TrashIcon className="w-5 h-5" />
                  </button>
                </div>
             </div>
 
+            {/* Trash Banner */}
+            {selectedNote.deletedAt && (
+              <div className="flex items-center justify-between px-4 md:px-8 py-2 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300 shrink-0">
+                <span>{t('editor.trashNotice')}</span>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleRestoreNote(selectedNote.id)}
+                    className="px-3 py-1 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    {t('common.restore')}
+                  </button>
+                  <button
+                    onClick={() => handlePurgeNote(selectedNote.id)}
+                    className="px-3 py-1 rounded-md bg-red-600 hover:bg-red-700 text-white transition-colors"
+                  >
+                    {t('editor.deleteForever')}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Background Suggestions */}
+            {selectedSuggestion && !selectedNote.deletedAt && !isNoteLocked && (
+              <NoteSuggestionBar
+                suggestion={selectedSuggestion}
+                folderName={selectedSuggestion.folderId && !selectedNote.folderId
+                  ? folderLabel(selectedSuggestion.folderId) || null
+                  : null}
+                onUseTitle={handleUseSuggestedTitle}
+                onAddTags={handleAddSuggestedTags}
+                onMove={handleMoveToSuggestedFolder}
+                onDismiss={handleDismissSuggestion}
+              />
+            )}
+
             {/* Editor / Preview Area */}
             <div className="flex-1 overflow-y-auto px-4 md:px-12 py-8">
               <input
                 type="text"
                 value={selectedNote.title}
+                readOnly={!!selectedNote.deletedAt}
                 onChange={(e) => handleTextChange('title', e.target.value)}
-                placeholder="笔记标题"
+                onFocus={() => { titleAtFocusRef.current = selectedNote.title; }}
+                onBlur={handleTitleBlur}
+                placeholder={t('editor.titlePlaceholder')}
                 className="w-full text-3xl font-bold text-gray-900 dark:text-gray-100 placeholder-gray-300 dark:placeholder-gray-600 border-none outline-none bg-transparent mb-6"
               />
               
               {isPreviewMode ? (
                 <div 
                   className="w-full prose prose-slate dark:prose-invert prose-lg max-w-none text-gray-700 dark:text-gray-300 pb-20"
-                  dangerouslySetInnerHTML={{ __html: marked.parse(selectedNote.content) as string }}
+                  onClick={handlePreviewClick}
+                  dangerouslySetInnerHTML={{ __html: previewHtml }}
                 />
               ) : (
                 <textarea
+                  ref={editorRef}
                   value={selectedNote.content}
                   onChange={(e) => handleTextChange('content', e.target.value)}
-                  placeholder="开始输入..."
+                  readOnly={!!selectedNote.deletedAt || isNoteLocked}
+                  placeholder={t('editor.contentPlaceholder')}
                   className="w-full h-[calc(100%-80px)] resize-none text-lg leading-relaxed text-gray-700 dark:text-gray-300 placeholder-gray-300 dark:placeholder-gray-600 border-none outline-none bg-transparent"
                   spellCheck={false}
                 />
               )}
             </div>
+
+            {/* Backlinks */}
+            <BacklinksPanel
+              backlinks={backlinks}
+              onSelect={(id) => setSelectedNoteId(id)}
+            />
+
+            {/* Related Notes */}
+            <RelatedNotesPanel
+              related={relatedNotes}
+              onSelect={(id) => setSelectedNoteId(id)}
+            />
           </>
         ) : (
           <div className="flex-1 flex flex-col items-center justify-center text-gray-300 dark:text-gray-600">
              <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-full mb-4">
                <PlusIcon className="w-12 h-12 text-gray-200 dark:text-gray-700" />
              </div>
-             <p className="text-lg font-medium text-gray-400 dark:text-gray-500">选择一个笔记或创建一个新笔记</p>
+             <p className="text-lg font-medium text-gray-400 dark:text-gray-500">{t('app.emptyState')}</p>
           </div>
         )}
 
@@ -953,12 +2143,22 @@ export default function App() {
         </button>
       </div>
 
+      {/* Chat with Notes */}
+      {isChatOpen && (
+        <ChatPanel
+          notes={activeNotes}
+          settings={aiSettings}
+          onOpenNote={(id) => setSelectedNoteId(id)}
+          onClose={() => setIsChatOpen(false)}
+        />
+      )}
+
       {/* Settings Modal */}
       {isSettingsOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
             <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-200 dark:border-gray-800 flex flex-col max-h-[90vh]">
                 <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex justify-between items-center">
-                    <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">自定义 AI 指令</h2>
+                    <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">{t('settings.title')}</h2>
                     <button 
                         onClick={() => setIsSettingsOpen(false)}
                         className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
@@ -968,74 +2168,172 @@ export default function App() {
                 </div>
                 
                 <div className="p-4 overflow-y-auto flex-1">
+                    {/* Language */}
+                    <div className="mb-6">
+                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">{t('settings.language')}</h3>
+                        <select
+                            value={locale}
+                            onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+                            className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                            {LOCALES.map(option => (
+                                <option key={option} value={option}>{LOCALE_LABELS[option]}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Trash Retention */}
+                    <div className="mb-6">
+                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">{t('settings.trash')}</h3>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('settings.trashRetention')}</label>
+                        <select
+                            value={trashRetentionDays}
+                            onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+                            className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                            {TRASH_RETENTION_OPTIONS.map(days => (
+                                <option key={days} value={days}>{days > 0 ? t('settings.days', { days }) : t('settings.never')}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* PDF Export */}
+                    <div className="mb-6">
+                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">{t('settings.pdf')}</h3>
+                        <div className="flex space-x-3">
+                            <div className="flex-1">
+                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('settings.paperSize')}</label>
+                                <select
+                                    value={pdfSettings.paperSize}
+                                    onChange={(e) => setPdfSettings(prev => ({ ...prev, paperSize: e.target.value as PaperSize }))}
+                                    className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {(Object.keys(PAPER_SIZE_LABELS) as PaperSize[]).map(size => (
+                                        <option key={size} value={size}>{PAPER_SIZE_LABELS[size]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="flex-1">
+                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('settings.margin')}</label>
+                                <select
+                                    value={pdfSettings.margin}
+                                    onChange={(e) => setPdfSettings(prev => ({ ...prev, margin: Number(e.target.value) }))}
+                                    className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {PDF_MARGIN_OPTIONS.map(margin => (
+                                        <option key={margin} value={margin}>{margin} mm</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* AI Provider */}
+                    <div className="mb-6">
+                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">{t('settings.ai')}</h3>
+                        <AIProviderSettings
+                          settings={aiSettings}
+                          onChange={setAiSettings}
+                          credentials={credentials}
+                          onUnlock={handleUnlockCredentials}
+                          onSetPassphrase={handleSetCredentialPassphrase}
+                          onForgetKeys={handleForgetCredentials}
+                        />
+                    </div>
+
+                    <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">{t('settings.customPrompts')}</h3>
+
                     {/* Add New Form */}
                     <div className="bg-gray-50 dark:bg-gray-800/50 p-4 rounded-lg mb-6 border border-gray-100 dark:border-gray-800">
-                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">添加新指令</h3>
+                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">{t('settings.addPrompt')}</h3>
                         <div className="space-y-3">
                             <div>
-                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">指令名称</label>
+                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('settings.promptName')}</label>
                                 <input 
                                     type="text" 
                                     value={newPromptName}
                                     onChange={(e) => setNewPromptName(e.target.value)}
-                                    placeholder="例如：翻译成日文"
+                                    placeholder={t('settings.promptNamePlaceholder')}
                                     className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                                 />
                             </div>
                             <div>
                                 <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                                    指令模板 <span className="text-indigo-500">(使用 {"{{text}}"} 代表选中内容)</span>
+                                    {t('settings.promptTemplate')} <span className="text-indigo-500">{t('settings.promptTemplateNote')}</span>
                                 </label>
                                 <textarea 
                                     value={newPromptTemplate}
                                     onChange={(e) => setNewPromptTemplate(e.target.value)}
-                                    placeholder="例如：请将以下内容翻译成日文：\n\n{{text}}"
+                                    placeholder={t('settings.promptTemplatePlaceholder')}
                                     rows={3}
                                     className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
                                 />
+                                <p className="text-xs text-gray-400 mt-1 leading-relaxed">
+                                    {t('settings.promptVariables')}
+                                </p>
                             </div>
                             <div>
-                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">执行方式</label>
-                                <div className="flex space-x-4">
-                                    <label className="flex items-center space-x-2 cursor-pointer">
-                                        <input 
-                                            type="radio" 
-                                            name="actionType" 
-                                            value="append" 
-                                            checked={newPromptAction === 'append'}
-                                            onChange={() => setNewPromptAction('append')}
-                                            className="text-indigo-600 focus:ring-indigo-500" 
-                                        />
-                                        <span className="text-sm text-gray-700 dark:text-gray-300">追加到末尾</span>
-                                    </label>
-                                    <label className="flex items-center space-x-2 cursor-pointer">
-                                        <input 
-                                            type="radio" 
-                                            name="actionType" 
-                                            value="replace" 
-                                            checked={newPromptAction === 'replace'}
-                                            onChange={() => setNewPromptAction('replace')}
-                                            className="text-indigo-600 focus:ring-indigo-500" 
-                                        />
-                                        <span className="text-sm text-gray-700 dark:text-gray-300">替换原文</span>
-                                    </label>
+                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('settings.promptSystem')}</label>
+                                <textarea 
+                                    value={newPromptSystem}
+                                    onChange={(e) => setNewPromptSystem(e.target.value)}
+                                    placeholder={t('settings.promptSystemPlaceholder')}
+                                    rows={2}
+                                    className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('settings.promptModel')}</label>
+                                    <input 
+                                        type="text" 
+                                        value={newPromptModel}
+                                        onChange={(e) => setNewPromptModel(e.target.value)}
+                                        placeholder={t('settings.promptModelPlaceholder')}
+                                        className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('settings.promptTemperature')}</label>
+                                    <input 
+                                        type="number" 
+                                        min={0}
+                                        max={2}
+                                        step={0.1}
+                                        value={newPromptTemperature}
+                                        onChange={(e) => setNewPromptTemperature(e.target.value)}
+                                        placeholder={t('settings.promptTemperaturePlaceholder')}
+                                        className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                    />
                                 </div>
                             </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('settings.promptTarget')}</label>
+                                <select
+                                    value={newPromptAction}
+                                    onChange={(e) => setNewPromptAction(e.target.value as PromptOutputTarget)}
+                                    className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {(Object.keys(PROMPT_TARGET_LABELS) as PromptOutputTarget[]).map(target => (
+                                        <option key={target} value={target}>{t(PROMPT_TARGET_LABELS[target])}</option>
+                                    ))}
+                                </select>
+                            </div>
                             <button 
                                 onClick={handleAddCustomPrompt}
                                 disabled={!newPromptName.trim() || !newPromptTemplate.trim()}
                                 className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-md text-sm font-medium transition-colors"
                             >
-                                添加指令
+                                {t('settings.promptAdd')}
                             </button>
                         </div>
                     </div>
 
                     {/* List */}
                     <div>
-                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">已保存指令</h3>
+                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">{t('settings.savedPrompts')}</h3>
                         {customPrompts.length === 0 ? (
-                            <p className="text-sm text-gray-400 text-center py-4">暂无自定义指令</p>
+                            <p className="text-sm text-gray-400 text-center py-4">{t('ai.noCustomPrompts')}</p>
                         ) : (
                             <ul className="space-y-2">
                                 {customPrompts.map(prompt => (
@@ -1043,13 +2341,18 @@ export default function App() {
                                         <div>
                                             <div className="font-medium text-sm text-gray-900 dark:text-gray-100">{prompt.name}</div>
                                             <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
-                                                {prompt.actionType === 'replace' ? '替换原文' : '追加内容'}
+                                                {[
+                                                    t(PROMPT_TARGET_LABELS[prompt.actionType] || PROMPT_TARGET_LABELS.append),
+                                                    prompt.model,
+                                                    prompt.temperature !== undefined ? t('settings.promptTemperatureInfo', { value: prompt.temperature }) : '',
+                                                    prompt.systemPrompt ? t('settings.promptHasSystem') : ''
+                                                ].filter(Boolean).join(' · ')}
                                             </div>
                                         </div>
                                         <button 
                                             onClick={() => handleDeleteCustomPrompt(prompt.id)}
                                             className="text-gray-400 hover:text-red-500 p-1.5 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
-                                            title="删除"
+                                            title={t('common.delete')}
                                         >
                                             <TrashIcon className="w-4 h-4" />
                                         </button>
@@ -1063,6 +2366,89 @@ export default function App() {
         </div>
       )}
       
+      {/* Version History Modal */}
+      {isHistoryOpen && selectedNote && (
+        <HistoryModal
+          note={selectedNote}
+          formatDate={formatDate}
+          onRestore={handleRestoreRevision}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+      
+      {/* Import Modal */}
+      {isImportOpen && (
+        <ImportModal
+          existingNotes={activeNotes}
+          onImport={handleImportNotes}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {/* Duplicates Modal */}
+      {isDuplicatesOpen && (
+        <DuplicatesModal
+          notes={activeNotes}
+          formatDate={formatDate}
+          onMerge={handleMergeNotes}
+          onOpenNote={(id) => {
+            setSelectedNoteId(id);
+            setIsDuplicatesOpen(false);
+          }}
+          onClose={() => setIsDuplicatesOpen(false)}
+        />
+      )}
+
+      {/* AI Error Toast */}
+      <AIErrorToast
+        key={aiState.error ?? ''}
+        state={aiState}
+        onClose={() => setAiState({ error: null })}
+      />
+
+      {/* AI Review Modal */}
+      {aiReviews.length > 0 && (
+        <AIReviewModal
+          key={aiReviews[0].id}
+          title={aiReviews[0].title}
+          original={aiReviews[0].original}
+          suggestion={aiReviews[0].suggestion}
+          onApply={handleApplyAiReview}
+          onClose={() => setAiReviews(prev => prev.slice(1))}
+        />
+      )}
+
+      {/* Restore Modal */}
+      {isRestoreOpen && (
+        <RestoreModal
+          current={workspace}
+          formatDate={formatDate}
+          generateId={generateId}
+          onApply={handleApplyRestore}
+          onClose={() => setIsRestoreOpen(false)}
+        />
+      )}
+
+      {/* Storage Load Failure */}
+      {loadFailed && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 max-w-lg px-4 py-2 rounded-lg shadow-lg bg-red-600 text-white text-sm">
+          <span>{t('app.loadFailed')}</span>
+          <button
+            onClick={() => window.location.reload()}
+            className="shrink-0 px-2 py-0.5 rounded border border-white/60 hover:bg-white/20 transition-colors"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {/* PDF Export Progress */}
+      {isExportingPdf && (
+        <div className="fixed bottom-4 right-4 z-50 px-4 py-2 rounded-lg shadow-lg bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900 text-sm animate-pulse">
+          {t('app.generatingPdf')}
+        </div>
+      )}
+
       {/* Click outside listeners */}
       {(showAiMenu || showExportMenu || showGlobalMenu || showSortMenu) && (
         <div 
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { AIState } from '../types';
+import { AlertIcon, RetryIcon, XIcon } from './Icons';
+import { t } from '../services/i18n';
+
+interface AIErrorToastProps {
+  state: AIState;
+  onClose: () => void;
+}
+
+// Stays until dismissed or retried, so the cause can actually be read
+export const AIErrorToast: React.FC<AIErrorToastProps> = ({ state, onClose }) => {
+  const [showDetail, setShowDetail] = useState(false);
+  const { error, hint, detail, retry } = state;
+  if (!error) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-[calc(100%-2rem)] max-w-sm bg-white dark:bg-gray-900 border border-red-200 dark:border-red-900 rounded-lg shadow-xl p-4">
+      <div className="flex items-start">
+        <AlertIcon className="w-5 h-5 text-red-500 shrink-0 mr-3 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-semibold text-gray-800 dark:text-gray-100">{error}</div>
+          {hint && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{hint}</p>}
+          {detail && (
+            showDetail ? (
+              <pre className="mt-2 max-h-32 overflow-auto text-[11px] text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 rounded p-2 whitespace-pre-wrap break-words">
+                {detail}
+              </pre>
+            ) : (
+              <button onClick={() => setShowDetail(true)} className="mt-1 text-xs text-blue-500 hover:text-blue-600">
+                {t('error.details')}
+              </button>
+            )
+          )}
+          {retry && (
+            <button
+              onClick={() => {
+                onClose();
+                retry();
+              }}
+              className="mt-3 flex items-center px-3 py-1 rounded-md text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+            >
+              <RetryIcon className="w-3 h-3 mr-1" />
+              {t('common.retry')}
+            </button>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="ml-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          title={t('common.close')}
+        >
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AIProviderConfig, AIProviderId, AISettings, PromptLanguage, RetrievalMode } from '../types';
+import { AI_PROVIDERS, AIProviderField } from '../services/aiProviders';
+import { testConnection } from '../services/aiService';
+import { describeAIError } from '../services/aiErrors';
+import { AUTO_SUGGEST_LIMITS } from '../services/autoSuggest';
+import { t, MessageKey } from '../services/i18n';
+
+const PROVIDER_LABELS: Record<AIProviderId, MessageKey> = {
+  gemini: 'provider.gemini',
+  openai: 'provider.openai',
+  mock: 'provider.mock'
+};
+
+const FIELD_LABELS: Record<AIProviderField, MessageKey> = {
+  model: 'provider.model',
+  baseUrl: 'provider.baseUrl',
+  apiKey: 'provider.apiKey',
+  embeddingModel: 'provider.embeddingModel'
+};
+
+// Fields without a placeholder show the provider's default value
+const FIELD_PLACEHOLDERS: Partial<Record<AIProviderId, Partial<Record<AIProviderField, MessageKey>>>> = {
+  gemini: { baseUrl: 'provider.geminiBaseUrl', apiKey: 'provider.geminiApiKey' },
+  openai: { apiKey: 'provider.openaiApiKey' }
+};
+
+const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const buttonClassName = 'shrink-0 px-3 py-2 rounded-md text-xs border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export interface CredentialState {
+  encrypted: boolean; // keys are stored encrypted with a passphrase
+  locked: boolean; // encrypted and not yet unlocked this session
+}
+
+type TestResult =
+  | { status: 'testing' }
+  | { status: 'ok'; models: string[] }
+  | { status: 'error'; message: string };
+
+interface AIProviderSettingsProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+  credentials: CredentialState;
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onSetPassphrase: (passphrase: string | null) => void;
+  onForgetKeys: () => void;
+}
+
+export const AIProviderSettings: React.FC<AIProviderSettingsProps> = ({
+  settings,
+  onChange,
+  credentials,
+  onUnlock,
+  onSetPassphrase,
+  onForgetKeys
+}) => {
+  const provider = AI_PROVIDERS[settings.providerId];
+  const config = settings.providers[settings.providerId];
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  // Models listed by the last successful test, offered as suggestions per provider
+  const [models, setModels] = useState<Partial<Record<AIProviderId, string[]>>>({});
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockFailed, setUnlockFailed] = useState(false);
+  const testAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => testAbortRef.current?.abort(), []);
+
+  // A result only describes the configuration it was run with
+  const resetTest = () => {
+    testAbortRef.current?.abort();
+    setTestResult(null);
+  };
+
+  const updateConfig = (patch: Partial<AIProviderConfig>) => {
+    resetTest();
+    onChange({
+      ...settings,
+      providers: { ...settings.providers, [settings.providerId]: { ...config, ...patch } }
+    });
+  };
+
+  const handleTest = async () => {
+    resetTest();
+    const controller = new AbortController();
+    testAbortRef.current = controller;
+    const providerId = settings.providerId;
+    setTestResult({ status: 'testing' });
+    try {
+      const listed = await testConnection(settings, controller.signal);
+      setModels(prev => ({ ...prev, [providerId]: listed }));
+      setTestResult({ status: 'ok', models: listed });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const { title, hint } = describeAIError(error);
+      setTestResult({ status: 'error', message: t('error.summary', { title, hint }) });
+    }
+  };
+
+  const handleUnlock = async () => {
+    const unlocked = await onUnlock(passphrase);
+    setUnlockFailed(!unlocked);
+    if (unlocked) setPassphrase('');
+  };
+
+  const handleSetPassphrase = () => {
+    if (!passphrase) return;
+    onSetPassphrase(passphrase);
+    setPassphrase('');
+  };
+
+  const modelOptions = models[settings.providerId] || [];
+  const placeholderFor = (field: AIProviderField) => {
+    const key = FIELD_PLACEHOLDERS[settings.providerId]?.[field];
+    return key ? t(key) : provider.defaults[field];
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('provider.service')}</label>
+        <select
+          value={settings.providerId}
+          onChange={(e) => {
+            resetTest();
+            onChange({ ...settings, providerId: e.target.value as AIProviderId });
+          }}
+          className={inputClassName}
+        >
+          {(Object.keys(AI_PROVIDERS) as AIProviderId[]).map(id => (
+            <option key={id} value={id}>{t(PROVIDER_LABELS[id])}</option>
+          ))}
+        </select>
+      </div>
+      {provider.fields.map(field => (
+        <div key={field}>
+          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t(FIELD_LABELS[field])}</label>
+          <div className="flex space-x-2">
+            <input
+              type={field === 'apiKey' ? 'password' : 'text'}
+              value={config[field]}
+              onChange={(e) => updateConfig({ [field]: e.target.value })}
+              placeholder={field === 'apiKey' && credentials.locked
+                ? t('provider.keyLocked')
+                : placeholderFor(field)}
+              disabled={field === 'apiKey' && credentials.locked}
+              list={field === 'model' && modelOptions.length > 0 ? `ai-models-${settings.providerId}` : undefined}
+              autoComplete="off"
+              className={`${inputClassName} disabled:opacity-60`}
+            />
+            {field === 'apiKey' && config.apiKey && (
+              <button onClick={() => updateConfig({ apiKey: '' })} className={buttonClassName}>
+                {t('common.clear')}
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+      {modelOptions.length > 0 && (
+        <datalist id={`ai-models-${settings.providerId}`}>
+          {modelOptions.map(model => <option key={model} value={model} />)}
+        </datalist>
+      )}
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleTest}
+          disabled={testResult?.status === 'testing' || credentials.locked}
+          className={buttonClassName}
+        >
+          {testResult?.status === 'testing' ? t('provider.testing') : t('provider.test')}
+        </button>
+        {testResult?.status === 'ok' && (
+          <span className="text-xs text-green-600 dark:text-green-400">
+            {testResult.models.length > 0
+              ? t('provider.testModels', { count: testResult.models.length })
+              : t('provider.testOk')}
+          </span>
+        )}
+        {testResult?.status === 'error' && (
+          <span className="text-xs text-red-600 dark:text-red-400">{testResult.message}</span>
+        )}
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('provider.retrieval')}</label>
+        <select
+          value={provider.embed ? settings.retrieval : 'local'}
+          onChange={(e) => onChange({ ...settings, retrieval: e.target.value as RetrievalMode })}
+          disabled={!provider.embed}
+          className={inputClassName}
+        >
+          <option value="local">{t('provider.retrievalLocal')}</option>
+          <option value="provider">{t('provider.retrievalProvider')}</option>
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('provider.promptLanguage')}</label>
+        <select
+          value={settings.promptLanguage}
+          onChange={(e) => onChange({ ...settings, promptLanguage: e.target.value as PromptLanguage })}
+          className={inputClassName}
+        >
+          <option value="ui">{t('provider.promptLanguageUi')}</option>
+          <option value="note">{t('provider.promptLanguageNote')}</option>
+        </select>
+      </div>
+      <div>
+        <label className="flex items-start space-x-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.autoSuggest}
+            onChange={(e) => onChange({ ...settings, autoSuggest: e.target.checked })}
+            className="mt-0.5 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+          />
+          <span>{t('provider.autoSuggest')}</span>
+        </label>
+        <p className="text-xs text-gray-400 mt-1 ml-6">
+          {t('provider.autoSuggestHint', { count: AUTO_SUGGEST_LIMITS.maxPerHour })}
+        </p>
+      </div>
+
+      {/* Key storage */}
+      <div className="pt-3 border-t border-gray-100 dark:border-gray-800">
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+          {credentials.locked
+            ? t('provider.keysLocked')
+            : credentials.encrypted
+              ? t('provider.keysEncrypted')
+              : t('provider.keysPlain')}
+        </label>
+        {credentials.encrypted && !credentials.locked ? (
+          <button onClick={() => onSetPassphrase(null)} className={buttonClassName}>
+            {t('provider.removePassphrase')}
+          </button>
+        ) : (
+          <div className="flex space-x-2">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => {
+                setPassphrase(e.target.value);
+                setUnlockFailed(false);
+              }}
+              onKeyDown={(e) => {
+                if (e.key !== 'Enter') return;
+                if (credentials.locked) handleUnlock();
+                else handleSetPassphrase();
+              }}
+              placeholder={credentials.locked ? t('provider.passphrase') : t('provider.newPassphrase')}
+              autoComplete={credentials.locked ? 'current-password' : 'new-password'}
+              className={inputClassName}
+            />
+            <button
+              onClick={credentials.locked ? handleUnlock : handleSetPassphrase}
+              disabled={!passphrase}
+              className={buttonClassName}
+            >
+              {credentials.locked ? t('provider.unlock') : t('provider.encrypt')}
+            </button>
+          </div>
+        )}
+        {unlockFailed && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{t('provider.wrongPassphrase')}</p>}
+        {credentials.locked && (
+          <button
+            onClick={() => {
+              if (window.confirm(t('provider.confirmForget'))) onForgetKeys();
+            }}
+            className="mt-1 text-xs text-blue-500 hover:text-blue-600"
+          >
+            {t('provider.forgotPassphrase')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import { diffWords, groupHunks, applyHunks } from '../services/diff';
+import { XIcon } from './Icons';
+import { t } from '../services/i18n';
+
+interface AIReviewModalProps {
+  title: string;
+  original: string;
+  suggestion: string;
+  onApply: (text: string) => void;
+  onClose: () => void;
+}
+
+export const AIReviewModal: React.FC<AIReviewModalProps> = ({ title, original, suggestion, onApply, onClose }) => {
+  const segments = useMemo(() => groupHunks(diffWords(original, suggestion)), [original, suggestion]);
+  const hunkIds = useMemo(
+    () => segments.flatMap(segment => (segment.type === 'change' ? [segment.id] : [])),
+    [segments]
+  );
+  // Every change starts accepted; clicking a hunk toggles it
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(hunkIds));
+
+  const toggle = (id: number) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden border border-gray-200 dark:border-gray-800 flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">{t('review.title', { title })}</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+              {t('review.summary', { count: hunkIds.length, accepted: accepted.size })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {hunkIds.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">{t('review.noChanges')}</p>
+          ) : (
+            <div className="whitespace-pre-wrap break-words text-sm leading-relaxed text-gray-700 dark:text-gray-300">
+              {segments.map((segment, i) =>
+                segment.type === 'equal' ? (
+                  <span key={i}>{segment.value}</span>
+                ) : (
+                  <span
+                    key={i}
+                    onClick={() => toggle(segment.id)}
+                    title={accepted.has(segment.id) ? t('review.accepted') : t('review.rejected')}
+                    className={`cursor-pointer rounded-sm ring-1 ${
+                      accepted.has(segment.id) ? 'ring-green-300 dark:ring-green-700' : 'ring-gray-200 dark:ring-gray-700 opacity-60'
+                    }`}
+                  >
+                    {segment.removed && (
+                      <del className={`bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 ${accepted.has(segment.id) ? '' : 'no-underline'}`}>
+                        {segment.removed}
+                      </del>
+                    )}
+                    {segment.added && (
+                      <ins className={`bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300 no-underline ${accepted.has(segment.id) ? '' : 'line-through'}`}>
+                        {segment.added}
+                      </ins>
+                    )}
+                  </span>
+                )
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 dark:border-gray-800 flex justify-between items-center">
+          <div className="space-x-3 text-sm">
+            <button onClick={() => setAccepted(new Set(hunkIds))} className="text-blue-500 hover:text-blue-600">{t('review.acceptAll')}</button>
+            <button onClick={() => setAccepted(new Set())} className="text-blue-500 hover:text-blue-600">{t('review.rejectAll')}</button>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-md text-sm border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              {t('review.discard')}
+            </button>
+            <button
+              onClick={() => onApply(applyHunks(segments, accepted))}
+              disabled={accepted.size === 0}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-md text-sm font-medium transition-colors"
+            >
+              {t('review.apply', { count: accepted.size })}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
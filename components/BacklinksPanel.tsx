@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { Note } from '../types';
+import { ChevronRightIcon, ChevronDownIcon, LinkIcon } from './Icons';
+import { t } from '../services/i18n';
+
+interface BacklinksPanelProps {
+  backlinks: Note[];
+  onSelect: (noteId: string) => void;
+}
+
+export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ backlinks, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(true);
+
+  return (
+    <div className="shrink-0 border-t border-gray-100 dark:border-gray-800 px-4 md:px-12 py-2 bg-white dark:bg-gray-950">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center text-xs font-semibold text-gray-400 uppercase tracking-wider hover:text-gray-600 dark:hover:text-gray-300"
+      >
+        {isOpen ? <ChevronDownIcon className="w-3 h-3 mr-1" /> : <ChevronRightIcon className="w-3 h-3 mr-1" />}
+        <LinkIcon className="w-3 h-3 mr-1" />
+        {t('editor.backlinks', { count: backlinks.length })}
+      </button>
+      {isOpen && (
+        backlinks.length === 0 ? (
+          <p className="text-xs text-gray-400 mt-1 mb-1">{t('editor.noBacklinks')}</p>
+        ) : (
+          <ul className="mt-1 max-h-32 overflow-y-auto">
+            {backlinks.map(note => (
+              <li key={note.id}>
+                <button
+                  onClick={() => onSelect(note.id)}
+                  className="block w-full text-left py-1 text-sm text-blue-600 dark:text-blue-400 hover:underline truncate"
+                >
+                  {note.title || t('common.untitledNote')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AISettings, Note } from '../types';
+import { ChatSource, ChatTurn, answerFromNotes, createEmbedder } from '../services/aiService';
+import { describeAIError } from '../services/aiErrors';
+import { IndexProgress, noteEmbeddingIndex } from '../services/noteEmbeddings';
+import { MessageIcon, SendIcon, StopIcon, XIcon } from './Icons';
+import { t } from '../services/i18n';
+
+// Notes are re-indexed once editing pauses for this long
+const SYNC_DELAY_MS = 1500;
+const MAX_SOURCES = 6;
+
+interface ChatMessage {
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: ChatSource[];
+  error?: boolean;
+}
+
+interface ChatPanelProps {
+  notes: Note[];
+  settings: AISettings;
+  onOpenNote: (noteId: string) => void;
+  onClose: () => void;
+}
+
+// Splits an answer into text and [n] citation markers
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+const renderAnswer = (content: string, sources: ChatSource[], onOpenNote: (noteId: string) => void) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    const source = sources[Number(match[1]) - 1];
+    if (!source) continue;
+    parts.push(content.slice(cursor, match.index));
+    parts.push(
+      <button
+        key={match.index}
+        onClick={() => onOpenNote(source.noteId)}
+        title={source.title || t('common.untitledNote')}
+        className="mx-0.5 px-1 rounded text-xs font-medium text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 hover:underline align-super"
+      >
+        {match[1]}
+      </button>
+    );
+    cursor = match.index! + match[0].length;
+  }
+  parts.push(content.slice(cursor));
+  return parts;
+};
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ notes, settings, onOpenNote, onClose }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [progress, setProgress] = useState<IndexProgress | null>(null);
+  const [indexError, setIndexError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const nextIdRef = useRef(0);
+  const listEndRef = useRef<HTMLDivElement>(null);
+
+  const embedder = useMemo(() => createEmbedder(settings), [settings]);
+
+  // Keep the index in step with the notes; only new or edited notes are embedded
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      noteEmbeddingIndex
+        .sync(notes, embedder, {
+          signal: controller.signal,
+          onProgress: p => setProgress(p.done < p.total ? p : null)
+        })
+        .then(() => setIndexError(null))
+        .catch(error => {
+          if (controller.signal.aborted) return;
+          const { title, hint } = describeAIError(error);
+          setIndexError(t('chat.indexFailed', { title, hint }));
+        })
+        .finally(() => setProgress(null));
+    }, SYNC_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [notes, embedder]);
+
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  // Stop a pending answer when the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const appendMessage = (message: Omit<ChatMessage, 'id'>) => {
+    const id = nextIdRef.current++;
+    setMessages(prev => [...prev, { ...message, id }]);
+    return id;
+  };
+
+  const updateMessage = (id: number, patch: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+  };
+
+  const handleAsk = async () => {
+    const question = input.trim();
+    if (!question || isAnswering) return;
+
+    const history: ChatTurn[] = messages.filter(m => !m.error).map(({ role, content }) => ({ role, content }));
+    appendMessage({ role: 'user', content: question });
+    setInput('');
+    setIsAnswering(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let answerId: number | null = null;
+    try {
+      // Pick up edits made since the last background sync
+      await noteEmbeddingIndex.sync(notes, embedder, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      const [queryVector] = await embedder.embed([question], controller.signal);
+      const notesById = new Map<string, Note>(notes.map(n => [n.id, n]));
+      const sources: ChatSource[] = noteEmbeddingIndex
+        .search(queryVector || [], embedder.signature, MAX_SOURCES)
+        .filter(passage => notesById.has(passage.noteId))
+        .map(passage => ({ noteId: passage.noteId, title: notesById.get(passage.noteId)!.title, text: passage.text }));
+
+      if (sources.length === 0) {
+        appendMessage({ role: 'assistant', content: t('chat.noSources') });
+        return;
+      }
+
+      const id = appendMessage({ role: 'assistant', content: '', sources });
+      answerId = id;
+      const answer = await answerFromNotes(question, sources, history, settings, {
+        signal: controller.signal,
+        onText: text => updateMessage(id, { content: text })
+      });
+      updateMessage(id, { content: answer || t('chat.emptyAnswer') });
+    } catch (error) {
+      // A stopped answer keeps whatever had streamed in
+      if (controller.signal.aborted) {
+        const stoppedId = answerId;
+        setMessages(prev => prev.map(m => (m.id === stoppedId && !m.content ? { ...m, content: t('chat.stopped') } : m)));
+        return;
+      }
+      const { title, hint } = describeAIError(error);
+      const content = t('error.summary', { title, hint });
+      if (answerId !== null) updateMessage(answerId, { content, error: true });
+      else appendMessage({ role: 'assistant', content, error: true });
+    } finally {
+      abortRef.current = null;
+      setIsAnswering(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleAsk();
+    }
+  };
+
+  return (
+    <div className="absolute md:relative right-0 z-30 w-full md:w-96 h-full flex flex-col bg-gray-50 dark:bg-gray-900 border-l border-gray-200 dark:border-gray-800 shadow-xl md:shadow-none">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-800 flex justify-between items-center">
+        <div>
+          <h2 className="text-base font-bold text-gray-800 dark:text-gray-100 flex items-center">
+            <MessageIcon className="w-4 h-4 mr-2" />
+            {t('chat.title')}
+          </h2>
+          <p className="text-xs text-gray-400 mt-0.5">
+            {progress
+              ? t('chat.indexing', { done: progress.done, total: progress.total })
+              : t('chat.basedOn', { count: notes.length })}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {messages.length > 0 && !isAnswering && (
+            <button onClick={() => setMessages([])} className="text-xs text-blue-500 hover:text-blue-600">
+              {t('chat.newChat')}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {indexError && (
+        <div className="px-4 py-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">{indexError}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {messages.length === 0 && (
+          <p className="text-sm text-gray-400 text-center py-8">{t('chat.empty')}</p>
+        )}
+        {messages.map(message =>
+          message.role === 'user' ? (
+            <div key={message.id} className="flex justify-end">
+              <div className="max-w-[85%] px-3 py-2 rounded-lg bg-blue-600 text-white text-sm whitespace-pre-wrap break-words">
+                {message.content}
+              </div>
+            </div>
+          ) : (
+            <div key={message.id} className="max-w-[95%]">
+              <div className={`px-3 py-2 rounded-lg text-sm whitespace-pre-wrap break-words border ${
+                message.error
+                  ? 'text-red-600 dark:text-red-400 border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-900/20'
+                  : 'text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'
+              }`}>
+                {message.content
+                  ? renderAnswer(message.content, message.sources || [], onOpenNote)
+                  : <span className="text-gray-400 animate-pulse">{t('chat.thinking')}</span>}
+              </div>
+              {message.sources && message.sources.length > 0 && !message.error && (
+                <ol className="mt-1 space-y-0.5">
+                  {message.sources.map((source, i) => (
+                    <li key={i}>
+                      <button
+                        onClick={() => onOpenNote(source.noteId)}
+                        title={source.text}
+                        className="block w-full text-left text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 truncate"
+                      >
+                        [{i + 1}] {source.title || t('common.untitledNote')}
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )
+        )}
+        <div ref={listEndRef} />
+      </div>
+
+      <div className="p-3 border-t border-gray-200 dark:border-gray-800 flex items-end space-x-2">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('chat.placeholder')}
+          rows={2}
+          className="flex-1 resize-none px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        {isAnswering ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="p-2 rounded-md bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors"
+            title={t('common.stop')}
+          >
+            <StopIcon className="w-5 h-5" />
+          </button>
+        ) : (
+          <button
+            onClick={handleAsk}
+            disabled={!input.trim()}
+            className="p-2 rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white transition-colors"
+            title={t('chat.send')}
+          >
+            <SendIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { Note } from '../types';
+import { createSimilarityModel } from '../services/noteSimilarity';
+import { XIcon } from './Icons';
+import { t } from '../services/i18n';
+
+interface DuplicatesModalProps {
+  notes: Note[];
+  formatDate: (timestamp: number) => string;
+  onMerge: (targetId: string, sourceIds: string[]) => void;
+  onOpenNote: (noteId: string) => void;
+  onClose: () => void;
+}
+
+export const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ notes, formatDate, onMerge, onOpenNote, onClose }) => {
+  const groups = useMemo(() => createSimilarityModel(notes).duplicateGroups(), [notes]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden border border-gray-200 dark:border-gray-800 flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">{t('duplicates.title')}</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+              {t('duplicates.summary', { count: groups.length })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          {groups.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">{t('duplicates.none')}</p>
+          ) : (
+            groups.map(group => (
+              <div key={group[0].id} className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-800">
+                {group.map(note => (
+                  <div key={note.id} className="flex items-center justify-between px-3 py-2">
+                    <button onClick={() => onOpenNote(note.id)} className="min-w-0 text-left group">
+                      <div className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate group-hover:text-blue-600 dark:group-hover:text-blue-400">
+                        {note.title || t('common.untitledNote')}
+                      </div>
+                      <div className="text-xs text-gray-400 truncate">
+                        {formatDate(note.updatedAt)} · {note.content.trim() ? note.content.trim().substring(0, 60) : t('duplicates.noContent')}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => onMerge(note.id, group.filter(n => n.id !== note.id).map(n => n.id))}
+                      className="ml-3 shrink-0 px-3 py-1 rounded-md text-xs border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                    >
+                      {t('duplicates.keep')}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Folder } from '../types';
+import {
+  FolderIcon,
+  FolderPlusIcon,
+  ChevronRightIcon,
+  ChevronDownIcon,
+  EditIcon,
+  TrashIcon
+} from './Icons';
+import { t, compareText } from '../services/i18n';
+
+// Drag payload types shared with the note list in App.tsx
+export const NOTE_DRAG_TYPE = 'application/x-mindspace-note';
+export const FOLDER_DRAG_TYPE = 'application/x-mindspace-folder';
+
+interface FolderTreeProps {
+  folders: Folder[];
+  selectedFolderId: string | null;
+  noteCounts: Record<string, number>;
+  onSelect: (folderId: string | null) => void;
+  onCreate: (parentId: string | null) => void;
+  onRename: (folder: Folder) => void;
+  onDelete: (folder: Folder) => void;
+  onMoveFolder: (folderId: string, parentId: string | null) => void;
+  onMoveNote: (noteId: string, folderId: string | null) => void;
+}
+
+export const FolderTree: React.FC<FolderTreeProps> = ({
+  folders,
+  selectedFolderId,
+  noteCounts,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onMoveFolder,
+  onMoveNote
+}) => {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [dropTargetId, setDropTargetId] = useState<string | 'root' | null>(null);
+
+  const handleDragOver = (e: React.DragEvent, targetId: string | 'root') => {
+    const types = e.dataTransfer.types;
+    if (types.includes(NOTE_DRAG_TYPE) || types.includes(FOLDER_DRAG_TYPE)) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTargetId(targetId);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, folderId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTargetId(null);
+    const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+    const draggedFolderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+    if (noteId) {
+      onMoveNote(noteId, folderId);
+    } else if (draggedFolderId && draggedFolderId !== folderId) {
+      onMoveFolder(draggedFolderId, folderId);
+    }
+  };
+
+  const renderLevel = (parentId: string | null, depth: number): React.ReactNode => {
+    const children = folders
+      .filter(f => f.parentId === parentId)
+      .sort((a, b) => compareText(a.name, b.name));
+    if (children.length === 0) return null;
+
+    return (
+      <ul>
+        {children.map(folder => {
+          const hasChildren = folders.some(f => f.parentId === folder.id);
+          const isCollapsed = collapsed[folder.id];
+          const isSelected = selectedFolderId === folder.id;
+          return (
+            <li key={folder.id}>
+              <div
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                onDragOver={(e) => handleDragOver(e, folder.id)}
+                onDragLeave={() => setDropTargetId(null)}
+                onDrop={(e) => handleDrop(e, folder.id)}
+                onClick={() => onSelect(folder.id)}
+                style={{ paddingLeft: `${depth * 12 + 4}px` }}
+                className={`group flex items-center pr-1 py-1 rounded-md cursor-pointer text-sm transition-colors ${
+                  isSelected ? 'bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800'
+                } ${dropTargetId === folder.id ? 'ring-2 ring-blue-400' : ''}`}
+              >
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setCollapsed(prev => ({ ...prev, [folder.id]: !prev[folder.id] }));
+                  }}
+                  className={`p-0.5 text-gray-400 ${hasChildren ? '' : 'invisible'}`}
+                >
+                  {isCollapsed ? <ChevronRightIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />}
+                </button>
+                <FolderIcon className="w-4 h-4 mr-1.5 shrink-0" />
+                <span className="truncate flex-1">{folder.name}</span>
+                <span className="text-[10px] text-gray-400 mr-1 group-hover:hidden">{noteCounts[folder.id] || ''}</span>
+                <div className="hidden group-hover:flex items-center">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onCreate(folder.id); }}
+                    className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                    title={t('folder.newSubfolder')}
+                  >
+                    <FolderPlusIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRename(folder); }}
+                    className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                    title={t('folder.rename')}
+                  >
+                    <EditIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(folder); }}
+                    className="p-0.5 text-gray-400 hover:text-red-500"
+                    title={t('folder.delete')}
+                  >
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              {!isCollapsed && renderLevel(folder.id, depth + 1)}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex justify-between items-center px-1 mb-1">
+        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('folder.notebooks')}</span>
+        <button
+          onClick={() => onCreate(null)}
+          className="p-1 rounded-md text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors"
+          title={t('folder.new')}
+        >
+          <FolderPlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="max-h-48 overflow-y-auto">
+        <div
+          onClick={() => onSelect(null)}
+          onDragOver={(e) => handleDragOver(e, 'root')}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(e) => handleDrop(e, null)}
+          className={`flex items-center px-2 py-1 rounded-md cursor-pointer text-sm transition-colors ${
+            selectedFolderId === null ? 'bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800'
+          } ${dropTargetId === 'root' ? 'ring-2 ring-blue-400' : ''}`}
+        >
+          <FolderIcon className="w-4 h-4 mr-1.5" />
+          <span className="flex-1">{t('folder.allNotebooks')}</span>
+        </div>
+        {renderLevel(null, 1)}
+      </div>
+    </div>
+  );
+};
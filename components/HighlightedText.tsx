@@ -0,0 +1,14 @@
+import React from 'react';
+import { HighlightSegment } from '../services/searchIndex';
+
+export const HighlightedText: React.FC<{ segments: HighlightSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, i) =>
+      segment.match ? (
+        <mark key={i} className="bg-yellow-200 dark:bg-yellow-600/40 text-inherit rounded-sm px-0.5">{segment.text}</mark>
+      ) : (
+        <React.Fragment key={i}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Note, NoteRevision, RevisionReason } from '../types';
+import { revisionRepository } from '../services/revisionRepository';
+import { diffLines, diffWords, DiffOp } from '../services/diff';
+import { XIcon } from './Icons';
+import { t, MessageKey } from '../services/i18n';
+
+const CURRENT = 'current';
+
+const REASON_LABELS: Record<RevisionReason, MessageKey> = {
+  typing: 'history.reasonTyping',
+  ai: 'history.reasonAi',
+  restore: 'history.reasonRestore',
+  merge: 'history.reasonMerge'
+};
+
+interface HistoryModalProps {
+  note: Note;
+  formatDate: (timestamp: number) => string;
+  onRestore: (revision: NoteRevision) => void;
+  onClose: () => void;
+}
+
+const DiffView: React.FC<{ ops: DiffOp[]; mode: 'line' | 'word' }> = ({ ops, mode }) => {
+  if (ops.every(op => op.type === 'equal')) {
+    return <p className="text-sm text-gray-400 text-center py-8">{t('history.identical')}</p>;
+  }
+
+  if (mode === 'word') {
+    return (
+      <div className="whitespace-pre-wrap break-words text-sm leading-relaxed text-gray-700 dark:text-gray-300">
+        {ops.map((op, i) =>
+          op.type === 'equal' ? (
+            <span key={i}>{op.value}</span>
+          ) : op.type === 'insert' ? (
+            <ins key={i} className="bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300 no-underline">{op.value}</ins>
+          ) : (
+            <del key={i} className="bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">{op.value}</del>
+          )
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="font-mono text-xs">
+      {ops.flatMap((op, i) =>
+        op.value.replace(/\n$/, '').split('\n').map((line, j) => (
+          <div
+            key={`${i}-${j}`}
+            className={`whitespace-pre-wrap break-words px-2 ${
+              op.type === 'insert'
+                ? 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                : op.type === 'delete'
+                  ? 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                  : 'text-gray-600 dark:text-gray-400'
+            }`}
+          >
+            <span className="select-none inline-block w-4 text-gray-400">
+              {op.type === 'insert' ? '+' : op.type === 'delete' ? '-' : ' '}
+            </span>
+            {line}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export const HistoryModal: React.FC<HistoryModalProps> = ({ note, formatDate, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string>(CURRENT);
+  const [mode, setMode] = useState<'line' | 'word'>('line');
+
+  useEffect(() => {
+    let cancelled = false;
+    revisionRepository.listForNote(note.id)
+      .then(list => {
+        if (cancelled) return;
+        setRevisions(list);
+        if (list.length > 0) setTargetId(list[0].id);
+      })
+      .catch(e => console.error("Failed to load revisions", e))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [note.id]);
+
+  const resolve = (id: string | null) =>
+    id === CURRENT ? { title: note.title, content: note.content } : revisions.find(r => r.id === id) || null;
+
+  const target = targetId ? revisions.find(r => r.id === targetId) || null : null;
+  const base = resolve(baseId);
+
+  // Diff reads "from base to target": what restoring the target would change
+  const ops = useMemo(() => {
+    if (!target || !base) return [];
+    return mode === 'line' ? diffLines(base.content, target.content) : diffWords(base.content, target.content);
+  }, [target, base, mode]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-4xl overflow-hidden border border-gray-200 dark:border-gray-800 flex flex-col h-[85vh]">
+        <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100 truncate">{t('history.title', { title: note.title || t('common.untitledNote') })}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision List */}
+          <div className="w-56 shrink-0 border-r border-gray-100 dark:border-gray-800 overflow-y-auto">
+            {isLoading ? (
+              <p className="p-4 text-sm text-gray-400">{t('common.loading')}</p>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-gray-400">{t('history.empty')}</p>
+            ) : (
+              <ul>
+                {revisions.map(revision => (
+                  <li key={revision.id}>
+                    <button
+                      onClick={() => setTargetId(revision.id)}
+                      className={`block w-full text-left px-4 py-2 border-l-4 transition-colors ${
+                        targetId === revision.id
+                          ? 'border-l-blue-500 bg-blue-50 dark:bg-gray-800'
+                          : 'border-l-transparent hover:bg-gray-50 dark:hover:bg-gray-800/50'
+                      }`}
+                    >
+                      <div className="text-sm text-gray-800 dark:text-gray-200">{formatDate(revision.createdAt)}</div>
+                      <div className="text-[10px] text-gray-400">{t(REASON_LABELS[revision.reason])}</div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {target && (
+              <div className="p-3 border-b border-gray-100 dark:border-gray-800 flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <span>{t('history.compareWith')}</span>
+                <select
+                  value={baseId}
+                  onChange={(e) => setBaseId(e.target.value)}
+                  className="px-2 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md text-gray-800 dark:text-gray-200"
+                >
+                  <option value={CURRENT}>{t('history.current')}</option>
+                  {revisions.filter(r => r.id !== target.id).map(r => (
+                    <option key={r.id} value={r.id}>{formatDate(r.createdAt)}</option>
+                  ))}
+                </select>
+                <div className="flex bg-gray-100 dark:bg-gray-800 rounded-md p-0.5">
+                  <button
+                    onClick={() => setMode('line')}
+                    className={`px-2 py-0.5 rounded ${mode === 'line' ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm' : ''}`}
+                  >
+                    {t('history.byLine')}
+                  </button>
+                  <button
+                    onClick={() => setMode('word')}
+                    className={`px-2 py-0.5 rounded ${mode === 'word' ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm' : ''}`}
+                  >
+                    {t('history.byWord')}
+                  </button>
+                </div>
+                <div className="flex-1" />
+                <button
+                  onClick={() => onRestore(target)}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium transition-colors"
+                >
+                  {t('history.restore')}
+                </button>
+              </div>
+            )}
+            <div className="flex-1 overflow-y-auto p-4">
+              {target && base && base.title !== target.title && (
+                <div className="mb-3 text-sm">
+                  <span className="text-gray-400 mr-2">{t('common.title')}</span>
+                  <del className="bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 mr-1">{base.title}</del>
+                  <ins className="bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300 no-underline">{target.title}</ins>
+                </div>
+              )}
+              {target && <DiffView ops={ops} mode={mode} />}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
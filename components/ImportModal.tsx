@@ -0,0 +1,214 @@
+import React, { useRef, useState } from 'react';
+import { Note } from '../types';
+import {
+  ImportCandidate,
+  ImportFile,
+  buildImportCandidates,
+  readDataTransfer,
+  readFiles
+} from '../services/importer';
+import { XIcon, UploadIcon } from './Icons';
+import { t } from '../services/i18n';
+
+interface ImportModalProps {
+  existingNotes: Note[];
+  onImport: (candidates: ImportCandidate[], keepFolders: boolean) => void;
+  onClose: () => void;
+}
+
+export const ImportModal: React.FC<ImportModalProps> = ({ existingNotes, onImport, onClose }) => {
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [keepFolders, setKeepFolders] = useState(true);
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const load = async (read: () => Promise<ImportFile[]>) => {
+    setIsReading(true);
+    setError(null);
+    try {
+      const files = await read();
+      const built = buildImportCandidates(files, existingNotes);
+      if (built.length === 0) {
+        setError(t('import.noFiles'));
+      }
+      // Exact content duplicates start unselected; title clashes are only flagged
+      setCandidates(built);
+      setSelectedKeys(new Set(built.filter(c => c.duplicate?.kind !== 'content').map(c => c.key)));
+    } catch (e) {
+      console.error("Import read failed", e);
+      setError(t('import.readFailed'));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const dataTransfer = e.dataTransfer;
+    load(() => readDataTransfer(dataTransfer));
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) load(() => readFiles(files));
+  };
+
+  const toggle = (key: string) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const selected = candidates.filter(c => selectedKeys.has(c.key));
+  const hasFolders = candidates.some(c => c.folderPath.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden border border-gray-200 dark:border-gray-800 flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">{t('import.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {/* Drop Zone */}
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+              isDragging ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-200 dark:border-gray-700'
+            }`}
+          >
+            <UploadIcon className="w-8 h-8 mx-auto text-gray-300 dark:text-gray-600 mb-2" />
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              {t('import.dropHint')}
+            </p>
+            <div className="flex justify-center space-x-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1.5 text-sm rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+              >
+                {t('import.chooseFiles')}
+              </button>
+              <button
+                onClick={() => folderInputRef.current?.click()}
+                className="px-3 py-1.5 text-sm rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+              >
+                {t('import.chooseFolder')}
+              </button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".md,.markdown,.txt,.zip"
+              className="hidden"
+              onChange={handleInputChange}
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              className="hidden"
+              onChange={handleInputChange}
+              {...{ webkitdirectory: '', directory: '' }}
+            />
+          </div>
+
+          {isReading && <p className="text-sm text-gray-400 text-center mt-4">{t('import.reading')}</p>}
+          {error && <p className="text-sm text-red-500 text-center mt-4">{error}</p>}
+
+          {/* Preview */}
+          {candidates.length > 0 && (
+            <div className="mt-4">
+              <div className="flex justify-between items-center mb-2 text-xs text-gray-500 dark:text-gray-400">
+                <span>{t('import.selection', { count: candidates.length, selected: selected.length })}</span>
+                <div className="space-x-3">
+                  <button onClick={() => setSelectedKeys(new Set(candidates.map(c => c.key)))} className="text-blue-500 hover:text-blue-600">{t('common.selectAll')}</button>
+                  <button onClick={() => setSelectedKeys(new Set())} className="text-blue-500 hover:text-blue-600">{t('common.selectNone')}</button>
+                </div>
+              </div>
+              <ul className="border border-gray-100 dark:border-gray-800 rounded-lg divide-y divide-gray-100 dark:divide-gray-800">
+                {candidates.map(candidate => (
+                  <li key={candidate.key}>
+                    <label className="flex items-start p-3 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50">
+                      <input
+                        type="checkbox"
+                        checked={selectedKeys.has(candidate.key)}
+                        onChange={() => toggle(candidate.key)}
+                        className="mt-1 mr-3 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center">
+                          <span className="font-medium text-sm text-gray-900 dark:text-gray-100 truncate">{candidate.title}</span>
+                          {candidate.duplicate && (
+                            <span className={`ml-2 shrink-0 text-[10px] px-1.5 rounded ${
+                              candidate.duplicate.kind === 'content'
+                                ? 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300'
+                                : 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300'
+                            }`}>
+                              {t(candidate.duplicate.kind === 'content' ? 'import.duplicateContent' : 'import.duplicateTitle', { title: candidate.duplicate.noteTitle })}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-400 truncate mt-0.5">{candidate.path}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 line-clamp-1 mt-0.5">
+                          {candidate.content.substring(0, 120) || t('common.noContent')}
+                        </div>
+                        {candidate.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {candidate.tags.map(tag => (
+                              <span key={tag} className="text-[10px] px-1.5 rounded bg-blue-50 dark:bg-gray-800 text-blue-600 dark:text-blue-400">#{tag}</span>
+                            ))}
+                          </div>
+                        )}
+                        {candidate.droppedTags.length > 0 && (
+                          <div className="text-[10px] text-yellow-700 dark:text-yellow-300 mt-1">
+                            {t('import.droppedTags', { tags: candidate.droppedTags.join(', ') })}
+                          </div>
+                        )}
+                      </div>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 dark:border-gray-800 flex justify-between items-center">
+          <label className={`flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 ${hasFolders ? '' : 'invisible'}`}>
+            <input
+              type="checkbox"
+              checked={keepFolders}
+              onChange={(e) => setKeepFolders(e.target.checked)}
+              className="text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>{t('import.keepFolders')}</span>
+          </label>
+          <button
+            onClick={() => onImport(selected, keepFolders && hasFolders)}
+            disabled={selected.length === 0}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-md text-sm font-medium transition-colors"
+          >
+            {t('import.submit', { count: selected.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { FolderIcon, SparklesIcon, TagIcon, XIcon } from './Icons';
+import { t } from '../services/i18n';
+
+// What the background pass proposed for a note; each part is dropped once used
+export interface NoteSuggestion {
+  title: string | null;
+  tags: string[];
+  folderId: string | null;
+}
+
+interface NoteSuggestionBarProps {
+  suggestion: NoteSuggestion;
+  folderName: string | null; // of the suggested folder
+  onUseTitle: () => void;
+  onAddTags: (tags: string[]) => void;
+  onMove: () => void;
+  onDismiss: () => void;
+}
+
+const actionClassName = 'px-2 py-0.5 rounded border border-indigo-200 dark:border-indigo-800 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors';
+
+export const NoteSuggestionBar: React.FC<NoteSuggestionBarProps> = ({
+  suggestion,
+  folderName,
+  onUseTitle,
+  onAddTags,
+  onMove,
+  onDismiss
+}) => (
+  <div className="flex items-start justify-between px-4 md:px-8 py-2 bg-indigo-50 dark:bg-indigo-900/20 text-xs text-gray-700 dark:text-gray-300 shrink-0">
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1.5 min-w-0">
+      <span className="flex items-center font-semibold text-indigo-600 dark:text-indigo-400">
+        <SparklesIcon className="w-3.5 h-3.5 mr-1" />
+        {t('suggest.heading')}
+      </span>
+      {suggestion.title && (
+        <span className="flex items-center gap-1.5 min-w-0">
+          <span className="text-gray-500 dark:text-gray-400">{t('suggest.title')}</span>
+          <span className="font-medium truncate max-w-xs">{suggestion.title}</span>
+          <button onClick={onUseTitle} className={actionClassName}>{t('suggest.useTitle')}</button>
+        </span>
+      )}
+      {suggestion.tags.length > 0 && (
+        <span className="flex items-center gap-1.5">
+          <TagIcon className="w-3.5 h-3.5 text-gray-400" />
+          {suggestion.tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onAddTags([tag])}
+              className="px-1.5 rounded bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-gray-700"
+              title={t('suggest.addTag', { tag })}
+            >
+              +#{tag}
+            </button>
+          ))}
+          {suggestion.tags.length > 1 && (
+            <button onClick={() => onAddTags(suggestion.tags)} className={actionClassName}>
+              {t('suggest.addAllTags')}
+            </button>
+          )}
+        </span>
+      )}
+      {folderName && (
+        <span className="flex items-center gap-1.5 min-w-0">
+          <span className="text-gray-500 dark:text-gray-400">{t('suggest.folder')}</span>
+          <FolderIcon className="w-3.5 h-3.5 text-gray-400" />
+          <span className="font-medium truncate max-w-[10rem]">{folderName}</span>
+          <button onClick={onMove} className={actionClassName}>{t('suggest.moveNote')}</button>
+        </span>
+      )}
+    </div>
+    <button
+      onClick={onDismiss}
+      className="ml-2 p-0.5 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+      title={t('suggest.dismiss')}
+    >
+      <XIcon className="w-4 h-4" />
+    </button>
+  </div>
+);
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { RelatedNote } from '../services/noteSimilarity';
+import { ChevronRightIcon, ChevronDownIcon, SparklesIcon } from './Icons';
+import { t } from '../services/i18n';
+
+interface RelatedNotesPanelProps {
+  related: RelatedNote[];
+  onSelect: (noteId: string) => void;
+}
+
+export const RelatedNotesPanel: React.FC<RelatedNotesPanelProps> = ({ related, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="shrink-0 border-t border-gray-100 dark:border-gray-800 px-4 md:px-12 py-2 bg-white dark:bg-gray-950">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center text-xs font-semibold text-gray-400 uppercase tracking-wider hover:text-gray-600 dark:hover:text-gray-300"
+      >
+        {isOpen ? <ChevronDownIcon className="w-3 h-3 mr-1" /> : <ChevronRightIcon className="w-3 h-3 mr-1" />}
+        <SparklesIcon className="w-3 h-3 mr-1" />
+        {t('editor.related', { count: related.length })}
+      </button>
+      {isOpen && (
+        related.length === 0 ? (
+          <p className="text-xs text-gray-400 mt-1 mb-1">{t('editor.noRelated')}</p>
+        ) : (
+          <ul className="mt-1 max-h-32 overflow-y-auto">
+            {related.map(({ note, score }) => (
+              <li key={note.id} className="flex items-center">
+                <button
+                  onClick={() => onSelect(note.id)}
+                  className="flex-1 min-w-0 text-left py-1 text-sm text-blue-600 dark:text-blue-400 hover:underline truncate"
+                >
+                  {note.title || t('common.untitledNote')}
+                </button>
+                <span className="ml-2 text-xs text-gray-400 tabular-nums">{Math.round(score * 100)}%</span>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
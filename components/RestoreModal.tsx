@@ -0,0 +1,199 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  BackupFile,
+  ConflictStrategy,
+  RestoreMode,
+  RestoreReport,
+  Workspace,
+  parseBackup,
+  restoreWorkspace
+} from '../services/backup';
+import { XIcon, UploadIcon } from './Icons';
+import { t, MessageKey } from '../services/i18n';
+
+const STRATEGY_LABELS: Record<ConflictStrategy, MessageKey> = {
+  newer: 'restore.strategyNewer',
+  local: 'restore.strategyLocal',
+  backup: 'restore.strategyBackup',
+  both: 'restore.strategyBoth'
+};
+
+const RESOLUTION_LABELS: Record<string, MessageKey> = {
+  'kept-local': 'restore.resolvedLocal',
+  'used-backup': 'restore.resolvedBackup',
+  'kept-both': 'restore.resolvedBoth'
+};
+
+interface RestoreModalProps {
+  current: Workspace;
+  formatDate: (timestamp: number) => string;
+  generateId: () => string;
+  onApply: (workspace: Workspace, mode: RestoreMode) => void;
+  onClose: () => void;
+}
+
+export const RestoreModal: React.FC<RestoreModalProps> = ({ current, formatDate, generateId, onApply, onClose }) => {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [strategy, setStrategy] = useState<ConflictStrategy>('newer');
+  const [appliedReport, setAppliedReport] = useState<RestoreReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Dry run against the current workspace so conflicts are visible before applying
+  const plan = useMemo(
+    () => (backup ? restoreWorkspace(current, backup, mode, strategy, generateId) : null),
+    [backup, current, mode, strategy, generateId]
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setBackup(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t('restore.readFailed'));
+    }
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    if (mode === 'replace' && !window.confirm(t('restore.confirmReplace'))) return;
+    onApply(plan.workspace, mode);
+    setAppliedReport(plan.report);
+  };
+
+  const report = appliedReport || plan?.report;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-200 dark:border-gray-800 flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">{t('restore.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          {!appliedReport && (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex items-center justify-center py-6 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-500 dark:text-gray-400 hover:border-blue-400 transition-colors"
+            >
+              <UploadIcon className="w-5 h-5 mr-2" />
+              {backup ? t('restore.chooseOther') : t('restore.choose')}
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          {backup && !appliedReport && (
+            <>
+              <div className="bg-gray-50 dark:bg-gray-800/50 p-3 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+                <div>{t('restore.exportedAt', { date: formatDate(backup.exportedAt) })}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {t('restore.contents', {
+                    notes: backup.workspace.notes.length,
+                    folders: backup.workspace.folders.length,
+                    prompts: backup.workspace.customPrompts.length
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('restore.mode')}</label>
+                <div className="flex space-x-4">
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="text-indigo-600 focus:ring-indigo-500" />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">{t('restore.merge')}</span>
+                  </label>
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="text-indigo-600 focus:ring-indigo-500" />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">{t('restore.replace')}</span>
+                  </label>
+                </div>
+              </div>
+
+              {mode === 'merge' && (
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('restore.conflicts')}</label>
+                  <select
+                    value={strategy}
+                    onChange={(e) => setStrategy(e.target.value as ConflictStrategy)}
+                    className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {(Object.keys(STRATEGY_LABELS) as ConflictStrategy[]).map(key => (
+                      <option key={key} value={key}>{t(STRATEGY_LABELS[key])}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+
+          {report && backup && (mode === 'merge' || appliedReport) && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {appliedReport ? t('restore.done') : t('restore.preview')}
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                {t('restore.report', {
+                  added: report.added,
+                  updated: report.updated,
+                  unchanged: report.unchanged,
+                  conflicts: report.conflicts.length
+                })}
+              </p>
+              {report.conflicts.length > 0 && (
+                <ul className="border border-gray-100 dark:border-gray-800 rounded-lg divide-y divide-gray-100 dark:divide-gray-800 max-h-48 overflow-y-auto">
+                  {report.conflicts.map(conflict => (
+                    <li key={`${conflict.kind}-${conflict.id}`} className="p-2 text-xs flex justify-between items-center">
+                      <span className="truncate text-gray-700 dark:text-gray-300">
+                        {t(conflict.kind === 'folder' ? 'restore.conflictFolder' : 'restore.conflictNote', { title: conflict.localTitle || t('restore.untitled') })}
+                        {conflict.backupTitle !== conflict.localTitle && <span className="text-gray-400"> / {conflict.backupTitle || t('restore.untitled')}</span>}
+                      </span>
+                      <span className="ml-2 shrink-0 text-gray-400">{t(RESOLUTION_LABELS[conflict.resolution])}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 dark:border-gray-800 flex justify-end">
+          {appliedReport ? (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm font-medium transition-colors"
+            >
+              {t('common.done')}
+            </button>
+          ) : (
+            <button
+              onClick={handleApply}
+              disabled={!plan}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-md text-sm font-medium transition-colors"
+            >
+              {mode === 'replace' ? t('restore.submitReplace') : t('restore.submitMerge')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { TagMatchMode } from '../services/tags';
+import { TagIcon } from './Icons';
+import { t } from '../services/i18n';
+
+interface TagBrowserProps {
+  tagCounts: [string, number][];
+  selectedTags: string[];
+  matchMode: TagMatchMode;
+  onToggleTag: (tag: string) => void;
+  onMatchModeChange: (mode: TagMatchMode) => void;
+  onClear: () => void;
+}
+
+export const TagBrowser: React.FC<TagBrowserProps> = ({
+  tagCounts,
+  selectedTags,
+  matchMode,
+  onToggleTag,
+  onMatchModeChange,
+  onClear
+}) => {
+  if (tagCounts.length === 0) return null;
+
+  return (
+    <div className="mt-3">
+      <div className="flex justify-between items-center px-1 mb-1">
+        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('tags.title')}</span>
+        {selectedTags.length > 0 && (
+          <div className="flex items-center space-x-2">
+            {selectedTags.length > 1 && (
+              <div className="flex text-[10px] bg-gray-200 dark:bg-gray-800 rounded p-0.5">
+                <button
+                  onClick={() => onMatchModeChange('and')}
+                  className={`px-1.5 rounded ${matchMode === 'and' ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white' : 'text-gray-500'}`}
+                  title={t('tags.matchAll')}
+                >
+                  {t('common.all')}
+                </button>
+                <button
+                  onClick={() => onMatchModeChange('or')}
+                  className={`px-1.5 rounded ${matchMode === 'or' ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white' : 'text-gray-500'}`}
+                  title={t('tags.matchAny')}
+                >
+                  {t('tags.any')}
+                </button>
+              </div>
+            )}
+            <button onClick={onClear} className="text-[10px] text-blue-500 hover:text-blue-600">
+              {t('common.clear')}
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto px-1">
+        {tagCounts.map(([tag, count]) => {
+          const isSelected = selectedTags.includes(tag);
+          return (
+            <button
+              key={tag}
+              onClick={() => onToggleTag(tag)}
+              className={`flex items-center text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                isSelected
+                  ? 'bg-blue-500 border-blue-500 text-white'
+                  : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-blue-400'
+              }`}
+            >
+              <TagIcon className="w-3 h-3 mr-1" />
+              {tag}
+              <span className={`ml-1 text-[10px] ${isSelected ? 'text-blue-100' : 'text-gray-400'}`}>{count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,350 @@
+import { MessageKey } from './zh-CN';
+
+// English UI strings
+
+export const en: Record<MessageKey, string> = {
+  // --- Common ---
+  'common.untitledNote': 'Untitled note',
+  'common.untitled': 'Untitled',
+  'common.noContent': 'No content yet...',
+  'common.close': 'Close',
+  'common.clear': 'Clear',
+  'common.delete': 'Delete',
+  'common.restore': 'Restore',
+  'common.stop': 'Stop',
+  'common.retry': 'Retry',
+  'common.loading': 'Loading...',
+  'common.all': 'All',
+  'common.selectAll': 'Select all',
+  'common.selectNone': 'Select none',
+  'common.done': 'Done',
+  'common.title': 'Title',
+
+  // --- App ---
+  'app.name': 'MindSpace Notes',
+  'app.exportFailed': 'Export failed',
+  'app.generatingPdf': 'Generating PDF...',
+  'app.emptyState': 'Select a note or create a new one',
+  'app.loadFailed': 'Your notes could not be read from browser storage. Changes will not be saved until they load.',
+
+  // --- Notes ---
+  'note.newTitle': 'New note',
+  'note.emptyExcerpt': 'No additional content',
+  'note.confirmDeleteForever': 'Delete this note permanently? This cannot be undone.',
+  'note.confirmEmptyTrash': 'Permanently delete the {count} notes in the trash? This cannot be undone.',
+  'note.confirmUpdateLinks': '{count} notes link to "{oldTitle}". Update these links to "{newTitle}"?',
+  'note.confirmMerge': 'Merge {count} notes into "{title}"? The merged notes will be moved to the trash.',
+  'note.welcomeTitle': 'Welcome to MindSpace',
+  'note.welcomeExcerpt': 'A fresh, minimal workspace.',
+  'note.welcomeContent': '# Welcome to MindSpace\n\nA fresh, minimal workspace.\n\n## Features\n\n- **AI assistance**: click the magic wand icon above to try things like:\n  - Summarizing a note\n  - Fixing grammar\n  - Continuing your writing\n  - **Custom prompts**: open the settings to add your own AI prompts!\n- **Markdown**: click the eye icon in the top right to preview Markdown.\n- **Export**: export notes as TXT or PDF, one at a time or all at once.\n- **Sorting**: sort by last modified, created date or title.\n- **Dark mode**: switch themes with the moon/sun icon in the sidebar.\n\nHappy writing!',
+
+  // --- Folders ---
+  'folder.namePrompt': 'Folder name',
+  'folder.defaultName': 'New folder',
+  'folder.renamePrompt': 'Rename folder',
+  'folder.confirmDelete': 'Delete the folder "{name}"? Its notes and subfolders will move up one level.',
+  'folder.notebooks': 'Notebooks',
+  'folder.allNotebooks': 'All notebooks',
+  'folder.new': 'New folder',
+  'folder.newSubfolder': 'New subfolder',
+  'folder.rename': 'Rename',
+  'folder.delete': 'Delete folder',
+
+  // --- Sidebar ---
+  'sidebar.chat': 'Chat with notes',
+  'sidebar.darkMode': 'Switch to dark mode',
+  'sidebar.lightMode': 'Switch to light mode',
+  'sidebar.sort': 'Sort',
+  'sidebar.sortBy': 'Sort by',
+  'sidebar.sortUpdated': 'Last modified (newest)',
+  'sidebar.sortCreated': 'Created (newest)',
+  'sidebar.sortTitle': 'Title (A-Z)',
+  'sidebar.exportAllZip': 'Export all notes (ZIP)',
+  'sidebar.exportAllMarkdown': 'Export all notes (Markdown)',
+  'sidebar.exportAllPdf': 'Export all notes (PDF)',
+  'sidebar.exportSite': 'Export as static site (HTML)',
+  'sidebar.import': 'Import notes...',
+  'sidebar.findDuplicates': 'Find duplicate notes...',
+  'sidebar.backup': 'Back up workspace (JSON)',
+  'sidebar.restore': 'Restore from backup...',
+  'sidebar.settings': 'Settings',
+  'sidebar.searchPlaceholder': 'Search notes...',
+  'sidebar.searchHint': 'Supports "phrases", -excluded words, tag:name, in:folder',
+  'sidebar.favorites': 'Favorites',
+  'sidebar.trash': 'Trash',
+  'sidebar.trashRetention': 'Notes are deleted automatically after {days} days',
+  'sidebar.trashKept': 'The trash is never emptied automatically',
+  'sidebar.emptyTrash': 'Empty trash',
+  'sidebar.noNotes': 'No notes found.',
+  'sidebar.deletedAt': 'Deleted {date}',
+
+  // --- Tags ---
+  'tags.title': 'Tags',
+  'tags.matchAll': 'Notes with all selected tags',
+  'tags.matchAny': 'Notes with any selected tag',
+  'tags.any': 'Any',
+
+  // --- Editor ---
+  'editor.lastEdited': 'Last edited: {date}',
+  'editor.undo': 'Undo (Ctrl+Z)',
+  'editor.redo': 'Redo (Ctrl+Y)',
+  'editor.edit': 'Switch to editing',
+  'editor.preview': 'Preview Markdown',
+  'editor.history': 'Version history',
+  'editor.export': 'Export note',
+  'editor.exportTxt': 'Export as TXT',
+  'editor.exportMarkdown': 'Export as Markdown',
+  'editor.exportHtml': 'Export as HTML',
+  'editor.exportPdf': 'Export as PDF',
+  'editor.favorite': 'Add to favorites',
+  'editor.unfavorite': 'Remove from favorites',
+  'editor.deleteForever': 'Delete permanently',
+  'editor.moveToTrash': 'Move to trash',
+  'editor.trashNotice': 'This note is in the trash. Restore it to edit.',
+  'editor.titlePlaceholder': 'Note title',
+  'editor.contentPlaceholder': 'Start typing...',
+  'editor.backlinks': 'Backlinks ({count})',
+  'editor.noBacklinks': 'No other notes link here yet. Use [[Note title]] to create a link.',
+  'editor.related': 'Related notes ({count})',
+  'editor.noRelated': 'No notes with similar content.',
+
+  // --- AI Actions ---
+  'ai.assistant': 'AI assistant',
+  'ai.actionSummarize': 'Summarize',
+  'ai.actionFixGrammar': 'Fix grammar',
+  'ai.actionContinue': 'Continue',
+  'ai.actionTitle': 'Generate title',
+  'ai.actionRewrite': 'Rewrite',
+  'ai.actionTranslate': 'Translate (Chinese ⇄ English)',
+  'ai.actionCustom': 'Custom prompt',
+  'ai.menuSummarize': 'Summarize',
+  'ai.menuContinue': 'Continue writing',
+  'ai.selectionHint': 'Applies to the {count} selected characters',
+  'ai.basic': 'Basics',
+  'ai.customPrompts': 'Custom prompts',
+  'ai.managePrompts': 'Manage prompts',
+  'ai.noCustomPrompts': 'No custom prompts yet',
+  'ai.generating': '{label}: generating...',
+  'ai.queued': '{label}: queued...',
+  'ai.moreQueued': '+{count} queued',
+  'ai.stopGenerating': 'Stop generating',
+  'ai.failed': '"{label}" failed: {title}',
+  'ai.selectionChanged': 'The selected text was changed, so "{label}" was cancelled.',
+  'ai.confirmConflict': '"{title}" was edited while "{label}" was running, so the AI result can no longer go where it was requested.\n\nAppend the result to the end of the note? Choose "Cancel" to discard it.',
+  'ai.confirmTitleChanged': 'The title was changed to "{current}" while the AI was working. Replace it with "{title}"?',
+  'ai.confirmKeepPartial': '"{label}" was stopped. Keep the text generated so far?',
+  'ai.summaryHeading': '--- Summary ---',
+  'ai.newNoteTitle': '{name}: {title}',
+  'ai.promptInput': '{name}: {label}',
+
+  // --- AI Review ---
+  'review.title': 'Review AI changes: {title}',
+  'review.summary': '{count} changes, {accepted} accepted. Click a change to accept or reject it.',
+  'review.noChanges': 'The AI suggested no changes',
+  'review.accepted': 'Accepted, click to reject',
+  'review.rejected': 'Rejected, click to accept',
+  'review.acceptAll': 'Accept all',
+  'review.rejectAll': 'Reject all',
+  'review.discard': 'Discard',
+  'review.apply': 'Apply {count} changes',
+
+  // --- Suggestions ---
+  'suggest.heading': 'AI suggestions',
+  'suggest.title': 'Title',
+  'suggest.useTitle': 'Use',
+  'suggest.addTag': 'Add tag #{tag}',
+  'suggest.addAllTags': 'Add all',
+  'suggest.folder': 'Move to',
+  'suggest.moveNote': 'Move',
+  'suggest.dismiss': 'Dismiss suggestions',
+
+  // --- AI Errors ---
+  'error.summary': '{title}. {hint}',
+  'error.details': 'Show details',
+  'error.missingKey': 'No API key configured',
+  'error.missingKeyHint': 'Enter an API key in the settings.',
+  'error.auth': 'Invalid API key or missing permission',
+  'error.authHint': 'Check in the settings that the API key is correct and has access to the model.',
+  'error.rateLimit': 'Too many requests',
+  'error.rateLimitHint': 'Please try again shortly.',
+  'error.rateLimitWait': 'Please try again in {seconds} seconds.',
+  'error.quota': 'API quota used up',
+  'error.quotaHint': 'Wait for the quota to reset, or use a different API key in the settings.',
+  'error.safety': 'Blocked by the safety filter',
+  'error.safetyHint': 'The AI service refused to process this text. Edit it and try again.',
+  'error.network': 'Cannot reach the AI service',
+  'error.networkHint': 'Check your network connection and the service URL.',
+  'error.timeout': 'The AI service timed out',
+  'error.timeoutHint': 'The service is busy or the network is slow. Please try again later.',
+  'error.provider': 'The AI service returned an error',
+  'error.providerHint': 'Check the AI service settings, or try again later.',
+
+  // --- Chat ---
+  'chat.title': 'Chat with notes',
+  'chat.indexing': 'Indexing {done}/{total}...',
+  'chat.basedOn': 'Answers from {count} notes. Click a number to see the source',
+  'chat.newChat': 'New chat',
+  'chat.indexFailed': 'Failed to index notes: {title}. {hint}',
+  'chat.noSources': 'Nothing in your notes relates to this question.',
+  'chat.emptyAnswer': 'The AI returned no answer.',
+  'chat.stopped': 'Answer stopped.',
+  'chat.empty': 'Ask your notes a question, e.g. "Which books did I take notes on last month?"',
+  'chat.thinking': 'Thinking...',
+  'chat.placeholder': 'Ask a question. Enter to send, Shift+Enter for a new line',
+  'chat.send': 'Send',
+
+  // --- Duplicates ---
+  'duplicates.title': 'Duplicate notes',
+  'duplicates.summary': 'Found {count} groups of nearly identical notes. Pick the one to keep; the others are merged into it and moved to the trash.',
+  'duplicates.none': 'No duplicate notes found',
+  'duplicates.noContent': 'No content',
+  'duplicates.keep': 'Keep and merge',
+
+  // --- History ---
+  'history.title': 'Version history · {title}',
+  'history.reasonTyping': 'Before editing',
+  'history.reasonAi': 'Before AI',
+  'history.reasonRestore': 'Before restore',
+  'history.reasonMerge': 'Before merge',
+  'history.identical': 'Both versions are identical',
+  'history.empty': 'No versions yet. They are saved automatically as you edit or use AI.',
+  'history.compareWith': 'Compare with',
+  'history.current': 'Current version',
+  'history.byLine': 'Lines',
+  'history.byWord': 'Words',
+  'history.restore': 'Restore this version',
+
+  // --- Import ---
+  'import.title': 'Import notes',
+  'import.noFiles': 'No .md / .txt files to import were found.',
+  'import.readFailed': 'Could not read the files. Please check their format.',
+  'import.dropHint': 'Drop .md / .txt files, folders or ZIP archives here',
+  'import.chooseFiles': 'Choose files',
+  'import.chooseFolder': 'Choose folder',
+  'import.reading': 'Reading...',
+  'import.selection': '{count} files, {selected} selected',
+  'import.duplicateContent': 'Same content as: {title}',
+  'import.duplicateTitle': 'Same title as: {title}',
+  'import.droppedTags': 'Tags that cannot be kept as #tags: {tags}',
+  'import.keepFolders': 'Keep folder structure',
+  'import.submit': 'Import {count} notes',
+
+  // --- Backup & Restore ---
+  'restore.title': 'Restore from backup',
+  'restore.readFailed': 'Could not read the backup file.',
+  'restore.confirmReplace': 'Replacing deletes all current notes, folders and prompts. Continue?',
+  'restore.chooseOther': 'Choose another backup file',
+  'restore.choose': 'Choose a .json backup file',
+  'restore.exportedAt': 'Backed up: {date}',
+  'restore.contents': '{notes} notes · {folders} folders · {prompts} prompts',
+  'restore.mode': 'Restore mode',
+  'restore.merge': 'Merge into the current workspace',
+  'restore.replace': 'Replace the current workspace',
+  'restore.conflicts': 'Conflicts',
+  'restore.strategyNewer': 'Keep the newer version',
+  'restore.strategyLocal': 'Keep the local version',
+  'restore.strategyBackup': 'Use the backup version',
+  'restore.strategyBoth': 'Keep both',
+  'restore.resolvedLocal': 'Kept local',
+  'restore.resolvedBackup': 'Used backup',
+  'restore.resolvedBoth': 'Kept both',
+  'restore.done': 'Restore complete',
+  'restore.preview': 'Expected result',
+  'restore.report': '{added} added · {updated} updated · {unchanged} unchanged · {conflicts} conflicts',
+  'restore.conflictFolder': 'Folder: {title}',
+  'restore.conflictNote': 'Note: {title}',
+  'restore.untitled': 'Untitled',
+  'restore.submitReplace': 'Replace and restore',
+  'restore.submitMerge': 'Merge and restore',
+  'backup.invalidJson': 'The backup file is not valid JSON.',
+  'backup.notBackup': 'This is not a MindSpace backup file.',
+  'backup.missingVersion': 'The backup file has no valid version number.',
+  'backup.tooNew': 'The backup version ({version}) is newer than this app supports ({supported}). Please update the app first.',
+  'backup.untitledFolder': 'Untitled folder',
+  'backup.copySuffix': '{name} (backup)',
+
+  // --- Exports ---
+  'export.themeToggle': 'Light / Dark',
+  'export.meta': 'Created {created} · Updated {updated}',
+  'export.updatedAt': 'Updated {date}',
+  'export.backlinks': 'Backlinks',
+  'export.noteCount': '{count} notes',
+  'export.recent': 'Recently updated',
+  'export.contents': 'Contents',
+  'export.image': 'Image',
+  'export.fontFallback': 'Could not load the PDF font, so the built-in font was used. Chinese, Japanese and Korean text may not display correctly.',
+
+  // --- Settings ---
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.trash': 'Trash',
+  'settings.trashRetention': 'Automatically delete notes that have been in the trash for',
+  'settings.days': '{days} days',
+  'settings.never': 'Never',
+  'settings.pdf': 'PDF export',
+  'settings.paperSize': 'Paper size',
+  'settings.margin': 'Margins',
+  'settings.ai': 'AI service',
+  'settings.customPrompts': 'Custom AI prompts',
+  'settings.addPrompt': 'Add a prompt',
+  'settings.promptName': 'Name',
+  'settings.promptNamePlaceholder': 'e.g. Translate to Japanese',
+  'settings.promptTemplate': 'Template',
+  'settings.promptTemplateNote': '(without {{text}}, the note text is appended to the prompt)',
+  'settings.promptTemplatePlaceholder': 'e.g. Translate the following into {{input:Target language}}:\n\n{{text}}',
+  'settings.promptVariables': 'Variables: {{text}} selection or whole note · {{selection}} selection only · {{title}} title · {{date}} today · {{tags}} tags · {{input:Name}} asked when run',
+  'settings.promptSystem': 'System prompt (optional)',
+  'settings.promptSystemPlaceholder': 'e.g. You are a meticulous technical editor.',
+  'settings.promptModel': 'Model (optional)',
+  'settings.promptModelPlaceholder': 'Use the AI service setting',
+  'settings.promptTemperature': 'Temperature (0-2, optional)',
+  'settings.promptTemperaturePlaceholder': 'Default',
+  'settings.promptTarget': 'Output',
+  'settings.promptAdd': 'Add prompt',
+  'settings.savedPrompts': 'Saved prompts',
+  'settings.promptTemperatureInfo': 'Temperature {value}',
+  'settings.promptHasSystem': 'Has system prompt',
+  'settings.targetAppend': 'Append to the end',
+  'settings.targetReplace': 'Replace the text',
+  'settings.targetPrepend': 'Insert at the start',
+  'settings.targetCursor': 'Insert at the cursor',
+  'settings.targetTitle': 'Replace the title',
+  'settings.targetNewNote': 'Create a new note',
+
+  // --- AI Provider Settings ---
+  'provider.service': 'Provider',
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'OpenAI-compatible API',
+  'provider.mock': 'Mock (offline testing)',
+  'provider.model': 'Model',
+  'provider.baseUrl': 'Base URL',
+  'provider.apiKey': 'API key',
+  'provider.embeddingModel': 'Embedding model (note retrieval)',
+  'provider.geminiBaseUrl': 'Leave empty for the official endpoint',
+  'provider.geminiApiKey': 'Get one from Google AI Studio',
+  'provider.openaiApiKey': 'Optional for local servers',
+  'provider.keyLocked': 'Stored encrypted. Unlock it with your passphrase below',
+  'provider.testing': 'Testing...',
+  'provider.test': 'Test connection',
+  'provider.testOk': 'Connected',
+  'provider.testModels': 'Connected. {count} models are available under "Model"',
+  'provider.retrieval': 'Retrieval for chat with notes',
+  'provider.retrievalLocal': 'Local search (offline, notes stay on this device)',
+  'provider.retrievalProvider': 'Embedding model (more accurate, sends note text to the service)',
+  'provider.autoSuggest': 'Suggest titles, tags and folders in the background once a note stops changing',
+  'provider.autoSuggestHint': 'Note contents are sent to the AI service, at most {count} requests per hour.',
+  'provider.promptLanguage': 'Language of built-in AI prompts',
+  'provider.promptLanguageUi': 'Same as the interface',
+  'provider.promptLanguageNote': 'Same as the note',
+  'provider.keysLocked': 'API keys are stored encrypted. Enter your passphrase to unlock them',
+  'provider.keysEncrypted': 'API keys are stored on this device, encrypted with your passphrase',
+  'provider.keysPlain': 'API keys are stored only in this browser. Optionally set a passphrase to encrypt them',
+  'provider.removePassphrase': 'Remove encryption',
+  'provider.passphrase': 'Passphrase',
+  'provider.newPassphrase': 'Set a passphrase',
+  'provider.unlock': 'Unlock',
+  'provider.encrypt': 'Encrypt',
+  'provider.wrongPassphrase': 'Wrong passphrase',
+  'provider.confirmForget': 'Without the passphrase the stored API keys can only be cleared, and you will need to enter them again. Clear them?',
+  'provider.forgotPassphrase': 'Forgot your passphrase?'
+};
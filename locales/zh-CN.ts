@@ -0,0 +1,351 @@
+// Simplified Chinese UI strings. This bundle defines the message keys; every other
+// locale must translate all of them.
+
+export const zhCN = {
+  // --- Common ---
+  'common.untitledNote': '无标题笔记',
+  'common.untitled': '未命名',
+  'common.noContent': '暂无内容...',
+  'common.close': '关闭',
+  'common.clear': '清除',
+  'common.delete': '删除',
+  'common.restore': '恢复',
+  'common.stop': '停止',
+  'common.retry': '重试',
+  'common.loading': '加载中...',
+  'common.all': '全部',
+  'common.selectAll': '全选',
+  'common.selectNone': '全不选',
+  'common.done': '完成',
+  'common.title': '标题',
+
+  // --- App ---
+  'app.name': 'MindSpace 笔记',
+  'app.exportFailed': '导出失败',
+  'app.generatingPdf': '正在生成 PDF...',
+  'app.emptyState': '选择一个笔记或创建一个新笔记',
+  'app.loadFailed': '无法从浏览器存储中读取笔记，在重新加载成功之前，所做的修改不会被保存。',
+
+  // --- Notes ---
+  'note.newTitle': '新笔记',
+  'note.emptyExcerpt': '无额外内容',
+  'note.confirmDeleteForever': '确定要永久删除这条笔记吗？此操作无法撤销。',
+  'note.confirmEmptyTrash': '确定要永久删除回收站中的 {count} 条笔记吗？此操作无法撤销。',
+  'note.confirmUpdateLinks': '有 {count} 条笔记链接到“{oldTitle}”，是否将这些链接更新为“{newTitle}”？',
+  'note.confirmMerge': '将 {count} 条笔记合并到“{title}”？被合并的笔记会移入回收站。',
+  'note.welcomeTitle': '欢迎使用 MindSpace',
+  'note.welcomeExcerpt': '这是一个全新的极简工作区。',
+  'note.welcomeContent': '# 欢迎使用 MindSpace\n\n这是一个全新的极简工作区。\n\n## 功能介绍\n\n- **AI 增强**：尝试点击上方的“魔术棒”图标来体验功能，例如：\n  - 自动生成摘要\n  - 修正语法\n  - 续写内容\n  - **自定义指令**：点击设置图标，添加你自己的 AI 提示词！\n- **Markdown 支持**：点击右上角的眼睛图标即可预览 Markdown 格式。\n- **导出功能**：您可以将笔记导出为 TXT 或 PDF 文件，也支持批量导出。\n- **排序与整理**：支持按修改时间、创建时间或标题排序。\n- **深色模式**：点击侧边栏的月亮/太阳图标，随心切换主题。\n\n享受写作的乐趣吧！',
+
+  // --- Folders ---
+  'folder.namePrompt': '文件夹名称',
+  'folder.defaultName': '新建文件夹',
+  'folder.renamePrompt': '重命名文件夹',
+  'folder.confirmDelete': '确定要删除文件夹“{name}”吗？其中的笔记和子文件夹将移动到上一级。',
+  'folder.notebooks': '笔记本',
+  'folder.allNotebooks': '所有笔记本',
+  'folder.new': '新建文件夹',
+  'folder.newSubfolder': '新建子文件夹',
+  'folder.rename': '重命名',
+  'folder.delete': '删除文件夹',
+
+  // --- Sidebar ---
+  'sidebar.chat': '与笔记对话',
+  'sidebar.darkMode': '切换至深色模式',
+  'sidebar.lightMode': '切换至浅色模式',
+  'sidebar.sort': '排序',
+  'sidebar.sortBy': '排序方式',
+  'sidebar.sortUpdated': '修改时间 (最新)',
+  'sidebar.sortCreated': '创建时间 (最新)',
+  'sidebar.sortTitle': '标题 (A-Z)',
+  'sidebar.exportAllZip': '导出所有笔记 (ZIP)',
+  'sidebar.exportAllMarkdown': '导出所有笔记 (Markdown)',
+  'sidebar.exportAllPdf': '导出所有笔记 (PDF)',
+  'sidebar.exportSite': '导出为静态网站 (HTML)',
+  'sidebar.import': '导入笔记...',
+  'sidebar.findDuplicates': '查找重复笔记...',
+  'sidebar.backup': '备份工作区 (JSON)',
+  'sidebar.restore': '从备份恢复...',
+  'sidebar.settings': '设置',
+  'sidebar.searchPlaceholder': '搜索笔记...',
+  'sidebar.searchHint': '支持 "短语"、-排除词、tag:标签、in:文件夹',
+  'sidebar.favorites': '收藏',
+  'sidebar.trash': '回收站',
+  'sidebar.trashRetention': '笔记将在 {days} 天后自动清除',
+  'sidebar.trashKept': '回收站不会自动清空',
+  'sidebar.emptyTrash': '清空回收站',
+  'sidebar.noNotes': '没有找到笔记。',
+  'sidebar.deletedAt': '删除于 {date}',
+
+  // --- Tags ---
+  'tags.title': '标签',
+  'tags.matchAll': '同时包含所有选中的标签',
+  'tags.matchAny': '包含任一选中的标签',
+  'tags.any': '任一',
+
+  // --- Editor ---
+  'editor.lastEdited': '最后编辑：{date}',
+  'editor.undo': '撤销 (Ctrl+Z)',
+  'editor.redo': '重做 (Ctrl+Y)',
+  'editor.edit': '切换至编辑模式',
+  'editor.preview': '预览 Markdown',
+  'editor.history': '版本历史',
+  'editor.export': '导出笔记',
+  'editor.exportTxt': '导出为 TXT',
+  'editor.exportMarkdown': '导出为 Markdown',
+  'editor.exportHtml': '导出为 HTML',
+  'editor.exportPdf': '导出为 PDF',
+  'editor.favorite': '收藏笔记',
+  'editor.unfavorite': '取消收藏',
+  'editor.deleteForever': '永久删除',
+  'editor.moveToTrash': '移到回收站',
+  'editor.trashNotice': '此笔记位于回收站中，恢复后才能编辑。',
+  'editor.titlePlaceholder': '笔记标题',
+  'editor.contentPlaceholder': '开始输入...',
+  'editor.backlinks': '反向链接 ({count})',
+  'editor.noBacklinks': '暂无其他笔记链接到这里。使用 [[笔记标题]] 创建链接。',
+  'editor.related': '相关笔记 ({count})',
+  'editor.noRelated': '没有内容相近的笔记。',
+
+  // --- AI Actions ---
+  'ai.assistant': 'AI 助手',
+  'ai.actionSummarize': '总结',
+  'ai.actionFixGrammar': '修正语法',
+  'ai.actionContinue': '续写',
+  'ai.actionTitle': '生成标题',
+  'ai.actionRewrite': '改写润色',
+  'ai.actionTranslate': '中英互译',
+  'ai.actionCustom': '自定义指令',
+  'ai.menuSummarize': '生成摘要',
+  'ai.menuContinue': '智能续写',
+  'ai.selectionHint': '作用于选中的 {count} 个字符',
+  'ai.basic': '基础功能',
+  'ai.customPrompts': '自定义指令',
+  'ai.managePrompts': '管理指令',
+  'ai.noCustomPrompts': '暂无自定义指令',
+  'ai.generating': '{label}生成中...',
+  'ai.queued': '{label}排队中...',
+  'ai.moreQueued': '+{count} 排队',
+  'ai.stopGenerating': '停止生成',
+  'ai.failed': '「{label}」失败：{title}',
+  'ai.selectionChanged': '选中的内容已被修改，已取消「{label}」。',
+  'ai.confirmConflict': '“{title}”在「{label}」处理期间被修改，AI 结果无法放回原处。\n\n是否将结果追加到笔记末尾？选择“取消”将放弃结果。',
+  'ai.confirmTitleChanged': '标题在 AI 处理期间已改为“{current}”，是否替换为“{title}”？',
+  'ai.confirmKeepPartial': '已停止「{label}」。是否保留已生成的内容？',
+  'ai.summaryHeading': '--- 摘要 ---',
+  'ai.newNoteTitle': '{name}：{title}',
+  'ai.promptInput': '{name}：{label}',
+
+  // --- AI Review ---
+  'review.title': '审阅 AI 修改：{title}',
+  'review.summary': '共 {count} 处修改，已接受 {accepted} 处。点击单处修改可切换接受 / 拒绝。',
+  'review.noChanges': 'AI 没有提出任何修改',
+  'review.accepted': '已接受，点击拒绝',
+  'review.rejected': '已拒绝，点击接受',
+  'review.acceptAll': '全部接受',
+  'review.rejectAll': '全部拒绝',
+  'review.discard': '放弃',
+  'review.apply': '应用 {count} 处修改',
+
+  // --- Suggestions ---
+  'suggest.heading': 'AI 建议',
+  'suggest.title': '标题',
+  'suggest.useTitle': '采用',
+  'suggest.addTag': '添加标签 #{tag}',
+  'suggest.addAllTags': '全部添加',
+  'suggest.folder': '移到',
+  'suggest.moveNote': '移动',
+  'suggest.dismiss': '忽略建议',
+
+  // --- AI Errors ---
+  'error.summary': '{title}。{hint}',
+  'error.details': '查看详情',
+  'error.missingKey': '未配置 API Key',
+  'error.missingKeyHint': '请在设置中填写 API Key。',
+  'error.auth': 'API Key 无效或无权限',
+  'error.authHint': '请在设置中检查 API Key 是否正确、是否已启用对应模型。',
+  'error.rateLimit': '请求过于频繁',
+  'error.rateLimitHint': '请稍候再试。',
+  'error.rateLimitWait': '请在 {seconds} 秒后重试。',
+  'error.quota': 'API 配额已用完',
+  'error.quotaHint': '请等待配额重置，或在设置中更换 API Key。',
+  'error.safety': '内容被安全策略拦截',
+  'error.safetyHint': 'AI 服务拒绝处理这段内容，请修改内容后重试。',
+  'error.network': '无法连接 AI 服务',
+  'error.networkHint': '请检查网络连接和服务地址。',
+  'error.timeout': 'AI 服务响应超时',
+  'error.timeoutHint': '服务繁忙或网络较慢，请稍后重试。',
+  'error.provider': 'AI 服务返回错误',
+  'error.providerHint': '请检查 AI 服务设置，或稍后重试。',
+
+  // --- Chat ---
+  'chat.title': '与笔记对话',
+  'chat.indexing': '正在建立索引 {done}/{total}...',
+  'chat.basedOn': '基于 {count} 篇笔记回答，点击编号查看出处',
+  'chat.newChat': '新对话',
+  'chat.indexFailed': '建立笔记索引失败：{title}。{hint}',
+  'chat.noSources': '笔记中没有找到与这个问题相关的内容。',
+  'chat.emptyAnswer': 'AI 没有返回任何内容。',
+  'chat.stopped': '已停止回答。',
+  'chat.empty': '向你的笔记提问，例如「我上个月记录了哪些读书心得？」',
+  'chat.thinking': '思考中...',
+  'chat.placeholder': '输入问题，Enter 发送，Shift+Enter 换行',
+  'chat.send': '发送',
+
+  // --- Duplicates ---
+  'duplicates.title': '重复笔记',
+  'duplicates.summary': '找到 {count} 组内容几乎相同的笔记。选择要保留的一篇，其余笔记的内容会并入其中并移入回收站。',
+  'duplicates.none': '没有发现重复的笔记',
+  'duplicates.noContent': '无内容',
+  'duplicates.keep': '保留此篇并合并',
+
+  // --- History ---
+  'history.title': '版本历史 · {title}',
+  'history.reasonTyping': '编辑前',
+  'history.reasonAi': 'AI 操作前',
+  'history.reasonRestore': '恢复前',
+  'history.reasonMerge': '合并前',
+  'history.identical': '两个版本的内容相同',
+  'history.empty': '暂无历史版本。编辑或使用 AI 后会自动保存。',
+  'history.compareWith': '对比基准',
+  'history.current': '当前版本',
+  'history.byLine': '按行',
+  'history.byWord': '按词',
+  'history.restore': '恢复此版本',
+
+  // --- Import ---
+  'import.title': '导入笔记',
+  'import.noFiles': '没有找到可导入的 .md / .txt 文件。',
+  'import.readFailed': '读取文件失败，请确认文件格式正确。',
+  'import.dropHint': '拖入 .md / .txt 文件、文件夹或 ZIP 压缩包',
+  'import.chooseFiles': '选择文件',
+  'import.chooseFolder': '选择文件夹',
+  'import.reading': '正在读取...',
+  'import.selection': '共 {count} 个文件，已选择 {selected} 个',
+  'import.duplicateContent': '内容重复：{title}',
+  'import.duplicateTitle': '标题重复：{title}',
+  'import.droppedTags': '无法保留为 #标签 的标签：{tags}',
+  'import.keepFolders': '保留文件夹结构',
+  'import.submit': '导入 {count} 条笔记',
+
+  // --- Backup & Restore ---
+  'restore.title': '从备份恢复',
+  'restore.readFailed': '无法读取备份文件。',
+  'restore.confirmReplace': '替换模式将删除当前所有笔记、文件夹和指令，确定继续吗？',
+  'restore.chooseOther': '选择其他备份文件',
+  'restore.choose': '选择 .json 备份文件',
+  'restore.exportedAt': '备份时间：{date}',
+  'restore.contents': '{notes} 条笔记 · {folders} 个文件夹 · {prompts} 条指令',
+  'restore.mode': '恢复方式',
+  'restore.merge': '合并到当前工作区',
+  'restore.replace': '替换当前工作区',
+  'restore.conflicts': '冲突处理',
+  'restore.strategyNewer': '保留较新的版本',
+  'restore.strategyLocal': '保留本地版本',
+  'restore.strategyBackup': '使用备份中的版本',
+  'restore.strategyBoth': '两者都保留',
+  'restore.resolvedLocal': '保留本地',
+  'restore.resolvedBackup': '使用备份',
+  'restore.resolvedBoth': '两者都保留',
+  'restore.done': '恢复完成',
+  'restore.preview': '预计结果',
+  'restore.report': '新增 {added} · 更新 {updated} · 未变化 {unchanged} · 冲突 {conflicts}',
+  'restore.conflictFolder': '文件夹：{title}',
+  'restore.conflictNote': '笔记：{title}',
+  'restore.untitled': '无标题',
+  'restore.submitReplace': '替换并恢复',
+  'restore.submitMerge': '合并恢复',
+  'backup.invalidJson': '备份文件不是有效的 JSON。',
+  'backup.notBackup': '这不是 MindSpace 备份文件。',
+  'backup.missingVersion': '备份文件缺少有效的版本号。',
+  'backup.tooNew': '备份文件版本 ({version}) 比当前应用支持的版本 ({supported}) 更新，请先升级应用。',
+  'backup.untitledFolder': '未命名文件夹',
+  'backup.copySuffix': '{name} (备份)',
+
+  // --- Exports ---
+  'export.themeToggle': '浅色 / 深色',
+  'export.meta': '创建于 {created} · 更新于 {updated}',
+  'export.updatedAt': '更新于 {date}',
+  'export.backlinks': '反向链接',
+  'export.noteCount': '共 {count} 条笔记',
+  'export.recent': '最近更新',
+  'export.contents': '目录',
+  'export.image': '图片',
+  'export.fontFallback': '无法加载 PDF 字体，已改用内置字体，中文、日文和韩文可能无法正常显示。请检查网络连接。',
+
+  // --- Settings ---
+  'settings.title': '设置',
+  'settings.language': '界面语言',
+  'settings.trash': '回收站',
+  'settings.trashRetention': '自动清空已删除超过以下时间的笔记',
+  'settings.days': '{days} 天',
+  'settings.never': '从不',
+  'settings.pdf': 'PDF 导出',
+  'settings.paperSize': '纸张大小',
+  'settings.margin': '页边距',
+  'settings.ai': 'AI 服务',
+  'settings.customPrompts': '自定义 AI 指令',
+  'settings.addPrompt': '添加新指令',
+  'settings.promptName': '指令名称',
+  'settings.promptNamePlaceholder': '例如：翻译成日文',
+  'settings.promptTemplate': '指令模板',
+  'settings.promptTemplateNote': '(未使用 {{text}} 时，笔记内容附加在指令之后)',
+  'settings.promptTemplatePlaceholder': '例如：请将以下内容翻译成{{input:目标语言}}：\n\n{{text}}',
+  'settings.promptVariables': '可用变量：{{text}} 选中内容或全文 · {{selection}} 仅选中内容 · {{title}} 标题 · {{date}} 今天日期 · {{tags}} 标签 · {{input:名称}} 运行时询问',
+  'settings.promptSystem': '系统提示词 (可选)',
+  'settings.promptSystemPlaceholder': '例如：你是一位严谨的技术编辑。',
+  'settings.promptModel': '模型 (可选)',
+  'settings.promptModelPlaceholder': '使用 AI 服务设置',
+  'settings.promptTemperature': '温度 (0-2，可选)',
+  'settings.promptTemperaturePlaceholder': '默认',
+  'settings.promptTarget': '输出位置',
+  'settings.promptAdd': '添加指令',
+  'settings.savedPrompts': '已保存指令',
+  'settings.promptTemperatureInfo': '温度 {value}',
+  'settings.promptHasSystem': '含系统提示词',
+  'settings.targetAppend': '追加到末尾',
+  'settings.targetReplace': '替换原文',
+  'settings.targetPrepend': '插入到开头',
+  'settings.targetCursor': '插入到光标处',
+  'settings.targetTitle': '替换标题',
+  'settings.targetNewNote': '创建新笔记',
+
+  // --- AI Provider Settings ---
+  'provider.service': '服务提供方',
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'OpenAI 兼容接口',
+  'provider.mock': '模拟 (离线测试)',
+  'provider.model': '模型',
+  'provider.baseUrl': '接口地址 (Base URL)',
+  'provider.apiKey': 'API Key',
+  'provider.embeddingModel': '向量模型 (笔记检索)',
+  'provider.geminiBaseUrl': '留空使用官方接口',
+  'provider.geminiApiKey': '在 Google AI Studio 获取',
+  'provider.openaiApiKey': '本地服务可留空',
+  'provider.keyLocked': '已加密保存，请先在下方输入密码解锁',
+  'provider.testing': '测试中...',
+  'provider.test': '测试连接',
+  'provider.testOk': '连接成功',
+  'provider.testModels': '连接成功，可在“模型”中选择 {count} 个可用模型',
+  'provider.retrieval': '与笔记对话的检索方式',
+  'provider.retrievalLocal': '本地检索 (离线，不上传笔记)',
+  'provider.retrievalProvider': '使用向量模型 (更准确，笔记内容会发送给服务)',
+  'provider.autoSuggest': '笔记停止编辑后，在后台建议标题、标签和文件夹',
+  'provider.autoSuggestHint': '笔记内容会发送给 AI 服务，每小时最多 {count} 次请求。',
+  'provider.promptLanguage': '内置 AI 指令的语言',
+  'provider.promptLanguageUi': '跟随界面语言',
+  'provider.promptLanguageNote': '跟随笔记语言',
+  'provider.keysLocked': 'API Key 已加密保存，输入密码解锁',
+  'provider.keysEncrypted': 'API Key 已使用密码加密保存在本机',
+  'provider.keysPlain': 'API Key 仅保存在本机浏览器中，可设置密码加密保存 (可选)',
+  'provider.removePassphrase': '取消加密',
+  'provider.passphrase': '密码',
+  'provider.newPassphrase': '设置密码',
+  'provider.unlock': '解锁',
+  'provider.encrypt': '加密',
+  'provider.wrongPassphrase': '密码不正确',
+  'provider.confirmForget': '忘记密码时只能清除已保存的 API Key，之后需要重新填写。确定清除吗？',
+  'provider.forgotPassphrase': '忘记密码？'
+};
+
+export type MessageKey = keyof typeof zhCN;
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { AuthError, ProviderError, RateLimitError, describeAIError } from './aiErrors';
+import { t } from './i18n';
+
+describe('describeAIError', () => {
+  it('describes each kind of failure', () => {
+    expect(describeAIError(new AuthError('bad key'))).toEqual({
+      title: t('error.auth'),
+      hint: t('error.authHint'),
+      detail: 'bad key'
+    });
+    expect(describeAIError(new TypeError('Failed to fetch')).title).toBe(t('error.network'));
+    expect(describeAIError(Object.assign(new Error('Server'), { status: 500 })).title).toBe(t('error.provider'));
+  });
+
+  it('tells how long to wait for a rate limit and flags exhausted quotas', () => {
+    expect(describeAIError(new RateLimitError('Slow down', 1500, false)).hint).toBe(t('error.rateLimitWait', { seconds: 2 }));
+    expect(describeAIError(new RateLimitError('Quota', null, true))).toMatchObject({
+      title: t('error.quota'),
+      hint: t('error.quotaHint')
+    });
+  });
+
+  it('shortens long provider messages', () => {
+    expect(describeAIError(new ProviderError('x'.repeat(1000), 500)).detail).toHaveLength(300);
+  });
+});
@@ -0,0 +1,169 @@
+import { t, MessageKey } from './i18n';
+
+// Typed failures for AI requests. Providers throw these where they know the cause;
+// anything else is classified by `toAIError`, so callers only ever see an AIError
+// (or an AbortError when the user stopped the request).
+
+export type AIErrorKind = 'missingKey' | 'auth' | 'rateLimit' | 'safety' | 'network' | 'timeout' | 'provider';
+
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly retryable: boolean; // worth sending the same request again automatically
+
+  constructor(kind: AIErrorKind, message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class MissingKeyError extends AIError {
+  constructor(message = 'API key is missing') {
+    super('missingKey', message, false);
+    this.name = 'MissingKeyError';
+  }
+}
+
+export class AuthError extends AIError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('auth', message, false, options);
+    this.name = 'AuthError';
+  }
+}
+
+// Per-minute limits pass after a short wait and are retried; an exhausted quota is not
+export class RateLimitError extends AIError {
+  readonly retryAfterMs: number | null;
+  readonly quotaExhausted: boolean;
+
+  constructor(message: string, retryAfterMs: number | null, quotaExhausted: boolean, options?: { cause?: unknown }) {
+    super('rateLimit', message, !quotaExhausted, options);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+    this.quotaExhausted = quotaExhausted;
+  }
+}
+
+export class SafetyBlockError extends AIError {
+  constructor(message: string) {
+    super('safety', message, false);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class NetworkError extends AIError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('network', message, true, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class RequestTimeoutError extends AIError {
+  constructor(timeoutMs: number) {
+    super('timeout', `No response within ${Math.round(timeoutMs / 1000)}s`, true);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+// Any other error reported by the service; server-side failures are retried
+export class ProviderError extends AIError {
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null, options?: { cause?: unknown }) {
+    super('provider', message, status !== null && status >= 500, options);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Gemini reports the wait as `"retryDelay": "37s"`; HTTP APIs send a Retry-After header
+const parseRetryDelay = (message: string, retryAfterHeader?: string | null): number | null => {
+  if (retryAfterHeader) {
+    const seconds = Number(retryAfterHeader);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfterHeader);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  return match ? Number(match[1]) * 1000 : null;
+};
+
+// Classifies an HTTP failure by status code and response text
+export const errorFromResponse = (
+  status: number,
+  message: string,
+  retryAfterHeader?: string | null,
+  cause?: unknown
+): AIError => {
+  if (status === 401 || status === 403 || (status === 400 && /api[ _-]?key/i.test(message))) {
+    return new AuthError(message, { cause });
+  }
+  if (status === 429) {
+    const retryAfterMs = parseRetryDelay(message, retryAfterHeader);
+    // Daily and billing quotas say so; plain rate limits come with a short delay or none
+    const quotaExhausted = /per[ _]?day|daily|billing|insufficient_quota|exceeded your current quota/i.test(message) &&
+      (retryAfterMs === null || retryAfterMs > 60_000);
+    return new RateLimitError(message, retryAfterMs, quotaExhausted, { cause });
+  }
+  return new ProviderError(message, status, { cause });
+};
+
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  // Gemini SDK errors carry the HTTP status
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return errorFromResponse(status, message, null, error);
+  // fetch rejects with a TypeError when the server can't be reached
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new NetworkError(message, { cause: error });
+  }
+  return new ProviderError(message, null, { cause: error });
+};
+
+// --- Messages ---
+
+const ERROR_TITLES: Record<AIErrorKind, MessageKey> = {
+  missingKey: 'error.missingKey',
+  auth: 'error.auth',
+  rateLimit: 'error.rateLimit',
+  safety: 'error.safety',
+  network: 'error.network',
+  timeout: 'error.timeout',
+  provider: 'error.provider'
+};
+
+const ERROR_HINTS: Record<AIErrorKind, MessageKey> = {
+  missingKey: 'error.missingKeyHint',
+  auth: 'error.authHint',
+  rateLimit: 'error.rateLimitHint',
+  safety: 'error.safetyHint',
+  network: 'error.networkHint',
+  timeout: 'error.timeoutHint',
+  provider: 'error.providerHint'
+};
+
+export interface AIErrorDescription {
+  title: string;
+  hint: string;
+  detail: string; // the provider's own message, for diagnosis
+}
+
+export const describeAIError = (error: unknown): AIErrorDescription => {
+  const aiError = toAIError(error);
+  let title = t(ERROR_TITLES[aiError.kind]);
+  let hint = t(ERROR_HINTS[aiError.kind]);
+  if (aiError instanceof RateLimitError) {
+    if (aiError.quotaExhausted) {
+      title = t('error.quota');
+      hint = t('error.quotaHint');
+    } else if (aiError.retryAfterMs) {
+      hint = t('error.rateLimitWait', { seconds: Math.ceil(aiError.retryAfterMs / 1000) });
+    }
+  }
+  return { title, hint, detail: aiError.message.slice(0, 300) };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AI_PROVIDERS } from './aiProviders';
+
+const mock = AI_PROVIDERS.mock;
+const config = mock.defaults;
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  let text = '';
+  for await (const chunk of chunks) text += chunk;
+  return text;
+};
+
+describe('mock provider', () => {
+  it('returns the same reply for the same request', async () => {
+    const request = { prompt: 'Summarize:\n\nThe quick brown fox', system: 'Be brief' };
+    const first = await mock.generate(request, config);
+    expect(await mock.generate(request, config)).toBe(first);
+    expect(first).toMatch(/^\[mock [0-9a-f]{8}\] The quick brown fox$/);
+  });
+
+  it('gives different replies for different prompts, system prompts and models', async () => {
+    const replies = await Promise.all([
+      mock.generate({ prompt: 'a' }, config),
+      mock.generate({ prompt: 'b' }, config),
+      mock.generate({ prompt: 'a', system: 'x' }, config),
+      mock.generate({ prompt: 'a' }, { ...config, model: 'other' })
+    ]);
+    expect(new Set(replies).size).toBe(replies.length);
+  });
+
+  it('streams the reply that generate returns', async () => {
+    const request = { prompt: 'Translate:\n\nHello world' };
+    expect(await collect(mock.stream!(request, config))).toBe(await mock.generate(request, config));
+  });
+
+  it('rejects generate when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(mock.generate({ prompt: 'a', signal: controller.signal }, config))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController();
+    const received: string[] = [];
+    const run = async () => {
+      for await (const chunk of mock.stream!({ prompt: 'A longer text to stream', signal: controller.signal }, config)) {
+        received.push(chunk);
+        controller.abort();
+      }
+    };
+    await expect(run()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(received).toHaveLength(1);
+  });
+});
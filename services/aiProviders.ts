@@ -0,0 +1,293 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AIProviderConfig, AIProviderId, AISettings } from "../types";
+import { fnv1a } from "./hash";
+import { MissingKeyError, SafetyBlockError, errorFromResponse } from "./aiErrors";
+
+// Backends that turn a prompt into text. Actions and prompts live in aiService.ts;
+// providers only know how to talk to their endpoint. Failures they can identify are
+// thrown as the typed errors from aiErrors.ts; retries and timeouts are up to the caller.
+
+export interface AIRequest {
+  prompt: string;
+  system?: string;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingRequest {
+  texts: string[];
+  signal?: AbortSignal;
+}
+
+export type AIProviderField = keyof AIProviderConfig;
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string; // for logs; settings show a translated name
+  defaults: AIProviderConfig;
+  fields: AIProviderField[]; // settings shown for this provider
+  generate: (request: AIRequest, config: AIProviderConfig) => Promise<string>;
+  // Yields text deltas as they arrive; providers without it fall back to `generate`
+  stream?: (request: AIRequest, config: AIProviderConfig) => AsyncIterable<string>;
+  // One vector per input text, in order; providers without it are indexed locally
+  embed?: (request: EmbeddingRequest, config: AIProviderConfig) => Promise<number[][]>;
+  // Text models the endpoint offers, for picking one in the settings
+  listModels?: (config: AIProviderConfig, signal?: AbortSignal) => Promise<string[]>;
+}
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+// --- Gemini ---
+
+const geminiClients = new Map<string, GoogleGenAI>();
+
+const getGeminiClient = (apiKey: string, baseUrl: string) => {
+  const cacheKey = `${apiKey}\n${baseUrl}`;
+  let client = geminiClients.get(cacheKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+    geminiClients.set(cacheKey, client);
+  }
+  return client;
+};
+
+const requireGeminiKey = (config: AIProviderConfig) => {
+  if (!config.apiKey) {
+    throw new MissingKeyError();
+  }
+  return config.apiKey;
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// A blocked request comes back as a normal response with no text, only the reason
+const blockReasonOf = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) return `Prompt blocked: ${blockReason}`;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return finishReason && BLOCKED_FINISH_REASONS.includes(finishReason) ? `Response blocked: ${finishReason}` : null;
+};
+
+const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaults: { model: 'gemini-2.5-flash', baseUrl: '', apiKey: '', embeddingModel: 'text-embedding-004' },
+  fields: ['apiKey', 'model', 'embeddingModel', 'baseUrl'],
+  generate: async ({ prompt, system, temperature, signal }, config) => {
+    const response = await getGeminiClient(requireGeminiKey(config), config.baseUrl).models.generateContent({
+      model: config.model,
+      contents: prompt,
+      config: { abortSignal: signal, systemInstruction: system, temperature }
+    });
+    const text = response.text?.trim() || '';
+    const blocked = text ? null : blockReasonOf(response);
+    if (blocked) throw new SafetyBlockError(blocked);
+    return text;
+  },
+  stream: async function* ({ prompt, system, temperature, signal }, config) {
+    const chunks = await getGeminiClient(requireGeminiKey(config), config.baseUrl).models.generateContentStream({
+      model: config.model,
+      contents: prompt,
+      config: { abortSignal: signal, systemInstruction: system, temperature }
+    });
+    let received = false;
+    for await (const chunk of chunks) {
+      if (chunk.text) {
+        received = true;
+        yield chunk.text;
+      }
+      const blocked = received ? null : blockReasonOf(chunk);
+      if (blocked) throw new SafetyBlockError(blocked);
+    }
+  },
+  embed: async ({ texts, signal }, config) => {
+    const response = await getGeminiClient(requireGeminiKey(config), config.baseUrl).models.embedContent({
+      model: config.embeddingModel,
+      contents: texts,
+      config: { abortSignal: signal }
+    });
+    return (response.embeddings || []).map(embedding => embedding.values || []);
+  },
+  listModels: async (config, signal) => {
+    const pager = await getGeminiClient(requireGeminiKey(config), config.baseUrl).models.list({
+      config: { abortSignal: signal }
+    });
+    const models: string[] = [];
+    for await (const model of pager) {
+      if (model.name && model.supportedActions?.includes('generateContent')) {
+        models.push(model.name.replace(/^models\//, ''));
+      }
+    }
+    return models;
+  }
+};
+
+// --- OpenAI-compatible (OpenAI, Ollama, llama.cpp server, LM Studio...) ---
+
+// POSTs `body` as JSON, or GETs without one
+const requestOpenAI = async (path: string, body: object | null, config: AIProviderConfig, signal?: AbortSignal) => {
+  const headers: Record<string, string> = body ? { 'Content-Type': 'application/json' } : {};
+  // Local servers usually run without authentication
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  const response = await fetch(`${trimTrailingSlash(config.baseUrl)}${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+    signal
+  });
+  if (!response.ok) {
+    throw errorFromResponse(
+      response.status,
+      `OpenAI-compatible API error ${response.status}: ${await response.text()}`,
+      response.headers.get('Retry-After')
+    );
+  }
+  return response;
+};
+
+const requestChatCompletion = ({ prompt, system, temperature, signal }: AIRequest, config: AIProviderConfig, stream: boolean) =>
+  requestOpenAI('/chat/completions', {
+    model: config.model,
+    messages: [
+      ...(system ? [{ role: 'system', content: system }] : []),
+      { role: 'user', content: prompt }
+    ],
+    temperature,
+    stream
+  }, config, signal);
+
+// Server-sent events: `data: {json}` lines, terminated by `data: [DONE]`
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const data = trimmed.slice('data:'.length).trim();
+        if (data === '[DONE]') return;
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const openAIProvider: AIProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaults: { model: 'llama3.1', baseUrl: 'http://localhost:11434/v1', apiKey: '', embeddingModel: 'nomic-embed-text' },
+  fields: ['model', 'embeddingModel', 'baseUrl', 'apiKey'],
+  generate: async (request, config) => {
+    const response = await requestChatCompletion(request, config, false);
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    if (choice?.finish_reason === 'content_filter' && !choice.message?.content) {
+      throw new SafetyBlockError('Response blocked: content_filter');
+    }
+    return String(choice?.message?.content ?? '').trim();
+  },
+  stream: async function* (request, config) {
+    const response = await requestChatCompletion(request, config, true);
+    if (!response.body) return;
+    let received = false;
+    for await (const data of readServerSentEvents(response.body)) {
+      const choice = JSON.parse(data).choices?.[0];
+      if (choice?.delta?.content) {
+        received = true;
+        yield choice.delta.content;
+      }
+      if (!received && choice?.finish_reason === 'content_filter') {
+        throw new SafetyBlockError('Response blocked: content_filter');
+      }
+    }
+  },
+  embed: async ({ texts, signal }, config) => {
+    const response = await requestOpenAI('/embeddings', { model: config.embeddingModel, input: texts }, config, signal);
+    const data = await response.json();
+    // Entries carry their input position; don't rely on response order
+    return [...(data.data || [])]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((entry: { embedding: number[] }) => entry.embedding);
+  },
+  listModels: async (config, signal) => {
+    const response = await requestOpenAI('/models', null, config, signal);
+    const data = await response.json();
+    return (data.data || []).map((model: { id: string }) => model.id).sort();
+  }
+};
+
+// --- Mock ---
+
+// Hashed, so the same prompt always yields the same reply
+const hashPrompt = (prompt: string) => fnv1a(prompt).toString(16).padStart(8, '0');
+
+const mockReply = ({ prompt, system }: AIRequest, config: AIProviderConfig) => {
+  const text = prompt.split('\n\n').pop()?.trim() || '';
+  return `[${config.model || 'mock'} ${hashPrompt(system ? `${system}\n\n${prompt}` : prompt)}] ${text.slice(0, 200)}`;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+};
+
+// Deterministic offline provider for development and tests; echoes the note text
+const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock',
+  defaults: { model: 'mock', baseUrl: '', apiKey: '', embeddingModel: '' },
+  fields: ['model'],
+  generate: async (request, config) => {
+    throwIfAborted(request.signal);
+    return mockReply(request, config);
+  },
+  // Emits the same reply a few characters at a time to exercise streaming UI
+  stream: async function* (request, config) {
+    const reply = mockReply(request, config);
+    for (let i = 0; i < reply.length; i += 4) {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      throwIfAborted(request.signal);
+      yield reply.slice(i, i + 4);
+    }
+  }
+};
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  mock: mockProvider
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  providerId: 'gemini',
+  providers: {
+    gemini: geminiProvider.defaults,
+    openai: openAIProvider.defaults,
+    mock: mockProvider.defaults
+  },
+  retrieval: 'local',
+  promptLanguage: 'ui',
+  autoSuggest: false
+};
+
+// Fills gaps in stored settings, e.g. providers added after the settings were saved
+export const normalizeAISettings = (raw: Partial<AISettings> | null | undefined): AISettings => {
+  const providerId = raw?.providerId && raw.providerId in AI_PROVIDERS ? raw.providerId : DEFAULT_AI_SETTINGS.providerId;
+  const providers = { ...DEFAULT_AI_SETTINGS.providers };
+  (Object.keys(AI_PROVIDERS) as AIProviderId[]).forEach(id => {
+    providers[id] = { ...AI_PROVIDERS[id].defaults, ...raw?.providers?.[id] };
+  });
+  const retrieval = raw?.retrieval === 'provider' ? 'provider' : 'local';
+  const promptLanguage = raw?.promptLanguage === 'note' ? 'note' : 'ui';
+  const autoSuggest = raw?.autoSuggest === true;
+  return { providerId, providers, retrieval, promptLanguage, autoSuggest };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AIJob, createAIJobQueue } from './aiQueue';
+
+// A runner that stays pending until the test settles it
+const deferredRunner = () => {
+  let resolve!: () => void;
+  let signal: AbortSignal | null = null;
+  const run = vi.fn((s: AbortSignal) => {
+    signal = s;
+    return new Promise<void>((res, rej) => {
+      resolve = res;
+      s.addEventListener('abort', () => rej(new DOMException('Aborted', 'AbortError')));
+    });
+  });
+  return { run, finish: () => resolve(), signal: () => signal };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const job = (noteId: string, label = 'job') => ({ noteId, label, locksNote: true });
+
+describe('createAIJobQueue', () => {
+  it('runs jobs for the same note one at a time, in order', async () => {
+    const queue = createAIJobQueue(3);
+    const first = deferredRunner();
+    const second = deferredRunner();
+    queue.enqueue(job('a'), first.run);
+    queue.enqueue(job('a'), second.run);
+
+    expect(first.run).toHaveBeenCalledTimes(1);
+    expect(second.run).not.toHaveBeenCalled();
+
+    first.finish();
+    await flush();
+    expect(second.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs jobs for different notes side by side up to the concurrency limit', async () => {
+    const queue = createAIJobQueue(2);
+    const runners = ['a', 'b', 'c'].map(noteId => {
+      const runner = deferredRunner();
+      queue.enqueue(job(noteId), runner.run);
+      return runner;
+    });
+
+    expect(runners.map(r => r.run.mock.calls.length)).toEqual([1, 1, 0]);
+    runners[1].finish();
+    await flush();
+    expect(runners[2].run).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets another note overtake jobs waiting on a busy note', () => {
+    const queue = createAIJobQueue(2);
+    const first = deferredRunner();
+    const waiting = deferredRunner();
+    const other = deferredRunner();
+    queue.enqueue(job('a'), first.run);
+    queue.enqueue(job('a'), waiting.run);
+    queue.enqueue(job('b'), other.run);
+
+    expect(waiting.run).not.toHaveBeenCalled();
+    expect(other.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops a queued job on cancel and aborts a running one', async () => {
+    const queue = createAIJobQueue(1);
+    const running = deferredRunner();
+    const queued = deferredRunner();
+    const next = deferredRunner();
+    let jobs: AIJob[] = [];
+    queue.subscribe(list => { jobs = list; });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const runningId = queue.enqueue(job('a'), running.run);
+    const queuedId = queue.enqueue(job('b'), queued.run);
+    queue.enqueue(job('c'), next.run);
+
+    queue.cancel(queuedId);
+    expect(jobs.map(j => j.id)).not.toContain(queuedId);
+
+    queue.cancel(runningId);
+    expect(running.signal()?.aborted).toBe(true);
+    await flush();
+
+    expect(queued.run).not.toHaveBeenCalled();
+    expect(next.run).toHaveBeenCalledTimes(1);
+    expect(jobs.map(j => j.status)).toEqual(['running']);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,89 @@
+// Queue for AI requests. Jobs for different notes run side by side up to a concurrency
+// limit; jobs for the same note run one at a time, in the order they were requested,
+// so each one starts from the note as the previous job left it.
+
+export interface AIJob {
+  id: string;
+  noteId: string;
+  label: string;
+  status: 'queued' | 'running';
+  locksNote: boolean; // output is written into the note while it runs
+}
+
+export type AIJobRunner = (signal: AbortSignal) => Promise<void>;
+
+export interface AIJobQueue {
+  enqueue(job: Omit<AIJob, 'id' | 'status'>, run: AIJobRunner): string;
+  // Drops a queued job, or aborts a running one
+  cancel(jobId: string): void;
+  subscribe(listener: (jobs: AIJob[]) => void): () => void;
+}
+
+interface Entry {
+  job: AIJob;
+  run: AIJobRunner;
+  controller: AbortController;
+}
+
+export const createAIJobQueue = (concurrency: number): AIJobQueue => {
+  let entries: Entry[] = [];
+  let nextId = 0;
+  const listeners = new Set<(jobs: AIJob[]) => void>();
+
+  const notify = () => {
+    const jobs = entries.map(entry => entry.job);
+    listeners.forEach(listener => listener(jobs));
+  };
+
+  const finish = (entry: Entry) => {
+    entries = entries.filter(e => e !== entry);
+    notify();
+    pump();
+  };
+
+  const pump = () => {
+    const running = entries.filter(e => e.job.status === 'running');
+    const busyNotes = new Set(running.map(e => e.job.noteId));
+    let slots = concurrency - running.length;
+    let started = false;
+
+    entries.forEach(entry => {
+      if (slots <= 0 || entry.job.status !== 'queued' || busyNotes.has(entry.job.noteId)) return;
+      entry.job = { ...entry.job, status: 'running' };
+      busyNotes.add(entry.job.noteId);
+      slots--;
+      started = true;
+      entry.run(entry.controller.signal)
+        .catch(error => console.error('AI job failed', error))
+        .finally(() => finish(entry));
+    });
+    if (started) notify();
+  };
+
+  return {
+    enqueue(job, run) {
+      const id = `ai-job-${nextId++}`;
+      entries = [...entries, { job: { ...job, id, status: 'queued' }, run, controller: new AbortController() }];
+      notify();
+      pump();
+      return id;
+    },
+
+    cancel(jobId) {
+      const entry = entries.find(e => e.job.id === jobId);
+      if (!entry) return;
+      if (entry.job.status === 'running') {
+        entry.controller.abort();
+        return;
+      }
+      entries = entries.filter(e => e !== entry);
+      notify();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      listener(entries.map(entry => entry.job));
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
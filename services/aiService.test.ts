@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIRequest, AI_PROVIDERS, DEFAULT_AI_SETTINGS } from './aiProviders';
+import { AuthError, NetworkError, ProviderError, RateLimitError } from './aiErrors';
+import { generateText } from './aiService';
+
+const settings = { ...DEFAULT_AI_SETTINGS, providerId: 'mock' as const };
+
+// Replies to each call in turn: an Error is thrown, 'hang' waits until the attempt is aborted
+const scriptProvider = (...steps: (string | Error | 'hang')[]) => {
+  const signals: AbortSignal[] = [];
+  const generate = vi.spyOn(AI_PROVIDERS.mock, 'generate').mockImplementation(({ signal }: AIRequest) => {
+    signals.push(signal!);
+    const step = steps[Math.min(signals.length, steps.length) - 1];
+    if (step instanceof Error) return Promise.reject(step);
+    if (step !== 'hang') return Promise.resolve(step);
+    return new Promise<string>((_, reject) =>
+      signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))));
+  });
+  return { generate, signals };
+};
+
+describe('generateText retries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries server errors with backoff', async () => {
+    const { generate } = scriptProvider(new ProviderError('Bad gateway', 502), 'ok');
+    const result = generateText('hi', settings);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(generate).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1250);
+    await expect(result).resolves.toBe('ok');
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries SDK errors that carry a 5xx status and network failures', async () => {
+    const overloaded = Object.assign(new Error('Overloaded'), { status: 503 });
+    const { generate } = scriptProvider(overloaded, new TypeError('Failed to fetch'), 'ok');
+    const result = generateText('hi', settings);
+    await vi.advanceTimersByTimeAsync(10_000);
+    await expect(result).resolves.toBe('ok');
+    expect(generate).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as a rate limit asks before retrying', async () => {
+    const { generate } = scriptProvider(new RateLimitError('Slow down', 5000, false), 'ok');
+    const result = generateText('hi', settings);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(generate).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('reports rate limits that ask for a long wait instead of waiting', async () => {
+    const { generate } = scriptProvider(new RateLimitError('Slow down', 120_000, false), 'ok');
+    await expect(generateText('hi', settings)).rejects.toBeInstanceOf(RateLimitError);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['client errors', new ProviderError('Bad request', 400)],
+    ['auth errors', new AuthError('Invalid key')],
+    ['exhausted quotas', new RateLimitError('Quota', null, true)]
+  ])('does not retry %s', async (_, error) => {
+    const { generate } = scriptProvider(error, 'ok');
+    await expect(generateText('hi', settings)).rejects.toBe(error);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after three retries', async () => {
+    const { generate } = scriptProvider(new NetworkError('Offline'));
+    const result = expect(generateText('hi', settings)).rejects.toBeInstanceOf(NetworkError);
+    await vi.advanceTimersByTimeAsync(60_000);
+    await result;
+    expect(generate).toHaveBeenCalledTimes(4);
+  });
+
+  it('aborts a silent attempt after the timeout and retries it', async () => {
+    const { generate, signals } = scriptProvider('hang', 'ok');
+    const result = generateText('hi', settings);
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(signals[0].aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(signals[0].aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(1250);
+    await expect(result).resolves.toBe('ok');
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a timeout once every attempt stayed silent', async () => {
+    scriptProvider('hang');
+    const result = expect(generateText('hi', settings)).rejects.toMatchObject({ kind: 'timeout' });
+    await vi.advanceTimersByTimeAsync(4 * 60_000 + 10_000);
+    await result;
+  });
+
+  it('stops with an AbortError when the caller aborts, without retrying', async () => {
+    const { generate } = scriptProvider('hang');
+    const controller = new AbortController();
+    const result = expect(generateText('hi', settings, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await result;
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry a stream once text has been shown', async () => {
+    const error = new ProviderError('Reset', 503);
+    const stream = vi.spyOn(AI_PROVIDERS.mock, 'stream').mockImplementation(async function* () {
+      yield 'partial';
+      throw error;
+    });
+    const onText = vi.fn();
+    await expect(generateText('hi', settings, { onText })).rejects.toBe(error);
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(onText).toHaveBeenCalledWith('partial');
+  });
+});
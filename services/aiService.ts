@@ -0,0 +1,441 @@
+import { AIActionType, AISettings, CustomPrompt } from "../types";
+import { AI_PROVIDERS } from "./aiProviders";
+import { AIError, ProviderError, RateLimitError, RequestTimeoutError, isAbortError, toAIError } from "./aiErrors";
+import { Embedder, localEmbedder } from "./noteEmbeddings";
+import { TemplateVariables, renderTemplate, usesTextVariable } from "./promptTemplate";
+import { Locale, detectLanguage, getLocale } from "./i18n";
+import { extractTags, normalizeTag } from "./tags";
+
+// --- Built-in Prompts ---
+
+interface PromptBundle {
+  // Instructions for the built-in actions; the text follows after a blank line
+  actions: Partial<Record<AIActionType, string>>;
+  noteContext: string;
+  chat: {
+    instructions: string[];
+    untitled: string;
+    quote: (title: string) => string;
+    user: string;
+    assistant: string;
+    sources: string;
+    history: string;
+    question: string;
+  };
+  // Background title, tag and folder suggestions
+  suggest: {
+    instructions: string;
+    title: (wanted: boolean) => string;
+    tags: (knownTags: string[], noteTags: string[]) => string;
+    folder: (folders: string[]) => string;
+  };
+}
+
+const PROMPTS: Record<Locale, PromptBundle> = {
+  'zh-CN': {
+    actions: {
+      [AIActionType.SUMMARIZE]: '请将以下笔记总结为一段简洁的文字：',
+      [AIActionType.FIX_GRAMMAR]: '请修改以下文本的语法和拼写错误，保持语气自然且符合中文表达习惯：',
+      [AIActionType.CONTINUE_WRITING]: '请根据上下文富有创意地续写以下文本，增加约 2-3 句话：',
+      [AIActionType.GENERATE_TITLE]: '请为以下笔记内容生成一个简短、吸引人的标题（最多 15 个汉字）。只返回标题文本，不要加引号：',
+      [AIActionType.REWRITE]: '请改写以下文本，使表达更清晰流畅，保持原意不变。只返回改写后的文本：',
+      [AIActionType.TRANSLATE]: '请翻译以下文本：原文是中文则译为英文，否则译为中文。只返回译文：'
+    },
+    noteContext: '以下是完整笔记，仅供理解上下文，不要在回复中复述：',
+    chat: {
+      instructions: [
+        '你是用户的笔记助手。请只根据下面的笔记片段回答问题；片段中没有相关信息时，请直接说明笔记中没有找到答案，不要编造。',
+        '引用片段内容时，在句末用方括号标注片段编号，例如 [1] 或 [2][3]。'
+      ],
+      untitled: '无标题笔记',
+      quote: title => `《${title}》`,
+      user: '用户：',
+      assistant: '助手：',
+      sources: '笔记片段：',
+      history: '之前的对话：',
+      question: '问题：'
+    },
+    suggest: {
+      instructions: '请为以下笔记提供整理建议。只返回一个 JSON 对象，格式为 {"title": 字符串或 null, "tags": 字符串数组, "folder": 字符串或 null}，不要添加其他内容。',
+      title: wanted => wanted ? 'title：为笔记拟一个简短的标题（最多 15 个汉字）。' : 'title：笔记已有标题，返回 null。',
+      tags: (knownTags, noteTags) => [
+        'tags：最多 3 个描述笔记主题的简短标签，不带 # 号，不含空格',
+        knownTags.length > 0 ? `；合适时优先使用已有标签：${knownTags.join('、')}` : '',
+        noteTags.length > 0 ? `；不要重复笔记已有的标签：${noteTags.join('、')}` : '',
+        '。'
+      ].join(''),
+      folder: folders => folders.length > 0
+        ? `folder：从以下文件夹中选出最合适的一个，都不合适时返回 null：${folders.join('、')}。`
+        : 'folder：返回 null。'
+    }
+  },
+  en: {
+    actions: {
+      [AIActionType.SUMMARIZE]: 'Summarize the following note in one concise paragraph:',
+      [AIActionType.FIX_GRAMMAR]: 'Fix the grammar and spelling mistakes in the following text, keeping the tone natural:',
+      [AIActionType.CONTINUE_WRITING]: 'Continue the following text creatively, in keeping with its context, adding about 2-3 sentences:',
+      [AIActionType.GENERATE_TITLE]: 'Write a short, catchy title (at most 8 words) for the following note. Return only the title, without quotes:',
+      [AIActionType.REWRITE]: 'Rewrite the following text so it reads more clearly and fluently, keeping its meaning. Return only the rewritten text:',
+      [AIActionType.TRANSLATE]: 'Translate the following text: into English if it is written in Chinese, otherwise into Chinese. Return only the translation:'
+    },
+    noteContext: 'Here is the full note, for context only. Do not repeat it in your reply:',
+    chat: {
+      instructions: [
+        "You are the user's note assistant. Answer the question using only the note excerpts below; if they don't contain the answer, say that the notes don't cover it instead of making something up.",
+        'When you use an excerpt, cite its number in square brackets at the end of the sentence, e.g. [1] or [2][3].'
+      ],
+      untitled: 'Untitled note',
+      quote: title => `"${title}"`,
+      user: 'User: ',
+      assistant: 'Assistant: ',
+      sources: 'Note excerpts:',
+      history: 'Earlier conversation:',
+      question: 'Question: '
+    },
+    suggest: {
+      instructions: 'Suggest how to organize the following note. Reply with a single JSON object of the form {"title": string or null, "tags": array of strings, "folder": string or null} and nothing else.',
+      title: wanted => wanted ? 'title: a short title for the note (at most 8 words).' : 'title: null, the note already has a title.',
+      tags: (knownTags, noteTags) => [
+        'tags: up to 3 short lowercase tags describing the topic of the note, without "#" and without spaces',
+        knownTags.length > 0 ? `; prefer these existing tags where they fit: ${knownTags.join(', ')}` : '',
+        noteTags.length > 0 ? `; leave out the tags the note already has: ${noteTags.join(', ')}` : '',
+        '.'
+      ].join(''),
+      folder: folders => folders.length > 0
+        ? `folder: the best-fitting folder from this list, or null if none fits: ${folders.join(', ')}.`
+        : 'folder: null.'
+    }
+  }
+};
+
+// Built-in prompts follow the UI locale, or the language `text` is written in
+const promptLocale = (settings: AISettings, text: string): Locale =>
+  settings.promptLanguage === 'note' ? detectLanguage(text) : getLocale();
+
+export const buildPrompt = (action: AIActionType, text: string, locale: Locale = getLocale()): string | null => {
+  const instruction = PROMPTS[locale].actions[action];
+  return instruction ? `${instruction}\n\n${text}` : null;
+};
+
+// Templates that don't place the note text get it appended
+export const buildCustomPrompt = (prompt: CustomPrompt, variables: TemplateVariables): string => {
+  const rendered = renderTemplate(prompt.template, variables);
+  return usesTextVariable(prompt.template) ? rendered : `${rendered}\n\n${variables.text}`;
+};
+
+// When the action targets a selection, the whole note is sent along for context
+const withNoteContext = (prompt: string, noteContext: string, locale: Locale) =>
+  `${PROMPTS[locale].noteContext}\n"""\n${noteContext}\n"""\n\n${prompt}`;
+
+export interface GenerateOptions {
+  system?: string;
+  model?: string; // overrides the model from the settings
+  temperature?: number;
+  signal?: AbortSignal;
+  // Receives the accumulated output while it streams in
+  onText?: (partial: string) => void;
+}
+
+export interface AIActionOptions extends GenerateOptions {
+  noteContext?: string;
+}
+
+// Blank fields fall back to the provider defaults
+const resolveProvider = (settings: AISettings, model?: string) => {
+  const provider = AI_PROVIDERS[settings.providerId];
+  const config = settings.providers[settings.providerId];
+  const resolved = {
+    ...config,
+    model: model?.trim() || config.model.trim() || provider.defaults.model,
+    baseUrl: config.baseUrl.trim() || provider.defaults.baseUrl,
+    embeddingModel: config.embeddingModel.trim() || provider.defaults.embeddingModel
+  };
+  return { provider, config: resolved };
+};
+
+// --- Retries & Timeouts ---
+
+// An attempt fails once the provider stays silent this long; streams reset it on every chunk
+const REQUEST_TIMEOUT_MS = 60_000;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Rate limits asking for a longer wait are reported instead of waited out
+const MAX_RETRY_DELAY_MS = 30_000;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with jitter, or the wait a rate limit asked for
+const retryDelay = (error: AIError, attempt: number) => {
+  if (error instanceof RateLimitError && error.retryAfterMs !== null) return error.retryAfterMs;
+  return RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+};
+
+interface Attempt {
+  signal: AbortSignal;
+  // Restarts the timeout, for streams that are still producing output
+  keepAlive: () => void;
+}
+
+// Runs `run` with a timeout per attempt and retries transient failures. Errors come out
+// as AIErrors, except an AbortError when `signal` stopped the request. `canRetry` lets
+// callers refuse a retry, e.g. once streamed output has been shown.
+const withRetry = async <T>(
+  label: string,
+  run: (attempt: Attempt) => Promise<T>,
+  signal?: AbortSignal,
+  canRetry: () => boolean = () => true
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, REQUEST_TIMEOUT_MS);
+    };
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    keepAlive();
+
+    try {
+      return await run({ signal: controller.signal, keepAlive });
+    } catch (caught) {
+      if (signal?.aborted) throw isAbortError(caught) ? caught : new DOMException('Aborted', 'AbortError');
+      const error = timedOut ? new RequestTimeoutError(REQUEST_TIMEOUT_MS) : toAIError(caught);
+      const delay = retryDelay(error, attempt);
+      if (!error.retryable || attempt >= MAX_RETRIES || delay > MAX_RETRY_DELAY_MS || !canRetry()) {
+        console.error(`${label} Error:`, error);
+        throw error;
+      }
+      console.warn(`${label} Error, retrying in ${Math.round(delay)}ms:`, error);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+};
+
+// Sends a finished prompt to the configured provider, streaming when asked to and supported
+export const generateText = async (
+  prompt: string,
+  settings: AISettings,
+  { system, model, temperature, signal, onText }: GenerateOptions = {}
+): Promise<string> => {
+  const { provider, config } = resolveProvider(settings, model);
+  if (onText && provider.stream) {
+    const stream = provider.stream;
+    let output = '';
+    // A retry after text has been shown would repeat it
+    return withRetry(`${provider.label} API`, async ({ signal, keepAlive }) => {
+      for await (const delta of stream({ prompt, system, temperature, signal }, config)) {
+        keepAlive();
+        output += delta;
+        onText(output.trimStart());
+      }
+      return output.trim();
+    }, signal, () => output === '');
+  }
+  return withRetry(`${provider.label} API`, ({ signal }) =>
+    provider.generate({ prompt, system, temperature, signal }, config), signal);
+};
+
+// An empty reply would otherwise replace or wipe the text it was asked to work on
+const requireText = (reply: string) => {
+  if (!reply.trim()) throw new ProviderError('Empty response', null);
+  return reply;
+};
+
+export const performAIAction = async (
+  action: AIActionType,
+  text: string,
+  settings: AISettings,
+  { noteContext, ...options }: AIActionOptions = {}
+): Promise<string> => {
+  const locale = promptLocale(settings, noteContext ?? text);
+  const basePrompt = buildPrompt(action, text, locale);
+  if (basePrompt === null) return text;
+  const prompt = noteContext ? withNoteContext(basePrompt, noteContext, locale) : basePrompt;
+  return requireText(await generateText(prompt, settings, options));
+};
+
+// A prompt's own system prompt, model and temperature override the settings
+export const runCustomPrompt = async (
+  prompt: CustomPrompt,
+  variables: TemplateVariables,
+  settings: AISettings,
+  { noteContext, ...options }: AIActionOptions = {}
+): Promise<string> => {
+  const rendered = buildCustomPrompt(prompt, variables);
+  const fullPrompt = noteContext ? withNoteContext(rendered, noteContext, promptLocale(settings, noteContext)) : rendered;
+  return requireText(await generateText(fullPrompt, settings, {
+    ...options,
+    system: prompt.systemPrompt?.trim() || undefined,
+    model: prompt.model,
+    temperature: prompt.temperature
+  }));
+};
+
+// Checks the key and endpoint with a request that costs no generation quota where
+// possible; returns the models the service offers, if it can list them
+export const testConnection = async (settings: AISettings, signal?: AbortSignal): Promise<string[]> => {
+  const { provider, config } = resolveProvider(settings);
+  const listModels = provider.listModels;
+  if (!listModels) {
+    await generateText('ping', settings, { signal });
+    return [];
+  }
+  // A failed test is reported right away rather than retried
+  return withRetry(`${provider.label} API`, attempt => listModels(config, attempt.signal), signal, () => false);
+};
+
+// --- Note Retrieval & Chat ---
+
+// Uses the provider's embedding model when chosen and available, otherwise local vectors
+export const createEmbedder = (settings: AISettings): Embedder => {
+  const { provider, config } = resolveProvider(settings);
+  if (settings.retrieval !== 'provider' || !provider.embed || !config.embeddingModel) {
+    return localEmbedder;
+  }
+  const embed = provider.embed;
+  return {
+    signature: `${provider.id}:${config.embeddingModel}`,
+    embed: (texts, signal) =>
+      withRetry(`${provider.label} Embedding`, attempt => embed({ texts, signal: attempt.signal }, config), signal)
+  };
+};
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatSource {
+  noteId: string;
+  title: string;
+  text: string;
+}
+
+// Earlier turns sent along so follow-up questions make sense
+const MAX_CHAT_HISTORY = 6;
+
+export const buildChatPrompt = (
+  question: string,
+  sources: ChatSource[],
+  history: ChatTurn[],
+  locale: Locale = getLocale()
+): string => {
+  const prompts = PROMPTS[locale].chat;
+  const passages = sources
+    .map((source, i) => `[${i + 1}] ${prompts.quote(source.title || prompts.untitled)}\n${source.text}`)
+    .join('\n\n');
+  const conversation = history
+    .slice(-MAX_CHAT_HISTORY)
+    .map(turn => `${turn.role === 'user' ? prompts.user : prompts.assistant}${turn.content}`)
+    .join('\n');
+
+  return [
+    ...prompts.instructions,
+    `${prompts.sources}\n${passages}`,
+    conversation ? `${prompts.history}\n${conversation}` : '',
+    `${prompts.question}${question}`
+  ].filter(Boolean).join('\n\n');
+};
+
+export const answerFromNotes = (
+  question: string,
+  sources: ChatSource[],
+  history: ChatTurn[],
+  settings: AISettings,
+  options: GenerateOptions = {}
+): Promise<string> =>
+  generateText(buildChatPrompt(question, sources, history, promptLocale(settings, question)), settings, options);
+
+// --- Background Suggestions ---
+
+export interface NoteMetadataRequest {
+  title: string; // sent along unless a new title is wanted
+  content: string;
+  wantsTitle: boolean;
+  tags: string[]; // the note's own tags
+  knownTags: string[]; // tags used elsewhere in the workspace
+  folders: string[]; // folder names the note may be filed under
+}
+
+export interface NoteMetadataSuggestion {
+  title: string | null;
+  tags: string[];
+  folder: string | null; // one of the requested folder names
+}
+
+// Only the beginning of long notes is sent; it says enough about the topic
+const MAX_SUGGESTION_INPUT = 4000;
+const MAX_SUGGESTED_TAGS = 3;
+
+export const buildMetadataPrompt = (request: NoteMetadataRequest, locale: Locale = getLocale()): string => {
+  const prompts = PROMPTS[locale].suggest;
+  return [
+    prompts.instructions,
+    [
+      prompts.title(request.wantsTitle),
+      prompts.tags(request.knownTags, request.tags),
+      prompts.folder(request.folders)
+    ].join('\n'),
+    request.wantsTitle ? '' : request.title,
+    request.content.slice(0, MAX_SUGGESTION_INPUT)
+  ].filter(Boolean).join('\n\n');
+};
+
+// Keeps only what fits: a title when one was asked for, new tags that parse as tags,
+// and folders from the offered list. Replies that aren't JSON suggest nothing.
+const parseMetadataSuggestion = (reply: string, request: NoteMetadataRequest): NoteMetadataSuggestion => {
+  const suggestion: NoteMetadataSuggestion = { title: null, tags: [], folder: null };
+  const json = reply.match(/\{[\s\S]*\}/);
+  if (!json) return suggestion;
+  let data: { title?: unknown; tags?: unknown; folder?: unknown };
+  try {
+    data = JSON.parse(json[0]);
+  } catch {
+    return suggestion;
+  }
+
+  if (request.wantsTitle && typeof data.title === 'string') {
+    suggestion.title = data.title.trim().replace(/^["'“《]+|["'”》]+$/g, '').slice(0, 100) || null;
+  }
+  if (Array.isArray(data.tags)) {
+    const tags = data.tags
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map(tag => normalizeTag(tag).replace(/\s+/g, '-'))
+      .filter(tag => extractTags(`#${tag}`)[0] === tag && !request.tags.includes(tag));
+    suggestion.tags = [...new Set(tags)].slice(0, MAX_SUGGESTED_TAGS);
+  }
+  if (typeof data.folder === 'string' && request.folders.includes(data.folder.trim())) {
+    suggestion.folder = data.folder.trim();
+  }
+  return suggestion;
+};
+
+export const suggestNoteMetadata = async (
+  request: NoteMetadataRequest,
+  settings: AISettings,
+  options: GenerateOptions = {}
+): Promise<NoteMetadataSuggestion> => {
+  const prompt = buildMetadataPrompt(request, promptLocale(settings, request.content));
+  const reply = await generateText(prompt, settings, { temperature: 0.2, ...options });
+  return parseMetadataSuggestion(reply, request);
+};
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AutoSuggestLimits, createAutoSuggester } from './autoSuggest';
+
+const limits: AutoSuggestLimits = { idleMs: 10_000, minIntervalMs: 30_000, maxPerHour: 3 };
+
+describe('createAutoSuggester', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('analyses a note once it has been idle for the idle delay', async () => {
+    const run = vi.fn(async (_noteId: string, _signal: AbortSignal) => {});
+    const suggester = createAutoSuggester(limits, run);
+    suggester.noteChanged('a', 1);
+    await vi.advanceTimersByTimeAsync(9_000);
+    suggester.noteChanged('a', 2);
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(run).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenCalledWith('a', expect.any(AbortSignal));
+    suggester.stop();
+  });
+
+  it('spaces requests by the minimum interval', async () => {
+    const run = vi.fn(async (_noteId: string, _signal: AbortSignal) => {});
+    const suggester = createAutoSuggester(limits, run);
+    suggester.noteChanged('a', 1);
+    suggester.noteChanged('b', 1);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(run.mock.calls.map(call => call[0])).toEqual(['a']);
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run.mock.calls.map(call => call[0])).toEqual(['a', 'b']);
+    suggester.stop();
+  });
+
+  it('waits out the hourly cap', async () => {
+    const run = vi.fn(async (_noteId: string, _signal: AbortSignal) => {});
+    const suggester = createAutoSuggester(limits, run);
+    ['a', 'b', 'c', 'd'].forEach(id => suggester.noteChanged(id, 1));
+    await vi.advanceTimersByTimeAsync(10_000 + 2 * 30_000);
+    expect(run).toHaveBeenCalledTimes(3);
+
+    // The first request was made at 10s, so the fourth may start an hour later
+    await vi.advanceTimersByTimeAsync(60 * 60_000 - 2 * 30_000 - 1);
+    expect(run).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(4);
+    suggester.stop();
+  });
+
+  it('skips content that was already analysed', async () => {
+    const run = vi.fn(async (_noteId: string, _signal: AbortSignal) => {});
+    const suggester = createAutoSuggester(limits, run);
+    suggester.noteChanged('a', 1);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    // Edited and then changed back before the idle delay passed
+    suggester.noteChanged('a', 2);
+    suggester.noteChanged('a', 1);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    suggester.noteChanged('a', 3);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(run).toHaveBeenCalledTimes(2);
+    suggester.stop();
+  });
+
+  it('aborts the running analysis when its note changes', async () => {
+    const signals: AbortSignal[] = [];
+    const run = vi.fn((_: string, signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<void>((_, reject) =>
+        signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))));
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const suggester = createAutoSuggester(limits, run);
+    suggester.noteChanged('a', 1);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(signals[0].aborted).toBe(false);
+
+    suggester.noteChanged('a', 2);
+    expect(signals[0].aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(warn).not.toHaveBeenCalled();
+
+    suggester.stop();
+    expect(signals[1].aborted).toBe(true);
+    warn.mockRestore();
+  });
+
+  it('drops scheduled work on stop', async () => {
+    const run = vi.fn(async (_noteId: string, _signal: AbortSignal) => {});
+    const suggester = createAutoSuggester(limits, run);
+    suggester.noteChanged('a', 1);
+    suggester.stop();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
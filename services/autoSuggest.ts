@@ -0,0 +1,104 @@
+// Schedules background analysis of notes. A note is analysed once it has stopped
+// changing for a while; requests run one at a time, spaced apart and capped per hour,
+// so typing never turns into a stream of API calls. A note is not analysed again until
+// its content changes.
+
+export interface AutoSuggestLimits {
+  idleMs: number; // quiet time after the last change before a note is analysed
+  minIntervalMs: number; // between two requests
+  maxPerHour: number;
+}
+
+export const AUTO_SUGGEST_LIMITS: AutoSuggestLimits = {
+  idleMs: 10_000,
+  minIntervalMs: 30_000,
+  maxPerHour: 20
+};
+
+export type AutoSuggestRunner = (noteId: string, signal: AbortSignal) => Promise<void>;
+
+export interface AutoSuggester {
+  // Restarts the note's idle timer; `signature` identifies the content, so
+  // repeated calls for content that was already analysed are ignored
+  noteChanged(noteId: string, signature: number): void;
+  // Drops everything scheduled and aborts the running analysis
+  stop(): void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const createAutoSuggester = (limits: AutoSuggestLimits, run: AutoSuggestRunner): AutoSuggester => {
+  const idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  const signatures = new Map<string, number>(); // latest content per note
+  const analysed = new Map<string, number>(); // content each note was last analysed with
+  let pending: string[] = []; // idle notes waiting for their turn, oldest first
+  let current: { noteId: string; controller: AbortController } | null = null;
+  let requestTimes: number[] = []; // within the last hour
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // How long until the limits allow another request
+  const waitTime = (now: number) => {
+    requestTimes = requestTimes.filter(time => now - time < HOUR_MS);
+    const last = requestTimes[requestTimes.length - 1];
+    const spacing = last === undefined ? 0 : last + limits.minIntervalMs - now;
+    const quota = requestTimes.length >= limits.maxPerHour ? requestTimes[0] + HOUR_MS - now : 0;
+    return Math.max(spacing, quota, 0);
+  };
+
+  const pump = () => {
+    if (current || pending.length === 0 || wakeTimer) return;
+    const now = Date.now();
+    const wait = waitTime(now);
+    if (wait > 0) {
+      wakeTimer = setTimeout(() => {
+        wakeTimer = null;
+        pump();
+      }, wait);
+      return;
+    }
+
+    const noteId = pending.shift()!;
+    // Marked before running, so a failed analysis isn't repeated until the note changes
+    analysed.set(noteId, signatures.get(noteId)!);
+    requestTimes.push(now);
+    const entry = { noteId, controller: new AbortController() };
+    current = entry;
+    run(noteId, entry.controller.signal)
+      .catch(error => {
+        if (!entry.controller.signal.aborted) console.warn('Background suggestion failed', error);
+      })
+      .finally(() => {
+        if (current === entry) current = null;
+        pump();
+      });
+  };
+
+  return {
+    noteChanged(noteId, signature) {
+      if (signatures.get(noteId) === signature) return;
+      signatures.set(noteId, signature);
+      clearTimeout(idleTimers.get(noteId));
+      pending = pending.filter(id => id !== noteId);
+      // An analysis of the previous content would be out of date
+      if (current?.noteId === noteId) current.controller.abort();
+      if (analysed.get(noteId) === signature) return;
+
+      idleTimers.set(noteId, setTimeout(() => {
+        idleTimers.delete(noteId);
+        pending.push(noteId);
+        pump();
+      }, limits.idleMs));
+    },
+
+    stop() {
+      idleTimers.forEach(timer => clearTimeout(timer));
+      idleTimers.clear();
+      signatures.clear();
+      pending = [];
+      if (wakeTimer) clearTimeout(wakeTimer);
+      wakeTimer = null;
+      current?.controller.abort();
+      current = null;
+    }
+  };
+};
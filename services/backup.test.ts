@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { BACKUP_FORMAT, Workspace, createBackup, parseBackup, restoreWorkspace, serializeBackup } from './backup';
+import { DEFAULT_AI_SETTINGS } from './aiProviders';
+import { withApiKeys } from './credentials';
+
+const workspace = (overrides: Partial<Workspace['settings']> = {}): Workspace => ({
+  notes: [],
+  folders: [],
+  customPrompts: [],
+  settings: {
+    theme: 'light',
+    trashRetentionDays: 30,
+    locale: 'zh-CN',
+    pdf: { paperSize: 'a4', margin: 20 },
+    ai: DEFAULT_AI_SETTINGS,
+    ...overrides
+  }
+});
+
+const generateId = () => 'generated';
+
+describe('backups', () => {
+  it('round-trips locale, PDF and AI settings without API keys', () => {
+    const ai = withApiKeys({ ...DEFAULT_AI_SETTINGS, providerId: 'openai', autoSuggest: true }, { openai: 'sk-secret' });
+    const text = serializeBackup(createBackup(workspace({ locale: 'en', pdf: { paperSize: 'letter', margin: 15 }, ai })));
+    expect(text).not.toContain('sk-secret');
+
+    const { settings } = parseBackup(text).workspace;
+    expect(settings.locale).toBe('en');
+    expect(settings.pdf).toEqual({ paperSize: 'letter', margin: 15 });
+    expect(settings.ai?.providerId).toBe('openai');
+    expect(settings.ai?.autoSuggest).toBe(true);
+    expect(settings.ai?.providers.openai.apiKey).toBe('');
+  });
+
+  it('drops API keys and invalid values from hand-edited backups', () => {
+    const backup = createBackup(workspace());
+    const raw = JSON.parse(serializeBackup(backup));
+    raw.workspace.settings.locale = 'fr';
+    raw.workspace.settings.pdf = { paperSize: 'tabloid', margin: 99 };
+    raw.workspace.settings.ai.providers.gemini.apiKey = 'leaked';
+
+    const { settings } = parseBackup(JSON.stringify(raw)).workspace;
+    expect(settings.locale).toBeUndefined();
+    expect(settings.pdf).toEqual({ paperSize: 'a4', margin: 20 });
+    expect(settings.ai?.providers.gemini.apiKey).toBe('');
+  });
+
+  it('keeps current settings that a version 1 backup did not record', () => {
+    const v1 = JSON.stringify({
+      format: BACKUP_FORMAT,
+      schemaVersion: 1,
+      exportedAt: 1,
+      workspace: { notes: [], folders: [], customPrompts: [], settings: { theme: 'dark', trashRetentionDays: 7 } }
+    });
+    const current = workspace({ locale: 'en' });
+    const { workspace: restored } = restoreWorkspace(current, parseBackup(v1), 'replace', 'newer', generateId);
+    expect(restored.settings).toEqual({ ...current.settings, theme: 'dark', trashRetentionDays: 7 });
+  });
+
+  it('rejects backups from a newer schema version', () => {
+    const text = JSON.stringify({ format: BACKUP_FORMAT, schemaVersion: 99, workspace: {} });
+    expect(() => parseBackup(text)).toThrow();
+  });
+});
@@ -0,0 +1,280 @@
+import { Note, Folder, CustomPrompt, PromptOutputTarget, AISettings } from '../types';
+import { t, Locale, isLocale } from './i18n';
+import { DEFAULT_PDF_SETTINGS, PAPER_SIZE_LABELS, PDF_MARGIN_OPTIONS, PaperSize, PdfSettings } from './pdfExport';
+import { normalizeAISettings } from './aiProviders';
+import { withoutApiKeys } from './credentials';
+
+// Versioned, lossless JSON backup of the whole workspace. Revision history is not
+// included; it stays with the browser profile that recorded it.
+
+export const BACKUP_FORMAT = 'mindspace-backup';
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export interface WorkspaceSettings {
+  theme: 'light' | 'dark';
+  trashRetentionDays: number;
+  locale: Locale;
+  pdf: PdfSettings;
+  ai: AISettings; // API keys are never written to a backup
+}
+
+export interface Workspace {
+  notes: Note[];
+  folders: Folder[];
+  customPrompts: CustomPrompt[];
+  settings: WorkspaceSettings;
+}
+
+// Settings that an older schema version did not record are missing, so restoring
+// such a backup keeps the current values for them
+export interface BackupWorkspace extends Omit<Workspace, 'settings'> {
+  settings: Partial<WorkspaceSettings>;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  workspace: BackupWorkspace;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// How to settle a note or folder that exists on both sides with different data
+export type ConflictStrategy = 'newer' | 'local' | 'backup' | 'both';
+
+export interface RestoreConflict {
+  kind: 'note' | 'folder';
+  id: string;
+  localTitle: string;
+  backupTitle: string;
+  resolution: 'kept-local' | 'used-backup' | 'kept-both';
+}
+
+export interface RestoreReport {
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicts: RestoreConflict[];
+}
+
+// --- Creating ---
+
+export const createBackup = (workspace: Workspace): BackupFile => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: Date.now(),
+  workspace: { ...workspace, settings: { ...workspace.settings, ai: withoutApiKeys(workspace.settings.ai) } }
+});
+
+export const serializeBackup = (backup: BackupFile) => JSON.stringify(backup, null, 2);
+
+// --- Parsing & Migration ---
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a backup from schema version `n` to `n + 1`
+const MIGRATIONS: Record<number, (raw: RawObject) => RawObject> = {
+  // Version 2 added the locale, PDF and AI settings, which version 1 backups simply lack
+  1: raw => raw
+};
+
+const normalizeNote = (raw: RawObject): Note => {
+  const content = typeof raw.content === 'string' ? raw.content : '';
+  const updatedAt = Number(raw.updatedAt) || Date.now();
+  return {
+    id: String(raw.id),
+    title: typeof raw.title === 'string' ? raw.title : '',
+    content,
+    excerpt: typeof raw.excerpt === 'string' ? raw.excerpt : content.substring(0, 100),
+    updatedAt,
+    createdAt: Number(raw.createdAt) || updatedAt,
+    isFavorite: Boolean(raw.isFavorite),
+    folderId: typeof raw.folderId === 'string' ? raw.folderId : null,
+    tags: Array.isArray(raw.tags) ? raw.tags.map(String) : [],
+    deletedAt: Number(raw.deletedAt) || null
+  };
+};
+
+const normalizeFolder = (raw: RawObject): Folder => ({
+  id: String(raw.id),
+  name: typeof raw.name === 'string' && raw.name ? raw.name : t('backup.untitledFolder'),
+  parentId: typeof raw.parentId === 'string' ? raw.parentId : null,
+  createdAt: Number(raw.createdAt) || Date.now(),
+  updatedAt: Number(raw.updatedAt) || Date.now()
+});
+
+const PROMPT_TARGETS: PromptOutputTarget[] = ['append', 'replace', 'prepend', 'cursor', 'title', 'newNote'];
+
+const isPromptTarget = (value: unknown): value is PromptOutputTarget =>
+  PROMPT_TARGETS.includes(value as PromptOutputTarget);
+
+const normalizePrompt = (raw: RawObject): CustomPrompt => ({
+  id: String(raw.id),
+  name: String(raw.name ?? ''),
+  template: String(raw.template ?? ''),
+  ...(typeof raw.systemPrompt === 'string' && raw.systemPrompt ? { systemPrompt: raw.systemPrompt } : {}),
+  ...(typeof raw.model === 'string' && raw.model ? { model: raw.model } : {}),
+  ...(Number.isFinite(raw.temperature) ? { temperature: Number(raw.temperature) } : {}),
+  actionType: isPromptTarget(raw.actionType) ? raw.actionType : 'append'
+});
+
+const normalizePdfSettings = (raw: RawObject): PdfSettings => ({
+  paperSize: typeof raw.paperSize === 'string' && raw.paperSize in PAPER_SIZE_LABELS
+    ? raw.paperSize as PaperSize
+    : DEFAULT_PDF_SETTINGS.paperSize,
+  margin: PDF_MARGIN_OPTIONS.includes(Number(raw.margin)) ? Number(raw.margin) : DEFAULT_PDF_SETTINGS.margin
+});
+
+const normalizeSettings = (raw: RawObject): Partial<WorkspaceSettings> => ({
+  theme: raw.theme === 'dark' ? 'dark' : 'light',
+  trashRetentionDays: Number.isFinite(Number(raw.trashRetentionDays)) ? Number(raw.trashRetentionDays) : 30,
+  ...(isLocale(raw.locale) ? { locale: raw.locale } : {}),
+  ...(isObject(raw.pdf) ? { pdf: normalizePdfSettings(raw.pdf) } : {}),
+  ...(isObject(raw.ai) ? { ai: withoutApiKeys(normalizeAISettings(raw.ai as Partial<AISettings>)) } : {})
+});
+
+export const parseBackup = (text: string): BackupFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error(t('backup.invalidJson'));
+  }
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new Error(t('backup.notBackup'));
+  }
+
+  let version = Number(raw.schemaVersion);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(t('backup.missingVersion'));
+  }
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new Error(t('backup.tooNew', { version, supported: BACKUP_SCHEMA_VERSION }));
+  }
+  let upgraded: RawObject = raw;
+  while (version < BACKUP_SCHEMA_VERSION) {
+    upgraded = MIGRATIONS[version](upgraded);
+    version++;
+  }
+
+  const workspace = isObject(upgraded.workspace) ? upgraded.workspace : {};
+  const hasId = (item: unknown): item is RawObject => isObject(item) && item.id != null;
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: Number(upgraded.exportedAt) || 0,
+    workspace: {
+      notes: (Array.isArray(workspace.notes) ? workspace.notes : []).filter(hasId).map(normalizeNote),
+      folders: (Array.isArray(workspace.folders) ? workspace.folders : []).filter(hasId).map(normalizeFolder),
+      customPrompts: (Array.isArray(workspace.customPrompts) ? workspace.customPrompts : []).filter(hasId).map(normalizePrompt),
+      settings: normalizeSettings(isObject(workspace.settings) ? workspace.settings : {})
+    }
+  };
+};
+
+// --- Restoring ---
+
+const sameNote = (a: Note, b: Note) =>
+  a.title === b.title && a.content === b.content && a.isFavorite === b.isFavorite &&
+  a.folderId === b.folderId && (a.deletedAt || null) === (b.deletedAt || null);
+
+const sameFolder = (a: Folder, b: Folder) => a.name === b.name && a.parentId === b.parentId;
+
+interface MergeOptions<T> {
+  kind: RestoreConflict['kind'];
+  strategy: ConflictStrategy;
+  isSame: (a: T, b: T) => boolean;
+  titleOf: (item: T) => string;
+  copyOf: (item: T) => T; // duplicate with a fresh id for the 'both' strategy
+}
+
+const mergeById = <T extends { id: string; updatedAt: number }>(
+  local: T[],
+  incoming: T[],
+  report: RestoreReport,
+  { kind, strategy, isSame, titleOf, copyOf }: MergeOptions<T>
+): T[] => {
+  const result = new Map(local.map(item => [item.id, item]));
+  const extra: T[] = [];
+
+  incoming.forEach(item => {
+    const existing = result.get(item.id);
+    if (!existing) {
+      result.set(item.id, item);
+      report.added++;
+      return;
+    }
+    if (isSame(existing, item)) {
+      report.unchanged++;
+      return;
+    }
+
+    const useBackup = strategy === 'backup' || (strategy === 'newer' && item.updatedAt > existing.updatedAt);
+    let resolution: RestoreConflict['resolution'] = 'kept-local';
+    if (strategy === 'both') {
+      extra.push(copyOf(item));
+      resolution = 'kept-both';
+      report.added++;
+    } else if (useBackup) {
+      result.set(item.id, item);
+      resolution = 'used-backup';
+      report.updated++;
+    }
+    report.conflicts.push({ kind, id: item.id, localTitle: titleOf(existing), backupTitle: titleOf(item), resolution });
+  });
+
+  return [...result.values(), ...extra];
+};
+
+export const restoreWorkspace = (
+  current: Workspace,
+  backup: BackupFile,
+  mode: RestoreMode,
+  strategy: ConflictStrategy,
+  generateId: () => string
+): { workspace: Workspace; report: RestoreReport } => {
+  const report: RestoreReport = { added: 0, updated: 0, unchanged: 0, conflicts: [] };
+  const incoming = backup.workspace;
+
+  if (mode === 'replace') {
+    report.added = incoming.notes.length;
+    return { workspace: { ...incoming, settings: { ...current.settings, ...incoming.settings } }, report };
+  }
+
+  const folders = mergeById(current.folders, incoming.folders, report, {
+    kind: 'folder',
+    strategy,
+    isSame: sameFolder,
+    titleOf: f => f.name,
+    copyOf: f => ({ ...f, id: generateId(), name: t('backup.copySuffix', { name: f.name }) })
+  });
+  const notes = mergeById(current.notes, incoming.notes, report, {
+    kind: 'note',
+    strategy,
+    isSame: sameNote,
+    titleOf: n => n.title,
+    copyOf: n => ({ ...n, id: generateId(), title: t('backup.copySuffix', { name: n.title }) })
+  });
+
+  // Notes pointing at folders that exist on neither side fall back to the root
+  const folderIds = new Set(folders.map(f => f.id));
+  const repairedNotes = notes.map(n => (n.folderId && !folderIds.has(n.folderId) ? { ...n, folderId: null } : n));
+  const repairedFolders = folders.map(f => (f.parentId && !folderIds.has(f.parentId) ? { ...f, parentId: null } : f));
+
+  // Prompts carry no timestamps: keep local ones and add those missing locally
+  const promptIds = new Set(current.customPrompts.map(p => p.id));
+  const customPrompts = [
+    ...current.customPrompts,
+    ...incoming.customPrompts.filter(p => !promptIds.has(p.id))
+  ];
+
+  return {
+    workspace: { notes: repairedNotes, folders: repairedFolders, customPrompts, settings: current.settings },
+    report
+  };
+};
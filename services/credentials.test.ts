@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createLocalCredentialStore } from './credentials';
+
+describe('createLocalCredentialStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps keys readable without a passphrase, dropping blank ones', async () => {
+    const store = createLocalCredentialStore(localStorage);
+    await store.save({ gemini: ' g-key ', openai: '  ' }, null);
+    expect(store.isEncrypted()).toBe(false);
+    expect(store.read()).toEqual({ gemini: 'g-key' });
+    expect(await store.unlock('anything')).toEqual({ gemini: 'g-key' });
+  });
+
+  it('round-trips keys encrypted with a passphrase, replacing the plain copy', async () => {
+    const store = createLocalCredentialStore(localStorage);
+    await store.save({ openai: 'sk-key' }, null);
+    await store.save({ gemini: 'g-key', openai: 'sk-key' }, 'correct horse');
+    expect(store.isEncrypted()).toBe(true);
+    expect(store.read()).toEqual({});
+    expect(JSON.stringify(localStorage)).not.toContain('sk-key');
+    expect(await store.unlock('correct horse')).toEqual({ gemini: 'g-key', openai: 'sk-key' });
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const store = createLocalCredentialStore(localStorage);
+    await store.save({ openai: 'sk-key' }, 'correct horse');
+    await expect(store.unlock('battery staple')).rejects.toThrow('Wrong passphrase');
+  });
+
+  it('applies saves in the order they were made', async () => {
+    const store = createLocalCredentialStore(localStorage);
+    const encrypted = store.save({ openai: 'old' }, 'secret');
+    const plain = store.save({ openai: 'new' }, null);
+    await Promise.all([encrypted, plain]);
+    expect(store.isEncrypted()).toBe(false);
+    expect(store.read()).toEqual({ openai: 'new' });
+  });
+
+  it('leaves nothing behind once cleared', async () => {
+    const store = createLocalCredentialStore(localStorage);
+    await store.save({ openai: 'sk-key' }, 'secret');
+    store.clear();
+    expect(localStorage.length).toBe(0);
+    expect(store.isEncrypted()).toBe(false);
+    expect(store.read()).toEqual({});
+    expect(await store.unlock('secret')).toEqual({});
+  });
+});
@@ -0,0 +1,132 @@
+import { AIProviderId, AISettings } from '../types';
+
+// API keys live here rather than with the other AI settings, so they are stored once,
+// never exported with backups, and can be encrypted with a passphrase. Encryption uses
+// AES-GCM with a key derived from the passphrase (PBKDF2); the passphrase itself is only
+// held in memory while the app is open.
+
+const CREDENTIALS_KEY = 'mindspace_ai_credentials_v1';
+const PBKDF2_ITERATIONS = 250_000;
+
+export type ApiKeys = Partial<Record<AIProviderId, string>>;
+
+type StoredCredentials =
+  | { encrypted: false; keys: ApiKeys }
+  | { encrypted: true; salt: string; iv: string; data: string }; // base64
+
+export interface CredentialStore {
+  isEncrypted(): boolean;
+  // Keys saved without a passphrase; empty when encrypted
+  read(): ApiKeys;
+  // Rejects when the passphrase is wrong
+  unlock(passphrase: string): Promise<ApiKeys>;
+  // Encrypts when given a passphrase
+  save(keys: ApiKeys, passphrase: string | null): Promise<void>;
+  clear(): void;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Drops blank entries so cleared keys don't linger
+const compactKeys = (keys: ApiKeys): ApiKeys => {
+  const compact: ApiKeys = {};
+  (Object.keys(keys) as AIProviderId[]).forEach(id => {
+    const key = keys[id]?.trim();
+    if (key) compact[id] = key;
+  });
+  return compact;
+};
+
+export const createLocalCredentialStore = (storage: Storage): CredentialStore => {
+  const readStored = (): StoredCredentials | null => {
+    try {
+      const raw = storage.getItem(CREDENTIALS_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch (e) {
+      console.error('Failed to read stored credentials', e);
+      return null;
+    }
+  };
+
+  // Saves run one after another, so a slow encryption can't overwrite a newer save
+  let queue: Promise<void> = Promise.resolve();
+
+  return {
+    isEncrypted: () => readStored()?.encrypted === true,
+
+    read() {
+      const stored = readStored();
+      return stored?.encrypted === false ? stored.keys : {};
+    },
+
+    async unlock(passphrase) {
+      const stored = readStored();
+      if (!stored) return {};
+      if (stored.encrypted === false) return stored.keys;
+      const key = await deriveKey(passphrase, fromBase64(stored.salt));
+      try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+        return JSON.parse(new TextDecoder().decode(plain));
+      } catch {
+        throw new Error('Wrong passphrase');
+      }
+    },
+
+    save(keys, passphrase) {
+      const run = async () => {
+        const compact = compactKeys(keys);
+        if (!passphrase) {
+          storage.setItem(CREDENTIALS_KEY, JSON.stringify({ encrypted: false, keys: compact }));
+          return;
+        }
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const key = await deriveKey(passphrase, salt);
+        const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(compact)));
+        const stored: StoredCredentials = { encrypted: true, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+        storage.setItem(CREDENTIALS_KEY, JSON.stringify(stored));
+      };
+      queue = queue.then(run, run);
+      return queue;
+    },
+
+    clear() {
+      storage.removeItem(CREDENTIALS_KEY);
+    }
+  };
+};
+
+export const credentialStore = createLocalCredentialStore(localStorage);
+
+// --- Settings ---
+
+export const apiKeysOf = (settings: AISettings): ApiKeys => {
+  const keys: ApiKeys = {};
+  (Object.keys(settings.providers) as AIProviderId[]).forEach(id => {
+    if (settings.providers[id].apiKey) keys[id] = settings.providers[id].apiKey;
+  });
+  return keys;
+};
+
+export const withApiKeys = (settings: AISettings, keys: ApiKeys): AISettings => {
+  const providers = { ...settings.providers };
+  (Object.keys(providers) as AIProviderId[]).forEach(id => {
+    providers[id] = { ...providers[id], apiKey: keys[id] || '' };
+  });
+  return { ...settings, providers };
+};
+
+// What gets stored with the other settings
+export const withoutApiKeys = (settings: AISettings): AISettings => withApiKeys(settings, {});
@@ -0,0 +1,80 @@
+// Thin promise wrapper around the single IndexedDB database used by the app.
+// Object stores are created in `upgrade`, keyed by the schema version that introduced them.
+
+const DB_NAME = 'mindspace';
+const DB_VERSION = 4;
+
+export const STORES = {
+  notes: 'notes',
+  meta: 'meta',
+  folders: 'folders',
+  revisions: 'revisions',
+  embeddings: 'embeddings',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.notes, { keyPath: 'id' });
+    db.createObjectStore(STORES.meta);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.folders, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    const revisions = db.createObjectStore(STORES.revisions, { keyPath: 'id' });
+    revisions.createIndex('noteId', 'noteId');
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.embeddings, { keyPath: 'noteId' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private mode quirks)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` inside a transaction and resolves once the transaction commits,
+// so callers never observe a write that is later rolled back.
+export const withTransaction = async <T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+  // When `work` throws, its error is the one reported; `done` must not reject unhandled
+  done.catch(() => {});
+  const result = await work(tx);
+  await done;
+  return result;
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunks, diffLines, diffTokens, diffWords, DiffOp, groupHunks, rebaseRange } from './diff';
+
+const sides = (ops: DiffOp[]) => ({
+  a: ops.filter(op => op.type !== 'insert').map(op => op.value).join(''),
+  b: ops.filter(op => op.type !== 'delete').map(op => op.value).join('')
+});
+
+const editCount = (ops: DiffOp[]) =>
+  ops.filter(op => op.type !== 'equal').reduce((count, op) => count + op.value.length, 0);
+
+describe('diffTokens', () => {
+  it('returns a single equal run for identical input', () => {
+    expect(diffTokens(['a', 'b'], ['a', 'b'])).toEqual([{ type: 'equal', value: 'ab' }]);
+  });
+
+  it('puts deletions before insertions in a replacement', () => {
+    expect(diffTokens(['a', 'x', 'c'], ['a', 'y', 'c'])).toEqual([
+      { type: 'equal', value: 'a' },
+      { type: 'delete', value: 'x' },
+      { type: 'insert', value: 'y' },
+      { type: 'equal', value: 'c' }
+    ]);
+  });
+
+  it('finds a shortest edit script', () => {
+    // The classic example from Myers' paper has an edit distance of 5
+    const ops = diffTokens('abcabba'.split(''), 'cbabac'.split(''));
+    expect(sides(ops)).toEqual({ a: 'abcabba', b: 'cbabac' });
+    expect(editCount(ops)).toBe(5);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffTokens([], ['a'])).toEqual([{ type: 'insert', value: 'a' }]);
+    expect(diffTokens(['a'], [])).toEqual([{ type: 'delete', value: 'a' }]);
+    expect(diffTokens([], [])).toEqual([]);
+  });
+
+  it('diffs large, heavily edited inputs', () => {
+    const before = Array.from({ length: 5000 }, (_, i) => `line ${i}\n`).join('');
+    const after = before.replace(/line (\d*[05])\n/g, 'changed $1\n');
+    const ops = diffLines(before, after);
+    expect(sides(ops)).toEqual({ a: before, b: after });
+  });
+});
+
+describe('groupHunks', () => {
+  it('joins changes separated only by whitespace into one hunk', () => {
+    const segments = groupHunks(diffWords('the quick brown fox', 'the slow red fox'));
+    expect(segments).toEqual([
+      { type: 'equal', value: 'the ' },
+      { type: 'change', id: 0, removed: 'quick brown', added: 'slow red' },
+      { type: 'equal', value: ' fox' }
+    ]);
+  });
+
+  it('keeps changes separated by text apart and applies them independently', () => {
+    const before = 'one two three';
+    const after = 'uno two tres';
+    const segments = groupHunks(diffWords(before, after));
+    expect(segments.filter(s => s.type === 'change')).toHaveLength(2);
+    expect(applyHunks(segments, new Set([0, 1]))).toBe(after);
+    expect(applyHunks(segments, new Set())).toBe(before);
+    expect(applyHunks(segments, new Set([1]))).toBe('one two tres');
+  });
+});
+
+describe('rebaseRange', () => {
+  const base = 'Intro line.\nTarget paragraph here.\nClosing line.';
+  const start = base.indexOf('Target');
+  const range = { start, end: start + 'Target paragraph here.'.length };
+  const rangeText = (text: string, r: { start: number; end: number } | null) => r && text.slice(r.start, r.end);
+
+  it('returns the range unchanged when nothing was edited', () => {
+    expect(rebaseRange(base, base, range)).toEqual(range);
+  });
+
+  it('shifts the range past edits before it', () => {
+    const current = base.replace('Intro line.', 'A much longer intro line.');
+    expect(rangeText(current, rebaseRange(base, current, range))).toBe('Target paragraph here.');
+  });
+
+  it('keeps the range in place for edits after it', () => {
+    const current = base.replace('Closing line.', 'Bye.');
+    expect(rebaseRange(base, current, range)).toEqual(range);
+  });
+
+  it('returns null when the edits overlap the range', () => {
+    expect(rebaseRange(base, base.replace('paragraph', 'section'), range)).toBeNull();
+    expect(rebaseRange(base, base.replace('here.\nClosing', 'now. Closing'), range)).toBeNull();
+  });
+
+  it('keeps an insertion point when text is added right before it', () => {
+    const point = { start, end: start };
+    const current = base.replace('\nTarget', '\nNew. Target');
+    expect(rebaseRange(base, current, point)).toEqual({ start: start + 5, end: start + 5 });
+  });
+
+  it('rejects an insertion point whose surrounding text was removed', () => {
+    const point = { start: start + 3, end: start + 3 };
+    expect(rebaseRange(base, base.replace('Target ', ''), point)).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+// Myers O(ND) diff over token arrays in linear space, with line and word granularity helpers.
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  value: string;
+}
+
+// Furthest-reaching paths are extended from both ends of a[aStart, aEnd) x b[bStart, bEnd)
+// until they overlap; the snake where they meet splits the edit script in two halves.
+// Only the two current frontiers are kept, so memory stays linear (Myers 1986, section 4b).
+const middleSnake = (a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number) => {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      // Backward diagonal c reaches forward diagonal delta - c
+      const c = delta - k;
+      if (odd && c >= -(d - 1) && c <= d - 1 && x + backward[offset + c] >= n) {
+        return { startX, startY, endX: x, endY: y };
+      }
+    }
+
+    // Backward paths run on the reversed inputs
+    for (let c = -d; c <= d; c += 2) {
+      let x = c === -d || (c !== d && backward[offset + c - 1] < backward[offset + c + 1])
+        ? backward[offset + c + 1]
+        : backward[offset + c - 1] + 1;
+      let y = x - c;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + c] = x;
+      const k = delta - c;
+      if (!odd && k >= -d && k <= d && x + forward[offset + k] >= n) {
+        return { startX: n - x, startY: m - y, endX: n - startX, endY: m - startY };
+      }
+    }
+  }
+  throw new Error('Diff paths did not meet');
+};
+
+const diffRange = (
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number,
+  ops: DiffOp[]
+) => {
+  let prefix = 0;
+  while (aStart + prefix < aEnd && bStart + prefix < bEnd && a[aStart + prefix] === b[bStart + prefix]) prefix++;
+  for (let i = 0; i < prefix; i++) ops.push({ type: 'equal', value: a[aStart + i] });
+  aStart += prefix;
+  bStart += prefix;
+
+  let suffix = 0;
+  while (aStart < aEnd - suffix && bStart < bEnd - suffix && a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]) suffix++;
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  if (aStart === aEnd) {
+    for (let j = bStart; j < bEnd; j++) ops.push({ type: 'insert', value: b[j] });
+  } else if (bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) ops.push({ type: 'delete', value: a[i] });
+  } else {
+    const snake = middleSnake(a, aStart, aEnd, b, bStart, bEnd);
+    diffRange(a, aStart, aStart + snake.startX, b, bStart, bStart + snake.startY, ops);
+    for (let i = aStart + snake.startX; i < aStart + snake.endX; i++) ops.push({ type: 'equal', value: a[i] });
+    diffRange(a, aStart + snake.endX, aEnd, b, bStart + snake.endY, bEnd, ops);
+  }
+
+  for (let i = aEnd; i < aEnd + suffix; i++) ops.push({ type: 'equal', value: a[i] });
+};
+
+export const diffTokens = (a: string[], b: string[]): DiffOp[] => {
+  const ops: DiffOp[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  return mergeOps(ops);
+};
+
+// Joins adjacent operations of the same type into a single run
+const mergeOps = (ops: DiffOp[]): DiffOp[] => {
+  const merged: DiffOp[] = [];
+  ops.forEach(op => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === op.type) last.value += op.value;
+    else merged.push({ ...op });
+  });
+  return merged;
+};
+
+// Lines keep their trailing newline so that joined values reproduce the input
+export const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+// Words, whitespace runs and single CJK characters are separate tokens
+export const splitWords = (text: string): string[] =>
+  text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]|\s+|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]+/g) || [];
+
+export const diffLines = (a: string, b: string) => diffTokens(splitLines(a), splitLines(b));
+
+export const diffWords = (a: string, b: string) => diffTokens(splitWords(a), splitWords(b));
+
+// --- Hunks ---
+
+export interface DiffHunk {
+  id: number;
+  removed: string;
+  added: string;
+}
+
+export type HunkSegment = { type: 'equal'; value: string } | ({ type: 'change' } & DiffHunk);
+
+// Groups a diff into independently acceptable changes; changes separated only by
+// whitespace form one hunk so a rewritten phrase is reviewed as a whole
+export const groupHunks = (ops: DiffOp[]): HunkSegment[] => {
+  const segments: HunkSegment[] = [];
+  let nextId = 0;
+  ops.forEach((op, i) => {
+    const last = segments[segments.length - 1];
+    const change = last && last.type === 'change' ? last : null;
+    if (op.type === 'equal') {
+      const following = ops[i + 1];
+      if (change && following && following.type !== 'equal' && !op.value.trim()) {
+        change.removed += op.value;
+        change.added += op.value;
+      } else {
+        segments.push({ type: 'equal', value: op.value });
+      }
+      return;
+    }
+    const target = change || { type: 'change' as const, id: nextId++, removed: '', added: '' };
+    if (!change) segments.push(target);
+    if (op.type === 'delete') target.removed += op.value;
+    else target.added += op.value;
+  });
+  return segments;
+};
+
+// Rebuilds the text keeping the new side of accepted hunks and the old side of the rest
+export const applyHunks = (segments: HunkSegment[], accepted: Set<number>): string =>
+  segments
+    .map(segment => (segment.type === 'equal' ? segment.value : accepted.has(segment.id) ? segment.added : segment.removed))
+    .join('');
+
+// --- Rebasing ---
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Position of base offset `offset` in the edited text. Text inserted exactly at the
+// offset counts as before it when `afterInsertions` is set.
+const mapOffset = (ops: DiffOp[], offset: number, afterInsertions: boolean): number => {
+  let a = 0;
+  let b = 0;
+  for (const op of ops) {
+    const length = op.value.length;
+    if (op.type === 'insert') {
+      if (a < offset || (a === offset && afterInsertions)) b += length;
+      else break;
+      continue;
+    }
+    if (a + length <= offset) {
+      a += length;
+      if (op.type === 'equal') b += length;
+      continue;
+    }
+    return op.type === 'equal' ? b + offset - a : b;
+  }
+  return b;
+};
+
+// Maps `range` in `base` onto `current`, an edited copy of `base`, so a change computed
+// against `base` can still be applied after unrelated edits. Returns null when the edits
+// touched the range itself (for an empty range: removed text around it).
+export const rebaseRange = (base: string, current: string, range: TextRange): TextRange | null => {
+  if (base === current) return range;
+
+  // Only the differing middle is diffed; edits are usually local
+  let prefix = 0;
+  const maxPrefix = Math.min(base.length, current.length);
+  while (prefix < maxPrefix && base[prefix] === current[prefix]) prefix++;
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix && base[base.length - 1 - suffix] === current[current.length - 1 - suffix]) suffix++;
+
+  const ops: DiffOp[] = [
+    { type: 'equal', value: base.slice(0, prefix) },
+    ...diffWords(base.slice(prefix, base.length - suffix), current.slice(prefix, current.length - suffix)),
+    { type: 'equal', value: base.slice(base.length - suffix) }
+  ];
+
+  const isPoint = range.start === range.end;
+  let a = 0;
+  for (const op of ops) {
+    const length = op.value.length;
+    if (op.type === 'insert') {
+      if (range.start < a && a < range.end) return null;
+    } else {
+      const touches = isPoint
+        ? a < range.start && a + length > range.start
+        : a < range.end && a + length > range.start;
+      if (op.type === 'delete' && touches) return null;
+      a += length;
+    }
+  }
+
+  const start = mapOffset(ops, range.start, true);
+  return { start, end: isPoint ? start : mapOffset(ops, range.end, false) };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeFilename, uniqueFilename } from './download';
+
+describe('sanitizeFilename', () => {
+  it('replaces characters file systems reject', () => {
+    expect(sanitizeFilename(' a/b\\c:d*e?f"g<h>i|j\tk ')).toBe('a_b_c_d_e_f_g_h_i_j_k');
+  });
+
+  it('falls back for blank and dot-only names', () => {
+    expect(sanitizeFilename('  ', 'Untitled')).toBe('Untitled');
+    expect(sanitizeFilename('.', 'Untitled')).toBe('Untitled');
+    expect(sanitizeFilename('..', 'Untitled')).toBe('Untitled');
+    expect(sanitizeFilename('...', 'Untitled')).toBe('Untitled');
+    expect(sanitizeFilename('.hidden', 'Untitled')).toBe('.hidden');
+  });
+
+  it('limits the length', () => {
+    expect(sanitizeFilename('x'.repeat(500))).toHaveLength(120);
+  });
+});
+
+describe('uniqueFilename', () => {
+  it('numbers names that are already taken, ignoring case', () => {
+    const taken = new Set<string>();
+    expect(uniqueFilename('Notes', '.md', taken)).toBe('Notes.md');
+    expect(uniqueFilename('notes', '.md', taken)).toBe('notes (2).md');
+    expect(uniqueFilename('Notes', '.md', taken)).toBe('Notes (3).md');
+    expect(uniqueFilename('Notes', '.html', taken)).toBe('Notes.html');
+  });
+});
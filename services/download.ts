@@ -0,0 +1,30 @@
+import { t } from './i18n';
+
+// Triggers a browser download for generated content
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Characters that are not allowed in file names on common file systems. Names made of
+// dots only would refer to the current or parent directory inside an archive.
+export const sanitizeFilename = (name: string, fallback = t('common.untitled')) => {
+  const safe = (name.trim() || fallback).replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').slice(0, 120);
+  return /^\.+$/.test(safe) ? fallback : safe;
+};
+
+// Returns `base` + `ext`, appending " (2)", " (3)"... when the name is already taken
+export const uniqueFilename = (base: string, ext: string, taken: Set<string>) => {
+  let name = `${base}${ext}`;
+  for (let i = 2; taken.has(name.toLowerCase()); i++) {
+    name = `${base} (${i})${ext}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+export const todayStamp = () => new Date().toISOString().split('T')[0];
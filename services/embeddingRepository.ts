@@ -0,0 +1,45 @@
+import { STORES, requestToPromise, withTransaction } from './db';
+
+// A passage of a note together with its unit-length embedding vector
+export interface EmbeddedChunk {
+  text: string;
+  vector: number[];
+}
+
+// Embeddings of one note, valid while both the note content and the embedder match
+export interface NoteEmbeddings {
+  noteId: string;
+  signature: string;   // embedder that produced the vectors, e.g. "local-v1"
+  contentHash: number; // hash of the title and content that were embedded
+  chunks: EmbeddedChunk[];
+}
+
+export interface EmbeddingRepository {
+  loadAll(): Promise<NoteEmbeddings[]>;
+  put(entry: NoteEmbeddings): Promise<void>;
+  remove(noteIds: string[]): Promise<void>;
+}
+
+export const createIndexedDBEmbeddingRepository = (): EmbeddingRepository => ({
+  loadAll() {
+    return withTransaction(STORES.embeddings, 'readonly', (tx) =>
+      requestToPromise<NoteEmbeddings[]>(tx.objectStore(STORES.embeddings).getAll())
+    );
+  },
+
+  async put(entry) {
+    await withTransaction(STORES.embeddings, 'readwrite', (tx) => {
+      tx.objectStore(STORES.embeddings).put(entry);
+    });
+  },
+
+  async remove(noteIds) {
+    if (noteIds.length === 0) return;
+    await withTransaction(STORES.embeddings, 'readwrite', (tx) => {
+      const store = tx.objectStore(STORES.embeddings);
+      noteIds.forEach(id => store.delete(id));
+    });
+  },
+});
+
+export const embeddingRepository = createIndexedDBEmbeddingRepository();
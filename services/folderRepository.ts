@@ -0,0 +1,66 @@
+import { Folder } from '../types';
+import { STORES, requestToPromise, withTransaction } from './db';
+
+export interface FolderRepository {
+  getAll(): Promise<Folder[]>;
+  putMany(folders: Folder[]): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export const createIndexedDBFolderRepository = (): FolderRepository => ({
+  getAll() {
+    return withTransaction(STORES.folders, 'readonly', (tx) =>
+      requestToPromise<Folder[]>(tx.objectStore(STORES.folders).getAll())
+    );
+  },
+
+  async putMany(folders) {
+    if (folders.length === 0) return;
+    await withTransaction(STORES.folders, 'readwrite', (tx) => {
+      const store = tx.objectStore(STORES.folders);
+      folders.forEach(folder => store.put(folder));
+    });
+  },
+
+  async remove(id) {
+    await withTransaction(STORES.folders, 'readwrite', (tx) => {
+      tx.objectStore(STORES.folders).delete(id);
+    });
+  },
+});
+
+export const folderRepository = createIndexedDBFolderRepository();
+
+// --- Tree helpers ---
+
+// Returns the ids of `rootId` and every folder nested below it
+export const getDescendantFolderIds = (folders: Folder[], rootId: string): Set<string> => {
+  const result = new Set<string>([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    folders.forEach(f => {
+      if (f.parentId && result.has(f.parentId) && !result.has(f.id)) {
+        result.add(f.id);
+        added = true;
+      }
+    });
+  }
+  return result;
+};
+
+// A folder may not be moved into itself or one of its own descendants
+export const canMoveFolder = (folders: Folder[], folderId: string, targetParentId: string | null) =>
+  targetParentId === null || !getDescendantFolderIds(folders, folderId).has(targetParentId);
+
+export const getFolderPath = (folders: Folder[], folderId: string | null): Folder[] => {
+  const path: Folder[] = [];
+  const seen = new Set<string>();
+  let current = folders.find(f => f.id === folderId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = folders.find(f => f.id === current!.parentId);
+  }
+  return path;
+};
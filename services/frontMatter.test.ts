@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { FrontMatter, parseFrontMatter, stringifyFrontMatter } from './frontMatter';
+
+const parse = (yaml: string) => parseFrontMatter(`---\n${yaml}\n---\nbody`).data;
+
+describe('parseFrontMatter', () => {
+  it('reads scalars and strips trailing comments', () => {
+    expect(parse('title: Hello # greeting\ncount: 3 # items\ndraft: true\nempty: ~')).toEqual({
+      title: 'Hello',
+      count: 3,
+      draft: true,
+      empty: null
+    });
+  });
+
+  it('keeps # inside quoted values', () => {
+    expect(parse(`a: "x # y" # comment\nb: 'it''s # here'`)).toEqual({ a: 'x # y', b: "it's # here" });
+  });
+
+  it('splits inline lists outside quotes only', () => {
+    expect(parse(`tags: [a, "b, c", 'd, e', it's] # list`)).toEqual({ tags: ['a', 'b, c', 'd, e', "it's"] });
+  });
+
+  it('reads block lists', () => {
+    expect(parse('aliases:\n  - one\n  - "two, three" # note\n')).toEqual({ aliases: ['one', 'two, three'] });
+  });
+});
+
+describe('stringifyFrontMatter', () => {
+  it('reads back losslessly', () => {
+    const data: FrontMatter = {
+      title: 'Notes: part #1',
+      summary: 'a #b',
+      tags: ['plain', 'with, comma', '[bracket]', 'x # y', "it's"],
+      rating: 4,
+      done: false,
+      missing: null
+    };
+    expect(parseFrontMatter(stringifyFrontMatter(data)).data).toEqual(data);
+  });
+});
@@ -0,0 +1,157 @@
+// Minimal YAML front matter support: flat `key: value` pairs with strings, numbers,
+// booleans, inline lists (`[a, b]`) and block lists (`- item`). Nested maps are not
+// needed for note metadata and are ignored.
+
+export type FrontMatterValue = string | number | boolean | null | string[];
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+const FRONT_MATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+const unquote = (raw: string): string => {
+  const value = raw.trim();
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+};
+
+// Index of the quote closing the string that starts at `start`, or -1
+const closingQuote = (text: string, start: number): number => {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') i++;
+    else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") i++; // '' is an escaped quote
+      else return i;
+    }
+  }
+  return -1;
+};
+
+// Indices of the characters outside quoted strings. A quote only opens a string at the
+// start of a value or list item, so apostrophes inside plain words stay literal.
+const unquotedIndices = (text: string): number[] => {
+  const indices: number[] = [];
+  let atValueStart = true;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (atValueStart && (char === '"' || char === "'")) {
+      const end = closingQuote(text, i);
+      if (end >= 0) {
+        i = end;
+        atValueStart = false;
+        continue;
+      }
+    }
+    indices.push(i);
+    atValueStart = char === '[' || char === ',' || (atValueStart && /\s/.test(char));
+  }
+  return indices;
+};
+
+const stripComment = (raw: string): string => {
+  const comment = unquotedIndices(raw).find(i => raw[i] === '#' && i > 0 && /\s/.test(raw[i - 1]));
+  return (comment === undefined ? raw : raw.slice(0, comment)).trim();
+};
+
+const splitInlineList = (inner: string): string[] => {
+  const items: string[] = [];
+  let start = 0;
+  unquotedIndices(inner).forEach(i => {
+    if (inner[i] !== ',') return;
+    items.push(inner.slice(start, i));
+    start = i + 1;
+  });
+  items.push(inner.slice(start));
+  return items;
+};
+
+const parseScalar = (raw: string): FrontMatterValue => {
+  const value = stripComment(raw);
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitInlineList(value.slice(1, -1)).map(unquote).filter(Boolean);
+  }
+  return unquote(value);
+};
+
+export const parseFrontMatter = (text: string): { data: FrontMatter; body: string } => {
+  const match = FRONT_MATTER_PATTERN.exec(text);
+  if (!match) return { data: {}, body: text };
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+
+  match[1].split(/\r?\n/).forEach(line => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+
+    const item = /^\s+-\s*(.*)$/.exec(line) || /^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(stripComment(item[1])));
+      return;
+    }
+
+    const pair = /^([A-Za-z0-9_-]+)\s*:\s*(.*)$/.exec(line);
+    if (!pair) return;
+    const [, key, rawValue] = pair;
+    if (rawValue.trim() === '') {
+      // Possibly the start of a block list
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] = parseScalar(rawValue);
+      listKey = null;
+    }
+  });
+
+  return { data, body: text.slice(match[0].length) };
+};
+
+// Accepts ISO strings, `YYYY-MM-DD HH:mm` and epoch milliseconds
+export const parseFrontMatterDate = (value: FrontMatterValue | undefined): number | null => {
+  if (typeof value === 'number') return value > 1e11 ? value : value * 1000;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const time = Date.parse(value.trim().replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, '$1T$2'));
+  return Number.isNaN(time) ? null : time;
+};
+
+export const toStringList = (value: FrontMatterValue | undefined): string[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split(/[,\s]+/).filter(Boolean);
+  return [];
+};
+
+// --- Serializing ---
+
+const needsQuotes = (value: string) =>
+  value === '' || /^[\s-?:,[\]{}#&*!|>'"%@`]|[:#]\s|\s#|\s$|^(true|false|null|~|-?\d+(\.\d+)?)$/i.test(value) || /\n/.test(value);
+
+// Inside `[a, b]` commas and brackets would also end an item
+const formatListItem = (value: string): string =>
+  needsQuotes(value) || /[,[\]]/.test(value) ? JSON.stringify(value) : value;
+
+const formatScalar = (value: string | number | boolean | null): string => {
+  if (value === null) return 'null';
+  if (typeof value !== 'string') return String(value);
+  return needsQuotes(value) ? JSON.stringify(value) : value;
+};
+
+// Writes a front matter block that `parseFrontMatter` reads back losslessly
+export const stringifyFrontMatter = (data: FrontMatter): string => {
+  const lines = Object.entries(data).map(([key, value]) =>
+    Array.isArray(value)
+      ? `${key}: [${value.map(formatListItem).join(', ')}]`
+      : `${key}: ${formatScalar(value)}`
+  );
+  return `---\n${lines.join('\n')}\n---\n`;
+};
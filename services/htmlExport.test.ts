@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { Note } from '../types';
+import { exportNotesAsSite } from './htmlExport';
+import { t } from './i18n';
+
+const makeNote = (id: string, title: string, content = ''): Note => ({
+  id,
+  title,
+  content,
+  excerpt: '',
+  createdAt: 0,
+  updatedAt: 0,
+  isFavorite: false,
+  folderId: null,
+  tags: []
+});
+
+// jsdom's Blob can only be read through FileReader
+const readBlob = (blob: Blob) => new Promise<ArrayBuffer>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+const readZip = async (blob: Blob) => {
+  const zip = await JSZip.loadAsync(await readBlob(blob));
+  const files: Record<string, string> = {};
+  for (const file of Object.values(zip.files)) {
+    if (!file.dir) files[file.name] = await file.async('string');
+  }
+  return files;
+};
+
+describe('exportNotesAsSite', () => {
+  it('gives every note its own page and links pages by their file names', async () => {
+    const untitled = t('common.untitled');
+    const notes = [
+      makeNote('a', 'Plan: Q1', 'See [[plan: q1]] and [[My Plan]]'),
+      makeNote('b', 'My Plan', 'Back to [[Plan: Q1]]'),
+      makeNote('c', '..'),
+      makeNote('d', 'my plan')
+    ];
+    const files = await readZip(await exportNotesAsSite(notes, [], { formatDate: String }));
+
+    // Pages are named in title order, so the clashing title sorted second is numbered
+    expect(Object.keys(files).sort()).toEqual([
+      'index.html',
+      `notes/${untitled}.html`,
+      'notes/My Plan (2).html',
+      'notes/Plan_ Q1.html',
+      'notes/my plan.html'
+    ].sort());
+    expect(files['notes/Plan_ Q1.html']).toContain(`href="${encodeURIComponent('My Plan (2).html')}"`);
+    expect(files['notes/My Plan (2).html']).toContain(`href="${encodeURIComponent('Plan_ Q1.html')}"`);
+    expect(files['index.html']).toContain(`href="notes/${encodeURIComponent('Plan_ Q1.html')}"`);
+  });
+});
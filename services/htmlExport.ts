@@ -0,0 +1,243 @@
+import JSZip from 'jszip';
+import { Note, Folder } from '../types';
+import { renderMarkdown, escapeHtml } from './markdown';
+import { findBacklinks, findNoteByTitle } from './wikiLinks';
+import { getFolderPath } from './folderRepository';
+import { sanitizeFilename, uniqueFilename } from './download';
+import { getLocale, t } from './i18n';
+
+// Standalone HTML export: every page carries its own styles (light and dark, following
+// the reader's system preference with a manual toggle), so the output works offline or
+// on any static host without the app.
+
+const NOTES_DIR = 'notes';
+
+const STYLES = `
+:root {
+  --bg: #ffffff; --fg: #1f2937; --muted: #6b7280; --border: #e5e7eb;
+  --sidebar: #f9fafb; --accent: #2563eb; --code-bg: #f3f4f6; --active: #e5e7eb;
+  color-scheme: light;
+}
+:root[data-theme="dark"] {
+  --bg: #030712; --fg: #e5e7eb; --muted: #9ca3af; --border: #1f2937;
+  --sidebar: #111827; --accent: #60a5fa; --code-bg: #1f2937; --active: #1f2937;
+  color-scheme: dark;
+}
+@media (prefers-color-scheme: dark) {
+  :root:not([data-theme="light"]) {
+    --bg: #030712; --fg: #e5e7eb; --muted: #9ca3af; --border: #1f2937;
+    --sidebar: #111827; --accent: #60a5fa; --code-bg: #1f2937; --active: #1f2937;
+    color-scheme: dark;
+  }
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0; background: var(--bg); color: var(--fg); line-height: 1.7;
+  font-family: 'Inter', system-ui, -apple-system, "Segoe UI", Roboto, "PingFang SC", "Microsoft YaHei", "Noto Sans CJK SC", sans-serif;
+}
+a { color: var(--accent); }
+.layout { display: flex; min-height: 100vh; }
+.sidebar {
+  width: 260px; flex-shrink: 0; background: var(--sidebar); border-right: 1px solid var(--border);
+  padding: 1.5rem 1rem; position: sticky; top: 0; height: 100vh; overflow-y: auto; font-size: 0.875rem;
+}
+.sidebar .brand { display: block; font-weight: 700; font-size: 1.125rem; color: var(--fg); text-decoration: none; margin-bottom: 1rem; }
+.sidebar ul { list-style: none; margin: 0; padding: 0; }
+.sidebar ul ul { padding-left: 0.75rem; }
+.sidebar .folder { color: var(--muted); font-weight: 600; margin-top: 0.75rem; padding: 0.25rem 0.5rem; }
+.sidebar a.note { display: block; padding: 0.25rem 0.5rem; border-radius: 0.375rem; color: var(--fg); text-decoration: none; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.sidebar a.note:hover, .sidebar a.note.active { background: var(--active); }
+main { flex: 1; min-width: 0; padding: 3rem 2rem; }
+article, .index { max-width: 48rem; margin: 0 auto; }
+.meta { color: var(--muted); font-size: 0.875rem; margin-bottom: 2rem; }
+.tag { display: inline-block; margin-right: 0.5rem; color: var(--accent); }
+h1.title { font-size: 2rem; margin: 0 0 0.5rem; }
+.content h1, .content h2, .content h3 { line-height: 1.3; margin-top: 1.75em; }
+.content img { max-width: 100%; }
+.content pre { background: var(--code-bg); padding: 1rem; border-radius: 0.5rem; overflow-x: auto; }
+.content code { background: var(--code-bg); padding: 0.125rem 0.25rem; border-radius: 0.25rem; font-size: 0.875em; }
+.content pre code { background: none; padding: 0; }
+.content blockquote { margin: 0; padding-left: 1rem; border-left: 4px solid var(--border); color: var(--muted); }
+.content table { border-collapse: collapse; }
+.content th, .content td { border: 1px solid var(--border); padding: 0.375rem 0.75rem; }
+.wikilink { text-decoration: none; border-bottom: 1px solid var(--accent); }
+.wikilink-missing { border-bottom-style: dashed; opacity: 0.7; cursor: default; }
+.backlinks { margin-top: 3rem; padding-top: 1rem; border-top: 1px solid var(--border); font-size: 0.875rem; }
+.backlinks h2, .index h2 { font-size: 1rem; color: var(--muted); }
+.index ul { list-style: none; padding: 0; }
+.index li { padding: 0.75rem 0; border-bottom: 1px solid var(--border); }
+.index .excerpt { color: var(--muted); font-size: 0.875rem; margin-top: 0.25rem; }
+.theme-toggle {
+  position: fixed; top: 1rem; right: 1rem; border: 1px solid var(--border); background: var(--bg);
+  color: var(--fg); border-radius: 9999px; padding: 0.375rem 0.75rem; cursor: pointer; font-size: 0.75rem;
+}
+@media (max-width: 768px) {
+  .layout { flex-direction: column; }
+  .sidebar { width: auto; height: auto; position: static; border-right: 0; border-bottom: 1px solid var(--border); }
+}
+@media print {
+  .sidebar, .theme-toggle { display: none; }
+}
+`;
+
+// Remembers the reader's manual theme choice across pages of the same site
+const THEME_SCRIPT = `
+(function () {
+  var root = document.documentElement;
+  var saved = localStorage.getItem('mindspace_export_theme');
+  if (saved) root.setAttribute('data-theme', saved);
+  document.addEventListener('DOMContentLoaded', function () {
+    var button = document.querySelector('.theme-toggle');
+    if (!button) return;
+    button.addEventListener('click', function () {
+      var dark = root.getAttribute('data-theme')
+        ? root.getAttribute('data-theme') === 'dark'
+        : window.matchMedia('(prefers-color-scheme: dark)').matches;
+      var next = dark ? 'light' : 'dark';
+      root.setAttribute('data-theme', next);
+      localStorage.setItem('mindspace_export_theme', next);
+    });
+  });
+})();
+`;
+
+export interface HtmlExportOptions {
+  formatDate: (timestamp: number) => string;
+  siteTitle?: string;
+}
+
+const renderPage = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+<script>${THEME_SCRIPT}</script>
+</head>
+<body>
+<button class="theme-toggle" type="button">${escapeHtml(t('export.themeToggle'))}</button>
+${body}
+</body>
+</html>
+`;
+
+const renderMeta = (note: Note, { formatDate }: HtmlExportOptions) => {
+  const tags = note.tags.map(tag => `<span class="tag">#${escapeHtml(tag)}</span>`).join('');
+  return `<div class="meta">${escapeHtml(t('export.meta', { created: formatDate(note.createdAt), updated: formatDate(note.updatedAt) }))}${tags ? `<div>${tags}</div>` : ''}</div>`;
+};
+
+// A single note as one page; links to other notes cannot be followed outside the site
+export const exportNoteAsHtml = (note: Note, notes: Note[], options: HtmlExportOptions): Blob => {
+  const title = note.title || t('common.untitled');
+  const content = renderMarkdown(note.content, {
+    resolveWikiLink: (target) => Boolean(findNoteByTitle(notes, target))
+  });
+  const body = `<main><article>
+<h1 class="title">${escapeHtml(title)}</h1>
+${renderMeta(note, options)}
+<div class="content">${content}</div>
+</article></main>`;
+  return new Blob([renderPage(title, body)], { type: 'text/html;charset=utf-8' });
+};
+
+// --- Static Site ---
+
+interface SitePage {
+  note: Note;
+  filename: string;
+}
+
+interface NavTree {
+  folders: Map<string, NavTree>;
+  pages: SitePage[];
+}
+
+const buildNavTree = (pages: SitePage[], folders: Folder[]): NavTree => {
+  const root: NavTree = { folders: new Map(), pages: [] };
+  pages.forEach(page => {
+    let node = root;
+    getFolderPath(folders, page.note.folderId).forEach(folder => {
+      if (!node.folders.has(folder.name)) node.folders.set(folder.name, { folders: new Map(), pages: [] });
+      node = node.folders.get(folder.name)!;
+    });
+    node.pages.push(page);
+  });
+  return root;
+};
+
+const renderNavTree = (tree: NavTree, hrefFor: (page: SitePage) => string, activeId: string | null): string => {
+  const folders = [...tree.folders.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, child]) => `<li><div class="folder">${escapeHtml(name)}</div>${renderNavTree(child, hrefFor, activeId)}</li>`);
+  const pages = tree.pages.map(page =>
+    `<li><a class="note${page.note.id === activeId ? ' active' : ''}" href="${escapeHtml(hrefFor(page))}">${escapeHtml(page.note.title || t('common.untitled'))}</a></li>`
+  );
+  return `<ul>${[...folders, ...pages].join('')}</ul>`;
+};
+
+// Builds a ZIP with `index.html` and one page per note under `notes/`, ready to upload
+export const exportNotesAsSite = async (notes: Note[], folders: Folder[], options: HtmlExportOptions): Promise<Blob> => {
+  const siteTitle = options.siteTitle || 'MindSpace';
+  const taken = new Set<string>();
+  const pages: SitePage[] = [...notes]
+    .sort((a, b) => (a.title || '').localeCompare(b.title || ''))
+    .map(note => ({ note, filename: uniqueFilename(sanitizeFilename(note.title), '.html', taken) }));
+  const pageById = new Map(pages.map(page => [page.note.id, page]));
+  const tree = buildNavTree(pages, folders);
+
+  // Pages live in one flat directory so cross-note links are plain sibling hrefs
+  const siblingHref = (page: SitePage) => encodeURIComponent(page.filename);
+  const fromIndexHref = (page: SitePage) => `${NOTES_DIR}/${siblingHref(page)}`;
+  const pageFor = (title: string) => {
+    const target = findNoteByTitle(notes, title);
+    return target ? pageById.get(target.id) : undefined;
+  };
+
+  const sidebar = (hrefFor: (page: SitePage) => string, indexHref: string, activeId: string | null) =>
+    `<nav class="sidebar"><a class="brand" href="${indexHref}">${escapeHtml(siteTitle)}</a>${renderNavTree(tree, hrefFor, activeId)}</nav>`;
+
+  const zip = new JSZip();
+  pages.forEach(page => {
+    const { note } = page;
+    const title = note.title || t('common.untitled');
+    const content = renderMarkdown(note.content, {
+      resolveWikiLink: (target) => Boolean(pageFor(target)),
+      wikiLinkHref: (target) => {
+        const linked = pageFor(target);
+        return linked ? siblingHref(linked) : null;
+      }
+    });
+    const backlinks = findBacklinks(notes, note)
+      .map(source => pageById.get(source.id))
+      .filter((linked): linked is SitePage => Boolean(linked))
+      .map(linked => `<li><a href="${escapeHtml(siblingHref(linked))}">${escapeHtml(linked.note.title || t('common.untitled'))}</a></li>`);
+    const body = `<div class="layout">
+${sidebar(siblingHref, '../index.html', note.id)}
+<main><article>
+<h1 class="title">${escapeHtml(title)}</h1>
+${renderMeta(note, options)}
+<div class="content">${content}</div>
+${backlinks.length > 0 ? `<section class="backlinks"><h2>${escapeHtml(t('export.backlinks'))}</h2><ul>${backlinks.join('')}</ul></section>` : ''}
+</article></main>
+</div>`;
+    zip.file(`${NOTES_DIR}/${page.filename}`, renderPage(`${title} - ${siteTitle}`, body));
+  });
+
+  const recent = [...pages]
+    .sort((a, b) => b.note.updatedAt - a.note.updatedAt)
+    .map(page => `<li><a href="${escapeHtml(fromIndexHref(page))}">${escapeHtml(page.note.title || t('common.untitled'))}</a>
+<div class="excerpt">${escapeHtml(options.formatDate(page.note.updatedAt))} · ${escapeHtml(page.note.excerpt || '')}</div></li>`);
+  const indexBody = `<div class="layout">
+${sidebar(fromIndexHref, 'index.html', null)}
+<main><div class="index">
+<h1 class="title">${escapeHtml(siteTitle)}</h1>
+<div class="meta">${escapeHtml(t('export.noteCount', { count: pages.length }))}</div>
+<h2>${escapeHtml(t('export.recent'))}</h2>
+<ul>${recent.join('')}</ul>
+</div></main>
+</div>`;
+  zip.file('index.html', renderPage(siteTitle, indexBody));
+
+  return zip.generateAsync({ type: 'blob' });
+};
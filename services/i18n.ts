@@ -0,0 +1,73 @@
+import { zhCN, MessageKey } from '../locales/zh-CN';
+import { en } from '../locales/en';
+
+// UI language. Strings are looked up by key in the active locale's bundle, with
+// `{name}` placeholders filled from params. The locale is module state rather than
+// React context so services (errors, exports) can use the same strings; App re-renders
+// the tree whenever it changes.
+
+export type Locale = 'zh-CN' | 'en';
+export type { MessageKey };
+
+export const LOCALES: Locale[] = ['zh-CN', 'en'];
+
+// Each language named in itself
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'zh-CN': '简体中文',
+  en: 'English'
+};
+
+const BUNDLES: Record<Locale, Record<MessageKey, string>> = { 'zh-CN': zhCN, en };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const detectBrowserLocale = (): Locale =>
+  typeof navigator !== 'undefined' && !navigator.language.toLowerCase().startsWith('zh') ? 'en' : 'zh-CN';
+
+let currentLocale: Locale = detectBrowserLocale();
+
+export const getLocale = () => currentLocale;
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+};
+
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const template = BUNDLES[currentLocale][key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+// A message in every locale, e.g. to recognise default names created in another language
+export const allTranslations = (key: MessageKey): string[] => LOCALES.map(locale => BUNDLES[locale][key]);
+
+// --- Dates ---
+
+export const formatDate = (timestamp: number) =>
+  new Intl.DateTimeFormat(currentLocale, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23' // hour12: false renders midnight as 24:00 in English
+  }).format(new Date(timestamp));
+
+export const formatDay = (timestamp: number) =>
+  new Intl.DateTimeFormat(currentLocale, { year: 'numeric', month: 'long', day: 'numeric' }).format(timestamp);
+
+export const compareText = (a: string, b: string) => a.localeCompare(b, currentLocale);
+
+// --- Language Detection ---
+
+const CHINESE_PATTERN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+const LATIN_PATTERN = /[A-Za-z]/g;
+
+// The locale a text is written in: Chinese once Chinese characters make up a fair share of
+// its letters (a Chinese sentence has far fewer characters than its English translation
+// has letters), otherwise English. Texts without letters follow the UI locale.
+export const detectLanguage = (text: string): Locale => {
+  const chinese = text.match(CHINESE_PATTERN)?.length || 0;
+  const latin = text.match(LATIN_PATTERN)?.length || 0;
+  if (chinese + latin === 0) return currentLocale;
+  return chinese * 4 >= latin ? 'zh-CN' : 'en';
+};
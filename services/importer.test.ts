@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportCandidates } from './importer';
+import { extractTags } from './tags';
+
+const build = (text: string) => buildImportCandidates([{ path: 'note.md', text, lastModified: 0 }], [])[0];
+
+describe('buildImportCandidates', () => {
+  it('keeps front matter tags that read back as the same inline tags', () => {
+    const candidate = build('---\ntags: [machine learning, v1.2, 2024, "#Reading"]\n---\nBody #reading');
+
+    expect(candidate.tags).toEqual(['reading', 'machine-learning', 'v1-2']);
+    expect(candidate.content).toBe('Body #reading\n\n#machine-learning #v1-2\n');
+    // Editing re-derives tags from the content, which must not change them
+    expect(extractTags(candidate.content)).toEqual(candidate.tags);
+    expect(candidate.droppedTags).toEqual(['2024']);
+  });
+
+  it('leaves the body alone when every tag is already inline', () => {
+    const candidate = build('---\ntags: [work]\n---\nNotes #work');
+    expect(candidate.content).toBe('Notes #work');
+    expect(candidate.droppedTags).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+import JSZip from 'jszip';
+import { Note } from '../types';
+import { parseFrontMatter, parseFrontMatterDate, toStringList } from './frontMatter';
+import { extractTags, slugifyTag } from './tags';
+import { t } from './i18n';
+
+// Reads notes from .md/.txt files, directory drops and ZIP archives (including the
+// app's own "export all" ZIP), producing candidates that can be previewed before import.
+
+const NOTE_EXTENSIONS = /\.(md|markdown|txt)$/i;
+const ZIP_EXTENSION = /\.zip$/i;
+// OS metadata that shows up in archives and dropped folders
+const IGNORED_PATH = /(^|\/)(__MACOSX|\.DS_Store|\.git)(\/|$)|(^|\/)\._/;
+
+export interface ImportFile {
+  path: string; // relative path including directories, e.g. "工作/周报.md"
+  text: string;
+  lastModified: number;
+}
+
+export type DuplicateKind = 'content' | 'title';
+
+export interface ImportCandidate {
+  key: string;
+  path: string;
+  folderPath: string[]; // directory names leading to the file
+  title: string;
+  content: string;
+  tags: string[];
+  droppedTags: string[]; // front matter tags that cannot be written as inline tags
+  createdAt: number;
+  updatedAt: number;
+  isFavorite: boolean;
+  duplicate: { kind: DuplicateKind; noteTitle: string } | null;
+}
+
+// --- Reading Sources ---
+
+const readZip = async (data: Blob | ArrayBuffer, prefix: string): Promise<ImportFile[]> => {
+  const zip = await JSZip.loadAsync(data);
+  const entries = Object.values(zip.files).filter(entry =>
+    !entry.dir && NOTE_EXTENSIONS.test(entry.name) && !IGNORED_PATH.test(entry.name)
+  );
+  return Promise.all(entries.map(async entry => ({
+    path: prefix + entry.name,
+    text: await entry.async('string'),
+    lastModified: entry.date ? entry.date.getTime() : Date.now()
+  })));
+};
+
+const readFile = async (file: File, path: string): Promise<ImportFile[]> => {
+  if (IGNORED_PATH.test(path)) return [];
+  if (ZIP_EXTENSION.test(file.name)) {
+    // Files inside an archive are grouped under the archive name only when it was nested in a folder
+    const dir = path.includes('/') ? path.slice(0, path.lastIndexOf('/') + 1) : '';
+    return readZip(file, dir);
+  }
+  if (!NOTE_EXTENSIONS.test(file.name)) return [];
+  return [{ path, text: await file.text(), lastModified: file.lastModified }];
+};
+
+// `webkitRelativePath` is set when files come from a directory picker
+export const readFiles = async (files: File[]): Promise<ImportFile[]> => {
+  const results = await Promise.all(files.map(file =>
+    readFile(file, file.webkitRelativePath || file.name)
+  ));
+  return results.flat();
+};
+
+const readEntry = async (entry: FileSystemEntry, path: string): Promise<ImportFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return readFile(file, path + entry.name);
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in batches until an empty batch is reached
+    while (true) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(child => readEntry(child, `${path}${entry.name}/`)));
+    return nested.flat();
+  }
+  return [];
+};
+
+// Handles a drop that may contain files, folders or archives
+export const readDataTransfer = async (dataTransfer: DataTransfer): Promise<ImportFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return readFiles(Array.from(dataTransfer.files));
+  }
+  const results = await Promise.all(entries.map(entry => readEntry(entry, '')));
+  return results.flat();
+};
+
+// --- Building Candidates ---
+
+const normalizeContent = (content: string) => content.replace(/\r\n/g, '\n').trim();
+
+const fileTitle = (path: string) => {
+  const name = path.split('/').pop() || path;
+  return name.replace(NOTE_EXTENSIONS, '').trim();
+};
+
+const firstHeading = (body: string) => {
+  const match = /^#\s+(.+)$/m.exec(body);
+  return match ? match[1].trim() : null;
+};
+
+export const buildImportCandidates = (files: ImportFile[], existingNotes: Note[]): ImportCandidate[] => {
+  const contentIndex = new Map(existingNotes.map(n => [normalizeContent(n.content), n]));
+  const titleIndex = new Map(existingNotes.map(n => [n.title.trim().toLowerCase(), n]));
+  const seenInBatch = new Map<string, string>();
+
+  return files
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map((file, i) => {
+      const { data, body } = parseFrontMatter(file.text.replace(/\r\n/g, '\n'));
+      const title = String(data.title ?? '').trim() || firstHeading(body) || fileTitle(file.path) || t('common.untitled');
+
+      // Tags are derived from inline tokens, so front matter tags are appended as a tag line
+      // in a form that reads back as the same tag
+      const inlineTags = extractTags(body);
+      const rawMetaTags = toStringList(data.tags ?? data.tag).filter(tag => tag.trim());
+      const metaTags = [...new Set(rawMetaTags.map(slugifyTag).filter((tag): tag is string => tag !== null))];
+      const droppedTags = rawMetaTags.filter(tag => slugifyTag(tag) === null);
+      const missing = metaTags.filter(tag => !inlineTags.includes(tag));
+      const content = missing.length > 0
+        ? `${body.replace(/\s+$/, '')}\n\n${missing.map(tag => `#${tag}`).join(' ')}\n`
+        : body;
+
+      const createdAt = parseFrontMatterDate(data.createdAt ?? data.created ?? data.date) ?? file.lastModified;
+      const updatedAt = parseFrontMatterDate(data.updatedAt ?? data.updated ?? data.modified) ?? Math.max(createdAt, file.lastModified);
+
+      const normalized = normalizeContent(content);
+      let duplicate: ImportCandidate['duplicate'] = null;
+      const sameContent = normalized ? contentIndex.get(normalized) : undefined;
+      const sameTitle = titleIndex.get(title.toLowerCase());
+      if (sameContent) {
+        duplicate = { kind: 'content', noteTitle: sameContent.title };
+      } else if (normalized && seenInBatch.has(normalized)) {
+        duplicate = { kind: 'content', noteTitle: seenInBatch.get(normalized)! };
+      } else if (sameTitle) {
+        duplicate = { kind: 'title', noteTitle: sameTitle.title };
+      }
+      if (normalized && !seenInBatch.has(normalized)) seenInBatch.set(normalized, title);
+
+      const segments = file.path.split('/');
+      return {
+        key: `${i}:${file.path}`,
+        path: file.path,
+        folderPath: segments.slice(0, -1).filter(Boolean),
+        title,
+        content,
+        tags: extractTags(content),
+        droppedTags,
+        createdAt,
+        updatedAt,
+        isFavorite: data.favorite === true || data.isFavorite === true,
+        duplicate
+      };
+    });
+};
@@ -0,0 +1,68 @@
+import { Marked, Token, Tokens } from 'marked';
+import { sanitizeHtml } from './sanitize';
+
+// Single Markdown pipeline shared by the preview and the exports, extending
+// `marked` with `[[wiki links]]`. Output is always sanitized, since notes may contain
+// raw HTML from imports or pastes.
+
+export interface RenderOptions {
+  // Decides whether a wiki link target exists; unresolved links get a distinct style
+  resolveWikiLink?: (title: string) => boolean;
+  // URL for a wiki link target; links without one stay in-app links handled by click
+  wikiLinkHref?: (title: string) => string | null;
+}
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+interface WikiLinkToken extends Tokens.Generic {
+  type: 'wikilink';
+  target: string;
+  label: string;
+}
+
+const createRenderer = (options: RenderOptions) =>
+  new Marked({
+    extensions: [
+      {
+        name: 'wikilink',
+        level: 'inline',
+        start: (src: string) => {
+          const index = src.indexOf('[[');
+          return index === -1 ? undefined : index;
+        },
+        tokenizer: (src: string) => {
+          const match = /^\[\[([^\[\]\n|]+)(?:\|([^\[\]\n]+))?\]\]/.exec(src);
+          if (!match) return undefined;
+          return {
+            type: 'wikilink',
+            raw: match[0],
+            target: match[1].trim(),
+            label: (match[2] || match[1]).trim()
+          } as WikiLinkToken;
+        },
+        renderer: (token: Tokens.Generic) => {
+          const { target, label } = token as WikiLinkToken;
+          const exists = options.resolveWikiLink ? options.resolveWikiLink(target) : true;
+          const className = exists ? 'wikilink' : 'wikilink wikilink-missing';
+          const href = (exists && options.wikiLinkHref?.(target)) || '#';
+          return `<a href="${escapeHtml(href)}" class="${className}" data-wikilink="${escapeHtml(target)}">${escapeHtml(label)}</a>`;
+        }
+      }
+    ]
+  });
+
+const defaultRenderer = createRenderer({});
+
+export const renderMarkdown = (content: string, options?: RenderOptions): string => {
+  const renderer = options ? createRenderer(options) : defaultRenderer;
+  return sanitizeHtml(renderer.parse(content, { async: false }) as string);
+};
+
+// Token stream for exporters that lay out Markdown themselves instead of using HTML
+export const lexMarkdown = (content: string): Token[] => defaultRenderer.lexer(content);
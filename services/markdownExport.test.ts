@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { Folder, Note } from '../types';
+import { parseFrontMatter } from './frontMatter';
+import { buildMarkdownDocument, exportNoteAsMarkdown, exportNotesAsMarkdownZip } from './markdownExport';
+import { t } from './i18n';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgo=';
+
+const makeNote = (id: string, title: string, content: string, extra: Partial<Note> = {}): Note => ({
+  id,
+  title,
+  content,
+  excerpt: '',
+  createdAt: Date.UTC(2024, 0, 1),
+  updatedAt: Date.UTC(2024, 0, 2),
+  isFavorite: false,
+  folderId: null,
+  tags: [],
+  ...extra
+});
+
+const makeFolder = (id: string, name: string, parentId: string | null = null): Folder => ({
+  id, name, parentId, createdAt: 0, updatedAt: 0
+});
+
+// jsdom's Blob can only be read through FileReader
+const readBlob = (blob: Blob) => new Promise<ArrayBuffer>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+const readZip = async (blob: Blob) => {
+  const zip = await JSZip.loadAsync(await readBlob(blob));
+  const files: Record<string, string> = {};
+  for (const file of Object.values(zip.files)) {
+    if (!file.dir) files[file.name] = await file.async('string');
+  }
+  return files;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('buildMarkdownDocument', () => {
+  it('writes the note metadata as front matter', () => {
+    const note = makeNote('n1', 'Title: "quoted"', 'Body #a', { isFavorite: true, tags: ['a'] });
+    const { data, body } = parseFrontMatter(buildMarkdownDocument(note));
+    expect(data).toEqual({
+      id: 'n1',
+      title: 'Title: "quoted"',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+      favorite: true,
+      tags: ['a']
+    });
+    expect(body).toBe('Body #a');
+  });
+});
+
+describe('exportNoteAsMarkdown', () => {
+  it('exports a note without assets as a single file', async () => {
+    const { blob, filename } = await exportNoteAsMarkdown(makeNote('n1', 'a/b', 'Plain text'));
+    expect(filename).toBe('a_b.md');
+    expect(new TextDecoder().decode(await readBlob(blob))).toContain('Plain text');
+  });
+
+  it('names dot-only titles after the fallback', async () => {
+    const { filename } = await exportNoteAsMarkdown(makeNote('n1', '..', 'Text'));
+    expect(filename).toBe(`${t('common.untitled')}.md`);
+  });
+
+  it('bundles embedded images next to the note in a ZIP', async () => {
+    const { blob, filename } = await exportNoteAsMarkdown(makeNote('n1', 'Pics', `![dot](${PIXEL}) <img src="${PIXEL}">`));
+    expect(filename).toBe('Pics.zip');
+    const files = await readZip(blob);
+    expect(Object.keys(files).sort()).toEqual(['Pics.md', 'assets/asset-1.png']);
+    expect(files['Pics.md']).toContain('![dot](assets/asset-1.png) <img src="assets/asset-1.png">');
+  });
+});
+
+describe('exportNotesAsMarkdownZip', () => {
+  it('mirrors folders, numbers clashing names and links assets from each depth', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => ({
+      ok: !url.includes('missing'),
+      blob: async () => new Blob(['gif'], { type: 'image/gif' })
+    })));
+    const folders = [makeFolder('f1', 'Work'), makeFolder('f2', 'Q1: Plans', 'f1')];
+    const notes = [
+      makeNote('n1', 'Idea', `![a](${PIXEL})`),
+      makeNote('n2', 'idea', '![b](https://example.com/b.gif)', { folderId: 'f2' }),
+      makeNote('n3', 'Idea', '![c](https://example.com/missing.png) ![d](local.png)', { folderId: 'f2' })
+    ];
+
+    const files = await readZip(await exportNotesAsMarkdownZip(notes, folders));
+    expect(Object.keys(files).sort()).toEqual([
+      'Idea.md',
+      'Work/Q1_ Plans/Idea (2).md',
+      'Work/Q1_ Plans/idea.md',
+      'assets/asset-1.png',
+      'assets/asset-2.gif'
+    ]);
+    expect(files['Idea.md']).toContain('![a](assets/asset-1.png)');
+    expect(files['Work/Q1_ Plans/idea.md']).toContain('![b](../../assets/asset-2.gif)');
+    // Unavailable and relative images keep their original links
+    expect(files['Work/Q1_ Plans/Idea (2).md']).toContain('![c](https://example.com/missing.png) ![d](local.png)');
+  });
+});
@@ -0,0 +1,141 @@
+import JSZip from 'jszip';
+import { Note, Folder } from '../types';
+import { stringifyFrontMatter } from './frontMatter';
+import { getFolderPath } from './folderRepository';
+import { sanitizeFilename, uniqueFilename } from './download';
+
+// Markdown export: one `.md` file per note with YAML front matter, plus an `assets/`
+// directory holding images the notes reference (embedded data URIs and remote images
+// that can be fetched), so the export opens cleanly in other Markdown tools.
+
+const ASSETS_DIR = 'assets';
+
+// ![alt](url "title") and <img src="url">
+const MARKDOWN_IMAGE = /(!\[[^\]]*\]\(\s*<?)([^)\s>]+)(>?(?:\s+"[^"]*")?\s*\))/g;
+const HTML_IMAGE = /(<img\b[^>]*?\bsrc\s*=\s*["'])([^"']+)(["'])/gi;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp'
+};
+
+export const buildMarkdownDocument = (note: Note, content = note.content) =>
+  stringifyFrontMatter({
+    id: note.id,
+    title: note.title,
+    createdAt: new Date(note.createdAt).toISOString(),
+    updatedAt: new Date(note.updatedAt).toISOString(),
+    favorite: note.isFavorite,
+    tags: note.tags
+  }) + content;
+
+const dataUriToBlob = (uri: string): Blob | null => {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(uri);
+  if (!match) return null;
+  const mime = match[1] || 'application/octet-stream';
+  if (match[2]) {
+    const binary = atob(match[3]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mime });
+  }
+  return new Blob([decodeURIComponent(match[3])], { type: mime });
+};
+
+const extensionFor = (blob: Blob, url: string) => {
+  if (MIME_EXTENSIONS[blob.type]) return MIME_EXTENSIONS[blob.type];
+  const fromUrl = /\.([a-z0-9]{2,5})(?:[?#]|$)/i.exec(url);
+  return fromUrl ? fromUrl[1].toLowerCase() : 'bin';
+};
+
+// Collects assets across notes so an image used by several notes is stored once
+const createAssetBundle = () => {
+  const byUrl = new Map<string, string | null>(); // url -> asset file name, null if unavailable
+  const files = new Map<string, Blob>();
+
+  const resolve = async (url: string): Promise<string | null> => {
+    if (byUrl.has(url)) return byUrl.get(url)!;
+    let blob: Blob | null = null;
+    try {
+      if (url.startsWith('data:')) {
+        blob = dataUriToBlob(url);
+      } else if (/^https?:\/\//i.test(url)) {
+        const response = await fetch(url);
+        if (response.ok) blob = await response.blob();
+      }
+    } catch (e) {
+      // Remote images blocked by CORS or offline stay as links
+      console.warn("Could not bundle asset", url, e);
+    }
+    const name = blob ? `asset-${files.size + 1}.${extensionFor(blob, url)}` : null;
+    if (blob && name) files.set(name, blob);
+    byUrl.set(url, name);
+    return name;
+  };
+
+  // Rewrites asset references in `content` to point into the bundle
+  const rewrite = async (content: string, pathToRoot: string): Promise<string> => {
+    const urls = new Set<string>();
+    for (const match of content.matchAll(MARKDOWN_IMAGE)) urls.add(match[2]);
+    for (const match of content.matchAll(HTML_IMAGE)) urls.add(match[2]);
+    const bundled = new Map<string, string>();
+    for (const url of urls) {
+      if (!url.startsWith('data:') && !/^https?:\/\//i.test(url)) continue;
+      const name = await resolve(url);
+      if (name) bundled.set(url, `${pathToRoot}${ASSETS_DIR}/${name}`);
+    }
+    const replace = (whole: string, before: string, url: string, after: string) =>
+      bundled.has(url) ? `${before}${bundled.get(url)}${after}` : whole;
+    return content.replace(MARKDOWN_IMAGE, replace).replace(HTML_IMAGE, replace);
+  };
+
+  const addTo = (zip: JSZip) => {
+    files.forEach((blob, name) => zip.file(`${ASSETS_DIR}/${name}`, blob));
+  };
+
+  return { rewrite, addTo, get size() { return files.size; } };
+};
+
+export interface MarkdownExport {
+  blob: Blob;
+  filename: string;
+}
+
+// A note without assets exports as a plain .md file; otherwise as a ZIP with its assets
+export const exportNoteAsMarkdown = async (note: Note): Promise<MarkdownExport> => {
+  const base = sanitizeFilename(note.title);
+  const assets = createAssetBundle();
+  const content = await assets.rewrite(note.content, '');
+  const markdown = buildMarkdownDocument(note, content);
+
+  if (assets.size === 0) {
+    return { blob: new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), filename: `${base}.md` };
+  }
+  const zip = new JSZip();
+  zip.file(`${base}.md`, markdown);
+  assets.addTo(zip);
+  return { blob: await zip.generateAsync({ type: 'blob' }), filename: `${base}.zip` };
+};
+
+// Bulk export mirrors the folder tree as directories
+export const exportNotesAsMarkdownZip = async (notes: Note[], folders: Folder[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const assets = createAssetBundle();
+  const takenByDir = new Map<string, Set<string>>();
+
+  for (const note of notes) {
+    const dirs = getFolderPath(folders, note.folderId).map(f => sanitizeFilename(f.name));
+    const dir = dirs.length > 0 ? `${dirs.join('/')}/` : '';
+    if (!takenByDir.has(dir)) takenByDir.set(dir, new Set());
+    const filename = uniqueFilename(sanitizeFilename(note.title), '.md', takenByDir.get(dir)!);
+    const content = await assets.rewrite(note.content, '../'.repeat(dirs.length));
+    zip.file(dir + filename, buildMarkdownDocument(note, content));
+  }
+
+  assets.addTo(zip);
+  return zip.generateAsync({ type: 'blob' });
+};
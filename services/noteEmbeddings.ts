@@ -0,0 +1,194 @@
+import { Note } from '../types';
+import { fnv1a } from './hash';
+import { tokenize } from './searchIndex';
+import { ProviderError } from './aiErrors';
+import { EmbeddedChunk, EmbeddingRepository, NoteEmbeddings, embeddingRepository } from './embeddingRepository';
+
+// Semantic index over note passages for retrieval-augmented chat.
+//
+// Notes are split into passages of a few paragraphs, each embedded either locally
+// (hashed term vectors, no network) or by the configured AI provider. Embeddings are
+// persisted per note and only recomputed when the note or the embedder changes.
+
+const CHUNK_TARGET_LENGTH = 600;
+const LOCAL_DIMENSIONS = 512;
+const EMBED_BATCH_SIZE = 16;
+// Passages scoring below this share little more than common characters with the query
+const MIN_SCORE = 0.05;
+
+// --- Chunking ---
+
+// Splits a note into passages at blank lines, starting a new passage at each heading
+// and packing short paragraphs together up to the target length
+export const chunkNote = (note: Note): string[] => {
+  const paragraphs = note.content
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(p => {
+      const pieces: string[] = [];
+      for (let i = 0; i < p.length; i += CHUNK_TARGET_LENGTH * 2) pieces.push(p.slice(i, i + CHUNK_TARGET_LENGTH * 2));
+      return pieces;
+    });
+
+  const chunks: string[] = [];
+  let current = '';
+  paragraphs.forEach(paragraph => {
+    const startsSection = /^#{1,6}\s/.test(paragraph);
+    if (current && (startsSection || current.length + paragraph.length > CHUNK_TARGET_LENGTH)) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current) chunks.push(current);
+
+  // A note with only a title is still findable
+  return chunks.length > 0 ? chunks : [note.title.trim()].filter(Boolean);
+};
+
+// The title is embedded with every passage so that passages match questions about the note
+const embeddingInput = (note: Note, chunk: string) => (note.title ? `${note.title}\n\n${chunk}` : chunk);
+
+// --- Embedders ---
+
+export interface Embedder {
+  signature: string; // changes whenever vectors from this embedder are not comparable with older ones
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+const normalize = (vector: number[]): number[] => {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length > 0 ? vector.map(v => v / length) : vector;
+};
+
+// Feature hashing: each token adds a signed, log-scaled count to one of a fixed number of
+// buckets. Crude next to a trained model, but works offline and for any language the
+// search tokenizer understands.
+export const embedLocally = (text: string): number[] => {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  counts.forEach((count, token) => {
+    const hash = fnv1a(token);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % LOCAL_DIMENSIONS] += sign * (1 + Math.log(count));
+  });
+  return normalize(vector);
+};
+
+export const localEmbedder: Embedder = {
+  signature: 'local-v1',
+  embed: async (texts) => texts.map(embedLocally)
+};
+
+// --- Index ---
+
+export interface RetrievedPassage {
+  noteId: string;
+  text: string;
+  score: number;
+}
+
+export interface IndexProgress {
+  done: number;
+  total: number;
+}
+
+export interface SyncOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: IndexProgress) => void;
+}
+
+export interface NoteEmbeddingIndex {
+  // Brings the index in line with `notes`: embeds new and changed notes, drops the rest
+  sync(notes: Note[], embedder: Embedder, options?: SyncOptions): Promise<void>;
+  // Best passages for a query vector, compared only with vectors from the same embedder
+  search(queryVector: number[], signature: string, limit: number): RetrievedPassage[];
+}
+
+const contentHash = (note: Note) => fnv1a(`${note.title}\n${note.content}`);
+
+const dot = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+};
+
+export const createNoteEmbeddingIndex = (repository: EmbeddingRepository): NoteEmbeddingIndex => {
+  const entries = new Map<string, NoteEmbeddings>();
+  let loaded: Promise<void> | null = null;
+  // Syncs run one after another so two passes never embed the same note concurrently
+  let queue: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    if (!loaded) {
+      loaded = repository.loadAll()
+        .then(all => all.forEach(entry => entries.set(entry.noteId, entry)))
+        .catch(error => console.error('Failed to load note embeddings', error));
+    }
+    return loaded;
+  };
+
+  const embedNote = async (note: Note, embedder: Embedder, signal?: AbortSignal): Promise<NoteEmbeddings> => {
+    const texts = chunkNote(note);
+    const chunks: EmbeddedChunk[] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await embedder.embed(batch.map(text => embeddingInput(note, text)), signal);
+      // Vectors are matched to passages by position, so a short reply would misalign them
+      if (vectors.length !== batch.length) {
+        throw new ProviderError(`Expected ${batch.length} embeddings, got ${vectors.length}`, null);
+      }
+      batch.forEach((text, j) => chunks.push({ text, vector: normalize(vectors[j]) }));
+    }
+    return { noteId: note.id, signature: embedder.signature, contentHash: contentHash(note), chunks };
+  };
+
+  const runSync = async (notes: Note[], embedder: Embedder, { signal, onProgress }: SyncOptions) => {
+    await load();
+
+    const liveIds = new Set(notes.map(n => n.id));
+    const removed = [...entries.keys()].filter(id => !liveIds.has(id));
+    removed.forEach(id => entries.delete(id));
+    await repository.remove(removed);
+
+    const stale = notes.filter(note => {
+      const entry = entries.get(note.id);
+      return !entry || entry.signature !== embedder.signature || entry.contentHash !== contentHash(note);
+    });
+
+    onProgress?.({ done: 0, total: stale.length });
+    for (let i = 0; i < stale.length; i++) {
+      if (signal?.aborted) return;
+      const entry = await embedNote(stale[i], embedder, signal);
+      entries.set(entry.noteId, entry);
+      await repository.put(entry);
+      onProgress?.({ done: i + 1, total: stale.length });
+    }
+  };
+
+  const sync = (notes: Note[], embedder: Embedder, options: SyncOptions = {}) => {
+    const run = queue.then(() => runSync(notes, embedder, options));
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const search = (queryVector: number[], signature: string, limit: number): RetrievedPassage[] => {
+    const query = normalize(queryVector);
+    const passages: RetrievedPassage[] = [];
+    entries.forEach(entry => {
+      if (entry.signature !== signature) return;
+      entry.chunks.forEach(chunk => {
+        const score = dot(query, chunk.vector);
+        if (score >= MIN_SCORE) passages.push({ noteId: entry.noteId, text: chunk.text, score });
+      });
+    });
+    return passages.sort((a, b) => b.score - a.score).slice(0, limit);
+  };
+
+  return { sync, search };
+};
+
+export const noteEmbeddingIndex = createNoteEmbeddingIndex(embeddingRepository);
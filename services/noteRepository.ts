@@ -0,0 +1,122 @@
+import { Note } from '../types';
+import { STORES, requestToPromise, withTransaction } from './db';
+
+// Key of the legacy single-blob storage that predates IndexedDB
+export const LEGACY_STORAGE_KEY = 'mindspace_notes_v1';
+// An unreadable legacy blob is moved here instead of blocking the migration forever
+export const LEGACY_BACKUP_KEY = 'mindspace_notes_v1_unreadable';
+const MIGRATION_FLAG = 'legacyLocalStorageMigrated';
+const INITIALIZED_FLAG = 'workspaceInitialized';
+
+export interface NoteRepository {
+  getAll(): Promise<Note[]>;
+  put(note: Note): Promise<void>;
+  putMany(notes: Note[]): Promise<void>;
+  remove(id: string): Promise<void>;
+  // True once the workspace has been seeded, so an emptied notebook stays empty
+  isInitialized(): Promise<boolean>;
+  markInitialized(): Promise<void>;
+}
+
+const readMeta = <T>(key: string) =>
+  withTransaction(STORES.meta, 'readonly', (tx) =>
+    requestToPromise<T | undefined>(tx.objectStore(STORES.meta).get(key))
+  );
+
+const writeMeta = (key: string, value: unknown) =>
+  withTransaction(STORES.meta, 'readwrite', (tx) => {
+    tx.objectStore(STORES.meta).put(value, key);
+  });
+
+const parseLegacyNotes = (raw: string): Note[] | null => {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// One-time import of the old `mindspace_notes_v1` blob. The blob is only removed
+// after the notes have been committed to IndexedDB.
+const migrateFromLocalStorage = async () => {
+  if (await readMeta<boolean>(MIGRATION_FLAG)) return;
+
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  const legacyNotes = raw ? parseLegacyNotes(raw) : null;
+  if (raw && !legacyNotes) {
+    console.warn(`Legacy notes could not be read; keeping them under "${LEGACY_BACKUP_KEY}"`);
+    try {
+      localStorage.setItem(LEGACY_BACKUP_KEY, raw);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch {
+      // No room for a second copy: leave the blob under its old key
+    }
+  }
+
+  if (legacyNotes) {
+    await withTransaction([STORES.notes, STORES.meta], 'readwrite', (tx) => {
+      const store = tx.objectStore(STORES.notes);
+      legacyNotes.forEach(note => store.put(note));
+      tx.objectStore(STORES.meta).put(true, INITIALIZED_FLAG);
+      tx.objectStore(STORES.meta).put(true, MIGRATION_FLAG);
+    });
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } else {
+    await writeMeta(MIGRATION_FLAG, true);
+  }
+};
+
+export const createIndexedDBNoteRepository = (): NoteRepository => {
+  let ready: Promise<void> | null = null;
+  const ensureReady = () => {
+    if (!ready) {
+      ready = migrateFromLocalStorage();
+      ready.catch(() => { ready = null; });
+    }
+    return ready;
+  };
+
+  return {
+    async getAll() {
+      await ensureReady();
+      return withTransaction(STORES.notes, 'readonly', (tx) =>
+        requestToPromise<Note[]>(tx.objectStore(STORES.notes).getAll())
+      );
+    },
+
+    async put(note) {
+      await ensureReady();
+      await withTransaction(STORES.notes, 'readwrite', (tx) => {
+        tx.objectStore(STORES.notes).put(note);
+      });
+    },
+
+    async putMany(notes) {
+      if (notes.length === 0) return;
+      await ensureReady();
+      await withTransaction(STORES.notes, 'readwrite', (tx) => {
+        const store = tx.objectStore(STORES.notes);
+        notes.forEach(note => store.put(note));
+      });
+    },
+
+    async remove(id) {
+      await ensureReady();
+      await withTransaction(STORES.notes, 'readwrite', (tx) => {
+        tx.objectStore(STORES.notes).delete(id);
+      });
+    },
+
+    async isInitialized() {
+      await ensureReady();
+      return Boolean(await readMeta<boolean>(INITIALIZED_FLAG));
+    },
+
+    async markInitialized() {
+      await writeMeta(INITIALIZED_FLAG, true);
+    },
+  };
+};
+
+export const noteRepository = createIndexedDBNoteRepository();
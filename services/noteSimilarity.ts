@@ -0,0 +1,143 @@
+import { Note } from '../types';
+import { tokenize } from './searchIndex';
+
+// Note-to-note similarity for "related notes" and near-duplicate detection.
+//
+// Each note becomes a TF-IDF weighted term vector over its title and content, using the
+// same CJK-aware tokens as full-text search, and notes are compared by cosine similarity.
+// Everything runs locally and synchronously, so results follow edits immediately.
+
+const TITLE_WEIGHT = 2;
+const RELATED_MIN_SCORE = 0.08;
+export const DUPLICATE_THRESHOLD = 0.9;
+
+// Term counts depend only on the note object, so unchanged notes are not re-tokenized
+const termCountCache = new WeakMap<Note, Map<string, number>>();
+
+const termCounts = (note: Note): Map<string, number> => {
+  let counts = termCountCache.get(note);
+  if (!counts) {
+    counts = new Map();
+    for (const token of tokenize(note.title)) counts.set(token, (counts.get(token) || 0) + TITLE_WEIGHT);
+    for (const token of tokenize(note.content)) counts.set(token, (counts.get(token) || 0) + 1);
+    termCountCache.set(note, counts);
+  }
+  return counts;
+};
+
+type SparseVector = Map<string, number>;
+
+const cosine = (a: SparseVector, b: SparseVector) => {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((weight, term) => {
+    const other = large.get(term);
+    if (other) sum += weight * other;
+  });
+  return sum;
+};
+
+export interface RelatedNote {
+  note: Note;
+  score: number; // cosine similarity, 0..1
+}
+
+export interface SimilarityModel {
+  related(noteId: string, limit: number): RelatedNote[];
+  // Groups of two or more notes that are all but identical, largest groups first
+  duplicateGroups(threshold?: number): Note[][];
+}
+
+export const createSimilarityModel = (notes: Note[]): SimilarityModel => {
+  const docFreq = new Map<string, number>();
+  notes.forEach(note => termCounts(note).forEach((_, term) => docFreq.set(term, (docFreq.get(term) || 0) + 1)));
+
+  // Built on first use: most renders only ask for one note's neighbours
+  let vectors: Map<string, SparseVector> | null = null;
+  const getVectors = () => {
+    if (vectors) return vectors;
+    vectors = new Map();
+    notes.forEach(note => {
+      const vector: SparseVector = new Map();
+      let length = 0;
+      termCounts(note).forEach((count, term) => {
+        const weight = (1 + Math.log(count)) * Math.log(1 + notes.length / docFreq.get(term)!);
+        vector.set(term, weight);
+        length += weight * weight;
+      });
+      length = Math.sqrt(length);
+      if (length === 0) return; // nothing to compare
+      vector.forEach((weight, term) => vector.set(term, weight / length));
+      vectors!.set(note.id, vector);
+    });
+    return vectors;
+  };
+
+  const related = (noteId: string, limit: number): RelatedNote[] => {
+    const all = getVectors();
+    const own = all.get(noteId);
+    if (!own) return [];
+    return notes
+      .filter(note => note.id !== noteId && all.has(note.id))
+      .map(note => ({ note, score: cosine(own, all.get(note.id)!) }))
+      .filter(r => r.score >= RELATED_MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  };
+
+  const duplicateGroups = (threshold = DUPLICATE_THRESHOLD): Note[][] => {
+    const all = getVectors();
+    const candidates = notes.filter(note => all.has(note.id));
+
+    // Union-find, so chains of near-identical notes end up in one group
+    const parent = new Map(candidates.map(n => [n.id, n.id]));
+    const find = (id: string): string => {
+      const p = parent.get(id)!;
+      if (p === id) return id;
+      const root = find(p);
+      parent.set(id, root);
+      return root;
+    };
+
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        if (cosine(all.get(candidates[i].id)!, all.get(candidates[j].id)!) >= threshold) {
+          parent.set(find(candidates[j].id), find(candidates[i].id));
+        }
+      }
+    }
+
+    const groups = new Map<string, Note[]>();
+    candidates.forEach(note => {
+      const root = find(note.id);
+      groups.set(root, [...(groups.get(root) || []), note]);
+    });
+    return [...groups.values()]
+      .filter(group => group.length > 1)
+      .map(group => group.sort((a, b) => a.createdAt - b.createdAt))
+      .sort((a, b) => b.length - a.length);
+  };
+
+  return { related, duplicateGroups };
+};
+
+// --- Merging ---
+
+// Content for `target` after absorbing `sources`: text already present is skipped, and
+// text from a differently titled note goes under a heading with that title
+export const mergeNoteContents = (target: Note, sources: Note[]): string => {
+  let merged = target.content.trim();
+  sources.forEach(source => {
+    const content = source.content.trim();
+    if (!content || merged.includes(content)) return;
+    if (content.includes(merged)) {
+      merged = content;
+      return;
+    }
+    const heading = source.title.trim() && source.title.trim() !== target.title.trim()
+      ? `## ${source.title.trim()}\n\n`
+      : '';
+    merged = `${merged}\n\n${heading}${content}`;
+  });
+  return merged;
+};
@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsPDF } from 'jspdf';
+import { Note } from '../types';
+import { PaperSize, PdfSettings, renderNotesPdf } from './pdfExport';
+
+const PT_TO_MM = 25.4 / 72;
+
+const note = (id: string, title: string, content: string): Note => ({
+  id, title, content, excerpt: '', updatedAt: 0, createdAt: 0, isFavorite: false, folderId: null, tags: []
+});
+
+const render = (notes: Note[], settings: PdfSettings = { paperSize: 'a4', margin: 20 }, onWarning?: (message: string) => void) =>
+  renderNotesPdf(notes, { settings, formatDate: String, onWarning });
+
+interface PlacedText {
+  text: string;
+  page: number;
+  x: number; // mm from the left edge
+  top: number; // mm from the top edge, of the text's baseline position
+}
+
+// Text drawn with the built-in font is stored uncompressed until output, one `Td` + `Tj` per run
+const placedTexts = (doc: jsPDF): PlacedText[] => {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pages = (doc.internal as unknown as { pages: string[][] }).pages;
+  const texts: PlacedText[] = [];
+  for (let page = 1; page <= doc.getNumberOfPages(); page++) {
+    for (const match of pages[page].join('\n').matchAll(/([\d.]+) ([\d.]+) Td\n\((.*)\) Tj/g)) {
+      texts.push({ text: match[3], page, x: Number(match[1]) * PT_TO_MM, top: pageHeight - Number(match[2]) * PT_TO_MM });
+    }
+  }
+  return texts;
+};
+
+const linkTargets = (doc: jsPDF, page: number): number[] => {
+  const info = (doc.internal as unknown as { getPageInfo(page: number): { pageContext: { annotations: { options?: { pageNumber?: number } }[] } } })
+    .getPageInfo(page);
+  return info.pageContext.annotations.map(annotation => annotation.options?.pageNumber).filter((n): n is number => n !== undefined);
+};
+
+const bookmarks = (doc: jsPDF) =>
+  (doc as unknown as { outline: { root: { children: { title: string; options: { pageNumber: number } }[] } } })
+    .outline.root.children.map(child => ({ title: child.title, page: child.options.pageNumber }));
+
+describe('PDF layout', () => {
+  beforeEach(() => {
+    // Layout is checked with the built-in font, whose text stays readable in the page content
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('offline'); }));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each<[PaperSize, number, number]>([
+    ['a4', 210, 297],
+    ['a5', 148, 210],
+    ['letter', 215.9, 279.4],
+    ['legal', 215.9, 355.6]
+  ])('uses the %s paper size', async (paperSize, width, height) => {
+    const doc = await render([note('1', 'Title', 'Body')], { paperSize, margin: 20 });
+    expect(doc.internal.pageSize.getWidth()).toBeCloseTo(width, 0);
+    expect(doc.internal.pageSize.getHeight()).toBeCloseTo(height, 0);
+  });
+
+  it.each([10, 30])('keeps text inside a %i mm margin', async margin => {
+    const content = Array.from({ length: 80 }, (_, i) => `Paragraph ${i} with enough words to wrap around the line at least once.`).join('\n\n');
+    const doc = await render([note('1', 'Title', content)], { paperSize: 'a5', margin });
+    const width = doc.internal.pageSize.getWidth();
+    const height = doc.internal.pageSize.getHeight();
+    const body = placedTexts(doc).filter(text => !/^\d+ \/ \d+$/.test(text.text)); // page numbers sit in the margin
+
+    expect(doc.getNumberOfPages()).toBeGreaterThan(1);
+    expect(Math.min(...body.map(text => text.x))).toBeCloseTo(margin, 1);
+    body.forEach(text => {
+      expect(text.x).toBeLessThan(width - margin);
+      expect(text.top).toBeGreaterThanOrEqual(margin);
+      expect(text.top).toBeLessThanOrEqual(height - margin);
+    });
+  });
+
+  it('continues a row taller than a page on the next pages', async () => {
+    const words = Array.from({ length: 600 }, (_, i) => `w${i}`);
+    const doc = await render([note('1', 'Table', `| a | b |\n|---|---|\n| ${words.join(' ')} | short |\n| after | row |`)], { paperSize: 'a5', margin: 15 });
+    const height = doc.internal.pageSize.getHeight();
+    const lines = placedTexts(doc).filter(text => /^w\d/.test(text.text));
+
+    expect(lines.flatMap(text => text.text.trim().split(' '))).toEqual(words);
+    expect(new Set(lines.map(text => text.page)).size).toBeGreaterThan(1);
+    lines.forEach(text => expect(text.top).toBeLessThanOrEqual(height - 15));
+    // Lines never go back up the page except when a new page starts
+    lines.slice(1).forEach((text, i) => {
+      if (text.page === lines[i].page) expect(text.top).toBeGreaterThan(lines[i].top);
+      else expect(text.page).toBe(lines[i].page + 1);
+    });
+  });
+
+  it('moves a row that fits on a page to the next page instead of splitting it', async () => {
+    const cell = Array.from({ length: 40 }, (_, i) => `cell${i}`).join(' ');
+    for (let paragraphs = 10; paragraphs < 30; paragraphs++) {
+      const filler = Array.from({ length: paragraphs }, (_, i) => `Filler ${i}`).join('\n\n');
+      const doc = await render([note('1', 'Table', `${filler}\n\n| a |\n|---|\n| ${cell} |`)], { paperSize: 'a5', margin: 15 });
+      const pages = placedTexts(doc).filter(text => text.text.startsWith('cell')).map(text => text.page);
+      expect(new Set(pages).size).toBe(1);
+    }
+  });
+
+  it('starts multi-note exports with a linked table of contents and adds a bookmark per note', async () => {
+    const notes = [note('1', 'First', 'See [[Second|the next note]].'), note('2', 'Second', 'Body'), note('3', 'Third', 'Body')];
+    const doc = await render(notes);
+    const texts = placedTexts(doc);
+    const pageOfTitle = (title: string) => texts.find(text => text.text === title && text.page > 1)!.page;
+
+    expect(bookmarks(doc)).toEqual([
+      { title: 'First', page: pageOfTitle('First') },
+      { title: 'Second', page: pageOfTitle('Second') },
+      { title: 'Third', page: pageOfTitle('Third') }
+    ]);
+    expect(bookmarks(doc).map(bookmark => bookmark.page)).toEqual([2, 3, 4]);
+
+    const contents = texts.filter(text => text.page === 1).map(text => text.text);
+    expect(contents).toEqual(expect.arrayContaining(['First', 'Second', 'Third', '2', '3', '4']));
+    expect(linkTargets(doc, 1)).toEqual([2, 3, 4]);
+    // The wiki link jumps to the linked note's page
+    expect(linkTargets(doc, 2)).toContain(3);
+  });
+
+  it('exports a single note without a table of contents', async () => {
+    const doc = await render([note('1', 'Only', 'Body')]);
+    expect(doc.getNumberOfPages()).toBe(1);
+    expect(bookmarks(doc)).toEqual([{ title: 'Only', page: 1 }]);
+  });
+
+  it('falls back to the built-in font with a warning when the font cannot be loaded', async () => {
+    const onWarning = vi.fn();
+    const doc = await render([note('1', 'Title', 'Body')], undefined, onWarning);
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(Object.keys(doc.getFontList())).not.toContain('NotoSansSC');
+  });
+});
+
+describe('PDF font', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('embeds the CJK font bundled with the app', async () => {
+    const fetchMock = vi.fn(async (url: string) => new Response(readFileSync(`.${url}`)));
+    vi.stubGlobal('fetch', fetchMock);
+    const onWarning = vi.fn();
+    const doc = await render([note('1', '中文笔记', '你好，世界')], undefined, onWarning);
+
+    expect(onWarning).not.toHaveBeenCalled();
+    expect(Object.keys(doc.getFontList())).toContain('NotoSansSC');
+    fetchMock.mock.calls.forEach(([url]) => expect(url).not.toMatch(/^https?:/));
+  });
+});
@@ -0,0 +1,663 @@
+import { jsPDF } from 'jspdf';
+import regularFontUrl from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+import boldFontUrl from '@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf?url';
+import { Token, Tokens } from 'marked';
+import { Note } from '../types';
+import { lexMarkdown } from './markdown';
+import { findNoteByTitle } from './wikiLinks';
+import { t } from './i18n';
+
+// Text-based PDF export: Markdown tokens are laid out directly with jsPDF, so text stays
+// selectable and searchable. A CJK-capable font ships with the app and is embedded (jsPDF
+// subsets it to the glyphs used; a built-in font stands in if it cannot be loaded), and multi-note exports get a table of contents plus one bookmark per note.
+
+export type PaperSize = 'a4' | 'a5' | 'letter' | 'legal';
+
+export interface PdfSettings {
+  paperSize: PaperSize;
+  margin: number; // mm, applied on all four sides
+}
+
+export const PAPER_SIZE_LABELS: Record<PaperSize, string> = {
+  a4: 'A4',
+  a5: 'A5',
+  letter: 'Letter',
+  legal: 'Legal'
+};
+
+export const DEFAULT_PDF_SETTINGS: PdfSettings = { paperSize: 'a4', margin: 20 };
+export const PDF_MARGIN_OPTIONS = [10, 15, 20, 25, 30];
+
+export interface PdfExportOptions {
+  settings: PdfSettings;
+  formatDate: (timestamp: number) => string;
+  onWarning?: (message: string) => void; // the export went ahead with reduced quality
+}
+
+// --- Fonts ---
+
+type FontWeight = 'normal' | 'bold';
+
+const FONT_FAMILY = 'NotoSansSC';
+// Built into jsPDF; covers Latin text only
+const FALLBACK_FONT_FAMILY = 'helvetica';
+// Static TrueType builds, bundled as assets so exports work offline; jsPDF cannot embed
+// CFF-based OTF or WOFF files
+const FONT_FILES: Record<FontWeight, string> = {
+  normal: regularFontUrl,
+  bold: boldFontUrl
+};
+
+let fontCache: Promise<Record<FontWeight, string>> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Fonts are large, so they are loaded once per session and only when exporting.
+// Resolves to null when they cannot be loaded.
+const loadFonts = (): Promise<Record<FontWeight, string> | null> => {
+  if (!fontCache) {
+    fontCache = Promise.all(
+      (Object.keys(FONT_FILES) as FontWeight[]).map(async weight => {
+        const response = await fetch(FONT_FILES[weight]);
+        if (!response.ok) throw new Error(`Font request failed: ${response.status}`);
+        return [weight, toBase64(await response.arrayBuffer())] as const;
+      })
+    ).then(entries => Object.fromEntries(entries) as Record<FontWeight, string>);
+    fontCache.catch(() => { fontCache = null; });
+  }
+  return fontCache.catch(error => {
+    console.warn("Could not load the PDF font", error);
+    return null;
+  });
+};
+
+// --- Images ---
+
+interface LoadedImage {
+  data: string;
+  format: 'PNG' | 'JPEG';
+  width: number; // px
+  height: number;
+}
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const collectImageUrls = (tokens: Token[], urls: Set<string>) => {
+  tokens.forEach(token => {
+    if (token.type === 'image') urls.add((token as Tokens.Image).href);
+    if (token.type === 'list') (token as Tokens.List).items.forEach(item => collectImageUrls(item.tokens, urls));
+    if ('tokens' in token && Array.isArray(token.tokens)) collectImageUrls(token.tokens, urls);
+  });
+};
+
+// Only PNG and JPEG embed reliably; other images fall back to their alt text
+const loadImages = async (doc: jsPDF, urls: Set<string>) => {
+  const images = new Map<string, LoadedImage>();
+  await Promise.all([...urls].map(async url => {
+    try {
+      const blob = await (await fetch(url)).blob();
+      const format = blob.type === 'image/png' ? 'PNG' : blob.type === 'image/jpeg' ? 'JPEG' : null;
+      if (!format) return;
+      const data = await readAsDataUrl(blob);
+      const { width, height } = doc.getImageProperties(data);
+      images.set(url, { data, format, width, height });
+    } catch (e) {
+      console.warn("Could not embed image in PDF", url, e);
+    }
+  }));
+  return images;
+};
+
+// --- Layout ---
+
+const PT_TO_MM = 25.4 / 72;
+const PX_TO_MM = 25.4 / 96;
+const LINE_HEIGHT = 1.6;
+const BODY_SIZE = 11;
+const CODE_SIZE = 9.5;
+const HEADING_SIZES = [20, 16, 14, 12.5, 11.5, 11];
+const LIST_INDENT = 6;
+
+const COLORS = {
+  text: '#1f2937',
+  muted: '#6b7280',
+  link: '#2563eb',
+  code: '#be185d',
+  rule: '#d1d5db',
+  codeBackground: '#f3f4f6'
+};
+
+type LinkTarget = { url: string } | { noteId: string };
+
+interface TextStyle {
+  bold?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  color?: string;
+  link?: LinkTarget;
+}
+
+interface Run {
+  text: string;
+  style: TextStyle;
+}
+
+interface Segment extends Run {
+  width: number;
+}
+
+interface Line {
+  segments: Segment[];
+  width: number;
+}
+
+interface PendingLink {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  noteId: string;
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Line-break opportunities: every CJK character, latin words, runs of spaces, newlines
+const BREAK_PIECES = /\n|[ \t]+|[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]|[^\s\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]+/g;
+
+const lineHeightFor = (size: number) => size * PT_TO_MM * LINE_HEIGHT;
+
+const createPdfWriter = (doc: jsPDF, settings: PdfSettings, images: Map<string, LoadedImage>, fontFamily: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = settings.margin;
+  const contentWidth = pageWidth - margin * 2;
+  const bottom = pageHeight - margin;
+  const pendingLinks: PendingLink[] = [];
+  let resolveNote: (title: string) => Note | undefined = () => undefined;
+  let y = margin;
+
+  const currentPage = () => doc.getCurrentPageInfo().pageNumber;
+
+  const newPage = () => {
+    doc.addPage();
+    y = margin;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom && y > margin) newPage();
+  };
+
+  const applyFont = (style: TextStyle, size: number) => {
+    doc.setFont(fontFamily, style.bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+  };
+
+  // --- Inline content ---
+
+  const inlineRuns = (tokens: Token[], style: TextStyle): Run[] =>
+    tokens.flatMap((token): Run[] => {
+      switch (token.type) {
+        case 'strong':
+          return inlineRuns((token as Tokens.Strong).tokens, { ...style, bold: true });
+        case 'em':
+          // The embedded font has no italic face
+          return inlineRuns((token as Tokens.Em).tokens, style);
+        case 'del':
+          return inlineRuns((token as Tokens.Del).tokens, { ...style, strike: true });
+        case 'codespan':
+          return [{ text: decodeEntities((token as Tokens.Codespan).text), style: { ...style, code: true } }];
+        case 'br':
+          return [{ text: '\n', style }];
+        case 'link': {
+          const { href, tokens: children } = token as Tokens.Link;
+          const link = /^(https?:|mailto:)/i.test(href) ? { url: href } : undefined;
+          return inlineRuns(children, { ...style, color: COLORS.link, link });
+        }
+        case 'wikilink': {
+          const target = resolveNote(token.target);
+          return [{
+            text: token.label,
+            style: { ...style, color: target ? COLORS.link : COLORS.muted, link: target ? { noteId: target.id } : undefined }
+          }];
+        }
+        case 'image':
+          return [{ text: `[${(token as Tokens.Image).text || t('export.image')}]`, style: { ...style, color: COLORS.muted } }];
+        case 'html':
+          return [{ text: (token as Tokens.HTML).text.replace(/<[^>]*>/g, ''), style }];
+        case 'text':
+        case 'escape': {
+          const text = token as Tokens.Text;
+          return text.tokens ? inlineRuns(text.tokens, style) : [{ text: decodeEntities(text.text), style }];
+        }
+        default:
+          return 'text' in token && typeof token.text === 'string' ? [{ text: decodeEntities(token.text), style }] : [];
+      }
+    });
+
+  const measure = (text: string, style: TextStyle, size: number) => {
+    applyFont(style, size);
+    return doc.getTextWidth(text);
+  };
+
+  const layoutRuns = (runs: Run[], size: number, maxWidth: number): Line[] => {
+    const lines: Line[] = [];
+    let line: Line = { segments: [], width: 0 };
+    const pushLine = () => {
+      // Trailing spaces do not count towards alignment
+      while (line.segments.length > 0 && !line.segments[line.segments.length - 1].text.trim()) {
+        line.width -= line.segments.pop()!.width;
+      }
+      lines.push(line);
+      line = { segments: [], width: 0 };
+    };
+    const append = (text: string, style: TextStyle, width: number) => {
+      const last = line.segments[line.segments.length - 1];
+      if (last && last.style === style) {
+        last.text += text;
+        last.width += width;
+      } else {
+        line.segments.push({ text, style, width });
+      }
+      line.width += width;
+    };
+
+    runs.forEach(({ text, style }) => {
+      for (const piece of text.match(BREAK_PIECES) || []) {
+        if (piece === '\n') {
+          pushLine();
+          continue;
+        }
+        const isSpace = !piece.trim();
+        if (isSpace && line.segments.length === 0) continue;
+        const width = measure(piece, style, size);
+        if (line.width + width <= maxWidth) {
+          append(piece, style, width);
+          continue;
+        }
+        if (isSpace) {
+          pushLine();
+          continue;
+        }
+        if (line.segments.length > 0 && width <= maxWidth) {
+          pushLine();
+          append(piece, style, width);
+          continue;
+        }
+        // A word longer than the line (e.g. a URL) is broken between characters
+        for (const char of piece) {
+          const charWidth = measure(char, style, size);
+          if (line.width + charWidth > maxWidth && line.segments.length > 0) pushLine();
+          append(char, style, charWidth);
+        }
+      }
+    });
+    if (line.segments.length > 0 || lines.length === 0) pushLine();
+    return lines;
+  };
+
+  const drawLine = (line: Line, x: number, size: number, color: string, background?: string) => {
+    const height = lineHeightFor(size);
+    ensureSpace(height);
+    if (background) {
+      doc.setFillColor(background);
+      doc.rect(x - 2, y, contentWidth - (x - margin) + 2, height, 'F');
+    }
+    const textTop = y + (height - size * PT_TO_MM) / 2;
+    let cursor = x;
+    line.segments.forEach(segment => {
+      const { style } = segment;
+      applyFont(style, size);
+      doc.setTextColor(style.color || (style.code && !background ? COLORS.code : color));
+      doc.text(segment.text, cursor, textTop, { baseline: 'top' });
+      if (style.strike) {
+        doc.setDrawColor(style.color || color);
+        doc.setLineWidth(0.2);
+        doc.line(cursor, textTop + size * PT_TO_MM * 0.55, cursor + segment.width, textTop + size * PT_TO_MM * 0.55);
+      }
+      if (style.link && 'url' in style.link) {
+        doc.link(cursor, y, segment.width, height, { url: style.link.url });
+      } else if (style.link && 'noteId' in style.link) {
+        // Target pages are only known once every note is laid out
+        pendingLinks.push({ page: currentPage(), x: cursor, y, width: segment.width, height, noteId: style.link.noteId });
+      }
+      cursor += segment.width;
+    });
+    y += height;
+  };
+
+  const drawText = (runs: Run[], x: number, size: number, color = COLORS.text) => {
+    layoutRuns(runs, size, contentWidth - (x - margin)).forEach(line => drawLine(line, x, size, color));
+  };
+
+  const gap = (size = BODY_SIZE) => {
+    y += size * PT_TO_MM * 0.6;
+  };
+
+  const rule = (color = COLORS.rule) => {
+    ensureSpace(2);
+    doc.setDrawColor(color);
+    doc.setLineWidth(0.3);
+    doc.line(margin, y, pageWidth - margin, y);
+    y += 2;
+  };
+
+  // --- Blocks ---
+
+  const drawImage = (image: LoadedImage, x: number) => {
+    const maxWidth = contentWidth - (x - margin);
+    const maxHeight = bottom - margin;
+    let width = image.width * PX_TO_MM;
+    let height = image.height * PX_TO_MM;
+    const scale = Math.min(1, maxWidth / width, maxHeight / height);
+    width *= scale;
+    height *= scale;
+    ensureSpace(height);
+    doc.addImage(image.data, image.format, x, y, width, height);
+    y += height;
+  };
+
+  // Paragraphs are split around embeddable images so images render as blocks
+  const drawParagraph = (tokens: Token[], x: number, color: string) => {
+    let pending: Token[] = [];
+    const flush = () => {
+      const runs = inlineRuns(pending, {});
+      if (runs.some(run => run.text.trim())) drawText(runs, x, BODY_SIZE, color);
+      pending = [];
+    };
+    tokens.forEach(token => {
+      const image = token.type === 'image' ? images.get((token as Tokens.Image).href) : undefined;
+      if (image) {
+        flush();
+        drawImage(image, x);
+      } else {
+        pending.push(token);
+      }
+    });
+    flush();
+  };
+
+  const drawCode = (code: Tokens.Code, x: number) => {
+    const runs = code.text.split('\n').map(text => ({ text: `${text}\n`, style: { code: true } }));
+    const lines = layoutRuns(runs, CODE_SIZE, contentWidth - (x - margin) - 4);
+    const padding = lineHeightFor(CODE_SIZE) / 3;
+    ensureSpace(padding);
+    doc.setFillColor(COLORS.codeBackground);
+    doc.rect(x - 2, y, contentWidth - (x - margin) + 2, padding, 'F');
+    y += padding;
+    lines.forEach(line => drawLine(line, x, CODE_SIZE, COLORS.text, COLORS.codeBackground));
+    doc.setFillColor(COLORS.codeBackground);
+    doc.rect(x - 2, y, contentWidth - (x - margin) + 2, padding, 'F');
+    y += padding;
+  };
+
+  const drawList = (list: Tokens.List, x: number, color: string) => {
+    const start = Number(list.start) || 1;
+    list.items.forEach((item, i) => {
+      const marker = item.task ? (item.checked ? '[x]' : '[ ]') : list.ordered ? `${start + i}.` : '•';
+      ensureSpace(lineHeightFor(BODY_SIZE));
+      applyFont({}, BODY_SIZE);
+      doc.setTextColor(COLORS.muted);
+      doc.text(marker, x, y + (lineHeightFor(BODY_SIZE) - BODY_SIZE * PT_TO_MM) / 2, { baseline: 'top' });
+      drawBlocks(item.tokens.filter(t => t.type !== 'checkbox'), x + LIST_INDENT, color, true);
+    });
+  };
+
+  const drawBlockquote = (quote: Tokens.Blockquote, x: number) => {
+    const startPage = currentPage();
+    const startY = y;
+    drawBlocks(quote.tokens, x + 5, COLORS.muted, true);
+    const endPage = currentPage();
+    doc.setDrawColor(COLORS.rule);
+    doc.setLineWidth(1);
+    for (let page = startPage; page <= endPage; page++) {
+      doc.setPage(page);
+      doc.line(x + 1, page === startPage ? startY : margin, x + 1, page === endPage ? y : bottom);
+    }
+    doc.setPage(endPage);
+  };
+
+  const drawTable = (table: Tokens.Table, x: number) => {
+    const columns = table.header.length;
+    const columnWidth = (contentWidth - (x - margin)) / columns;
+    const padding = 1.5;
+    const lineHeight = lineHeightFor(BODY_SIZE - 1);
+
+    // A row is kept on one page when it fits; taller rows continue on the next page
+    const drawRow = (cells: Tokens.TableCell[], header: boolean) => {
+      const layouts = cells.map(cell =>
+        layoutRuns(inlineRuns(cell.tokens, header ? { bold: true } : {}), BODY_SIZE - 1, columnWidth - padding * 2)
+      );
+      const lineCount = Math.max(...layouts.map(lines => lines.length));
+      ensureSpace(Math.min(lineCount * lineHeight + padding * 2, bottom - margin));
+
+      let first = 0;
+      do {
+        if (first > 0) newPage();
+        const count = Math.min(lineCount - first, Math.max(1, Math.floor((bottom - y - padding * 2) / lineHeight)));
+        const height = count * lineHeight + padding * 2;
+        const rowTop = y;
+        layouts.forEach((lines, column) => {
+          const cellX = x + column * columnWidth;
+          if (header) {
+            doc.setFillColor(COLORS.codeBackground);
+            doc.rect(cellX, rowTop, columnWidth, height, 'F');
+          }
+          doc.setDrawColor(COLORS.rule);
+          doc.setLineWidth(0.2);
+          doc.rect(cellX, rowTop, columnWidth, height, 'S');
+          const align = table.align[column];
+          y = rowTop + padding;
+          // Only lines that fit this part of the row, so drawLine never starts a new page
+          lines.slice(first, first + count).forEach(line => {
+            const free = columnWidth - padding * 2 - line.width;
+            const offset = align === 'center' ? free / 2 : align === 'right' ? free : 0;
+            drawLine(line, cellX + padding + offset, BODY_SIZE - 1, COLORS.text);
+          });
+        });
+        y = rowTop + height;
+        first += count;
+      } while (first < lineCount);
+    };
+
+    drawRow(table.header, true);
+    table.rows.forEach(row => drawRow(row, false));
+  };
+
+  const drawBlocks = (tokens: Token[], x: number, color: string, compact = false) => {
+    tokens.forEach((token, index) => {
+      const isLast = index === tokens.length - 1;
+      switch (token.type) {
+        case 'heading': {
+          const heading = token as Tokens.Heading;
+          const size = HEADING_SIZES[heading.depth - 1] || BODY_SIZE;
+          gap(size);
+          // Keep a heading together with at least one following line
+          ensureSpace(lineHeightFor(size) + lineHeightFor(BODY_SIZE));
+          drawText(inlineRuns(heading.tokens, { bold: true }), x, size, color);
+          if (heading.depth <= 2) rule();
+          break;
+        }
+        case 'paragraph':
+          drawParagraph((token as Tokens.Paragraph).tokens, x, color);
+          break;
+        case 'text': {
+          const text = token as Tokens.Text;
+          drawParagraph(text.tokens || [text], x, color);
+          break;
+        }
+        case 'list':
+          drawList(token as Tokens.List, x, color);
+          break;
+        case 'blockquote':
+          drawBlockquote(token as Tokens.Blockquote, x);
+          break;
+        case 'code':
+          drawCode(token as Tokens.Code, x);
+          break;
+        case 'table':
+          drawTable(token as Tokens.Table, x);
+          break;
+        case 'hr':
+          gap();
+          rule();
+          break;
+        case 'html': {
+          const text = (token as Tokens.HTML).text.replace(/<[^>]*>/g, '').trim();
+          if (text) drawText([{ text: decodeEntities(text), style: {} }], x, BODY_SIZE, color);
+          break;
+        }
+        default:
+          return;
+      }
+      if (!(compact && isLast)) gap();
+    });
+  };
+
+  // --- Notes ---
+
+  const drawNote = (note: Note, formatDate: PdfExportOptions['formatDate']) => {
+    const title = note.title || t('common.untitled');
+    doc.outline.add(null, title, { pageNumber: currentPage() });
+    drawText([{ text: title, style: { bold: true } }], margin, 22);
+    const meta = [t('export.updatedAt', { date: formatDate(note.updatedAt) }), ...note.tags.map(tag => `#${tag}`)].join('  ');
+    drawText([{ text: meta, style: {} }], margin, 9, COLORS.muted);
+    gap();
+    rule();
+    gap();
+    drawBlocks(lexMarkdown(note.content), margin, COLORS.text);
+  };
+
+  const drawTableOfContents = (entries: { title: string; page: number }[], firstPage: number) => {
+    const size = BODY_SIZE;
+    const height = lineHeightFor(size);
+    doc.setPage(firstPage);
+    y = margin;
+    drawText([{ text: t('export.contents'), style: { bold: true } }], margin, 20);
+    gap();
+    entries.forEach(entry => {
+      if (y + height > bottom) {
+        doc.setPage(currentPage() + 1);
+        y = margin;
+      }
+      const pageLabel = String(entry.page);
+      applyFont({}, size);
+      const labelWidth = doc.getTextWidth(pageLabel);
+      const [titleLine] = layoutRuns([{ text: entry.title, style: {} }], size, contentWidth - labelWidth - 8);
+      drawLine(titleLine, margin, size, COLORS.text);
+      y -= height;
+      applyFont({}, size);
+      doc.setTextColor(COLORS.muted);
+      doc.text(pageLabel, pageWidth - margin - labelWidth, y + (height - size * PT_TO_MM) / 2, { baseline: 'top' });
+      doc.link(margin, y, contentWidth, height, { pageNumber: entry.page });
+      y += height;
+    });
+  };
+
+  // Number of pages needed for the contents list, decided before the notes are laid out
+  const tableOfContentsPages = (count: number) => {
+    const titleHeight = lineHeightFor(20) + BODY_SIZE * PT_TO_MM * 0.6;
+    const perPage = Math.floor((bottom - margin) / lineHeightFor(BODY_SIZE));
+    const firstPage = Math.floor((bottom - margin - titleHeight) / lineHeightFor(BODY_SIZE));
+    return count <= firstPage ? 1 : 1 + Math.ceil((count - firstPage) / perPage);
+  };
+
+  const finish = (pageOfNote: Map<string, number>) => {
+    pendingLinks.forEach(link => {
+      const pageNumber = pageOfNote.get(link.noteId);
+      if (!pageNumber) return;
+      doc.setPage(link.page);
+      doc.link(link.x, link.y, link.width, link.height, { pageNumber });
+    });
+
+    const total = doc.getNumberOfPages();
+    for (let page = 1; page <= total; page++) {
+      doc.setPage(page);
+      applyFont({}, 9);
+      doc.setTextColor(COLORS.muted);
+      doc.text(`${page} / ${total}`, pageWidth / 2, pageHeight - margin / 2, { align: 'center', baseline: 'middle' });
+    }
+  };
+
+  return {
+    newPage,
+    currentPage,
+    drawNote,
+    drawTableOfContents,
+    tableOfContentsPages,
+    finish,
+    setNoteResolver: (resolver: typeof resolveNote) => { resolveNote = resolver; }
+  };
+};
+
+// --- Export ---
+
+// Lays notes out in one document; with more than one note a table of contents comes first
+export const renderNotesPdf = async (
+  notes: Note[],
+  { settings, formatDate, onWarning }: PdfExportOptions
+): Promise<jsPDF> => {
+  const fonts = await loadFonts();
+  const doc = new jsPDF({ unit: 'mm', format: settings.paperSize, orientation: 'portrait', compress: true });
+  if (fonts) {
+    (Object.keys(fonts) as FontWeight[]).forEach(weight => {
+      const file = `${FONT_FAMILY}-${weight}.ttf`;
+      doc.addFileToVFS(file, fonts[weight]);
+      doc.addFont(file, FONT_FAMILY, weight);
+    });
+  } else {
+    onWarning?.(t('export.fontFallback'));
+  }
+
+  const urls = new Set<string>();
+  notes.forEach(note => collectImageUrls(lexMarkdown(note.content), urls));
+  const images = await loadImages(doc, urls);
+
+  const writer = createPdfWriter(doc, settings, images, fonts ? FONT_FAMILY : FALLBACK_FONT_FAMILY);
+  writer.setNoteResolver(title => {
+    const target = findNoteByTitle(notes, title);
+    return target && notes.length > 1 ? target : undefined;
+  });
+
+  const withContents = notes.length > 1;
+  const contentsPages = withContents ? writer.tableOfContentsPages(notes.length) : 0;
+  for (let i = 1; i < contentsPages; i++) doc.addPage();
+
+  const pageOfNote = new Map<string, number>();
+  notes.forEach((note, index) => {
+    if (withContents || index > 0) writer.newPage();
+    pageOfNote.set(note.id, writer.currentPage());
+    writer.drawNote(note, formatDate);
+  });
+
+  if (withContents) {
+    writer.drawTableOfContents(
+      notes.map(note => ({ title: note.title || t('common.untitled'), page: pageOfNote.get(note.id)! })),
+      1
+    );
+  }
+  writer.finish(pageOfNote);
+  return doc;
+};
+
+export const exportNotesAsPdf = async (notes: Note[], options: PdfExportOptions): Promise<Blob> =>
+  (await renderNotesPdf(notes, options)).output('blob');
@@ -0,0 +1,47 @@
+// Variable substitution for custom prompt templates.
+//
+//   {{text}}          the text the prompt acts on: the selection, or the whole note
+//   {{selection}}     the selected text only (empty without a selection)
+//   {{title}}         the note title
+//   {{date}}          today's date
+//   {{tags}}          the note's tags, comma separated
+//   {{input:Label}}   a value asked from the user when the prompt runs
+//
+// Unknown variables are left untouched so a typo is visible in the output.
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)(?:\s*:\s*([^}]*?))?\s*\}\}/g;
+
+export interface TemplateVariables {
+  text: string;
+  selection: string;
+  title: string;
+  date: string;
+  tags: string[];
+  inputs: Record<string, string>; // keyed by the {{input:Label}} label
+}
+
+// Labels of the {{input:...}} variables in the order they first appear
+export const findTemplateInputs = (template: string): string[] => {
+  const labels: string[] = [];
+  for (const [, name, label] of template.matchAll(VARIABLE_PATTERN)) {
+    if (name === 'input' && label && !labels.includes(label)) labels.push(label);
+  }
+  return labels;
+};
+
+// Whether the template says where the note text goes; if not, it is appended
+export const usesTextVariable = (template: string): boolean =>
+  [...template.matchAll(VARIABLE_PATTERN)].some(([, name]) => name === 'text' || name === 'selection');
+
+export const renderTemplate = (template: string, variables: TemplateVariables): string =>
+  template.replace(VARIABLE_PATTERN, (match, name: string, label?: string) => {
+    switch (name) {
+      case 'text': return variables.text;
+      case 'selection': return variables.selection;
+      case 'title': return variables.title;
+      case 'date': return variables.date;
+      case 'tags': return variables.tags.join(', ');
+      case 'input': return label !== undefined && label in variables.inputs ? variables.inputs[label] : match;
+      default: return match;
+    }
+  });
@@ -0,0 +1,52 @@
+import { NoteRevision } from '../types';
+import { STORES, requestToPromise, withTransaction } from './db';
+
+// Oldest revisions beyond this count are pruned per note
+const MAX_REVISIONS_PER_NOTE = 100;
+
+export interface RevisionRepository {
+  // Newest first
+  listForNote(noteId: string): Promise<NoteRevision[]>;
+  // Skips the write when the snapshot equals the note's latest revision
+  add(revision: NoteRevision): Promise<boolean>;
+  removeForNote(noteId: string): Promise<void>;
+}
+
+const byNewest = (a: NoteRevision, b: NoteRevision) => b.createdAt - a.createdAt;
+
+export const createIndexedDBRevisionRepository = (): RevisionRepository => ({
+  async listForNote(noteId) {
+    const revisions = await withTransaction(STORES.revisions, 'readonly', (tx) =>
+      requestToPromise<NoteRevision[]>(tx.objectStore(STORES.revisions).index('noteId').getAll(noteId))
+    );
+    return revisions.sort(byNewest);
+  },
+
+  add(revision) {
+    return withTransaction(STORES.revisions, 'readwrite', async (tx) => {
+      const store = tx.objectStore(STORES.revisions);
+      const existing = (await requestToPromise<NoteRevision[]>(
+        store.index('noteId').getAll(revision.noteId)
+      )).sort(byNewest);
+
+      const latest = existing[0];
+      if (latest && latest.title === revision.title && latest.content === revision.content) {
+        return false;
+      }
+
+      store.put(revision);
+      existing.slice(MAX_REVISIONS_PER_NOTE - 1).forEach(old => store.delete(old.id));
+      return true;
+    });
+  },
+
+  async removeForNote(noteId) {
+    await withTransaction(STORES.revisions, 'readwrite', async (tx) => {
+      const store = tx.objectStore(STORES.revisions);
+      const keys = await requestToPromise(store.index('noteId').getAllKeys(noteId));
+      keys.forEach(key => store.delete(key));
+    });
+  },
+});
+
+export const revisionRepository = createIndexedDBRevisionRepository();
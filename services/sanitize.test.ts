@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './sanitize';
+import { renderMarkdown } from './markdown';
+
+// Parses sanitized output again to inspect what a browser would actually see
+const parse = (html: string) => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+};
+
+const attributesOf = (html: string) =>
+  Array.from(parse(html).querySelectorAll('*')).flatMap(element =>
+    Array.from(element.attributes).map(attribute => `${element.tagName.toLowerCase()}[${attribute.name}]`)
+  );
+
+describe('sanitizeHtml', () => {
+  it('drops script elements with their content', () => {
+    const html = sanitizeHtml('<p>ok</p><script>alert(1)</script>');
+    expect(html).toBe('<p>ok</p>');
+  });
+
+  it('strips event handler attributes', () => {
+    const html = sanitizeHtml('<img src=x onerror="alert(1)"><p onclick="alert(1)" onmouseover=alert(1)>hi</p>');
+    expect(attributesOf(html)).toEqual(['img[src]']);
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JaVaScRiPt:alert(1)',
+    ' javascript:alert(1)',
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    '\u0001javascript:alert(1)',
+    'javascript&colon;alert(1)',
+    '&#106;avascript:alert(1)',
+    '&#x6A;avascript:alert(1)',
+    'jav&#x09;ascript:alert(1)',
+    'vbscript:msgbox(1)'
+  ])('removes the href %j', href => {
+    const html = sanitizeHtml(`<a href="${href}">link</a>`);
+    expect(parse(html).querySelector('a')!.hasAttribute('href')).toBe(false);
+  });
+
+  it('keeps http, https, mailto and relative links', () => {
+    const hrefs = ['https://example.com', 'http://example.com', 'mailto:a@example.com', '#section', 'notes/a.html'];
+    const html = sanitizeHtml(hrefs.map(href => `<a href="${href}">x</a>`).join(''));
+    expect(Array.from(parse(html).querySelectorAll('a')).map(a => a.getAttribute('href'))).toEqual(hrefs);
+  });
+
+  it('removes data URIs except raster images', () => {
+    const html = sanitizeHtml([
+      '<a href="data:text/html,<script>alert(1)</script>">a</a>',
+      '<img src="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">',
+      '<img src="data:image/svg+xml,<svg onload=alert(1)>">',
+      '<img src="data:image/png;base64,iVBORw0KGgo=">'
+    ].join(''));
+    const container = parse(html);
+    expect(container.querySelector('a')!.hasAttribute('href')).toBe(false);
+    expect(Array.from(container.querySelectorAll('img')).map(img => img.getAttribute('src'))).toEqual([
+      null,
+      null,
+      'data:image/png;base64,iVBORw0KGgo='
+    ]);
+  });
+
+  it.each([
+    '<svg onload=alert(1)><script>alert(1)</script></svg>',
+    '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>',
+    '<math><mi xlink:href="javascript:alert(1)">x</mi></math>',
+    '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>'
+  ])('drops SVG and MathML payloads: %s', payload => {
+    const html = sanitizeHtml(`<p>before</p>${payload}`);
+    expect(html).not.toMatch(/svg|math|onerror|onload|javascript/i);
+  });
+
+  it.each([
+    '<iframe src="javascript:alert(1)"></iframe>',
+    '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+    '<object data="javascript:alert(1)"></object>',
+    '<embed src="javascript:alert(1)">',
+    '<form action="javascript:alert(1)"><button>go</button></form>',
+    '<base href="javascript:alert(1)//">',
+    '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">'
+  ])('drops embedding elements: %s', payload => {
+    expect(sanitizeHtml(payload)).toBe('');
+  });
+
+  it('removes style attributes and style elements', () => {
+    const html = sanitizeHtml('<p style="background:url(javascript:alert(1))">x</p><style>body{display:none}</style>');
+    expect(html).toBe('<p>x</p>');
+  });
+
+  it('unwraps unknown elements but keeps their text', () => {
+    expect(sanitizeHtml('<custom-el onclick="alert(1)">text</custom-el>')).toBe('text');
+  });
+
+  it('drops comments that could hide markup', () => {
+    expect(sanitizeHtml('<!-- <img src=x onerror=alert(1)> -->ok')).toBe('ok');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('sanitizes raw HTML inside Markdown', () => {
+    const html = renderMarkdown('# Title\n\n<img src=x onerror=alert(1)>\n\n[click](javascript:alert(1))');
+    expect(html).not.toMatch(/onerror|javascript:/i);
+    expect(parse(html).querySelector('h1')!.textContent).toBe('Title');
+  });
+
+  it('keeps a wiki link title from breaking out of its attribute', () => {
+    const html = renderMarkdown('[["><img src=x onerror=alert(1)> x" onmouseover="alert(1)]]');
+    const container = parse(html);
+    const link = container.querySelector('a')!;
+    expect(container.querySelector('img')).toBeNull();
+    expect(link.getAttribute('data-wikilink')).toBe('"><img src=x onerror=alert(1)> x" onmouseover="alert(1)');
+    expect(attributesOf(html).sort()).toEqual(['a[class]', 'a[data-wikilink]', 'a[href]']);
+  });
+
+  it('escapes wiki link labels', () => {
+    const html = renderMarkdown('[[Note|<script>alert(1)</script>]]');
+    const link = parse(html).querySelector('a')!;
+    expect(link.textContent).toBe('<script>alert(1)</script>');
+    expect(link.querySelector('script')).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+// Allowlist-based HTML sanitizer for rendered Markdown. Notes come from imports, pastes
+// and AI output, so raw HTML inside them must never run script in the app or in exports.
+// Parsing happens in an inert DOMParser document, where scripts don't run and images
+// don't load.
+
+// Elements whose content is dropped along with them; other unknown elements are
+// unwrapped so their text survives
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'template',
+  'noscript', 'noembed', 'svg', 'math', 'form', 'textarea', 'select', 'button', 'link', 'meta', 'base', 'title'
+]);
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'del', 'details', 'div', 'em', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'hr', 'i', 'img', 'input', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's',
+  'small', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th',
+  'thead', 'tr', 'u', 'ul'
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['class', 'title', 'lang', 'dir']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href', 'data-wikilink']),
+  img: new Set(['src', 'alt', 'width', 'height']),
+  input: new Set(['type', 'checked', 'disabled']),
+  ol: new Set(['start']),
+  td: new Set(['align', 'colspan', 'rowspan']),
+  th: new Set(['align', 'colspan', 'rowspan']),
+  details: new Set(['open'])
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+const HAS_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+const SAFE_SCHEME = /^(?:https?|mailto):/i;
+const SAFE_IMAGE_DATA = /^data:image\/(?:png|jpe?g|gif|webp|bmp);/i;
+
+const isSafeUrl = (value: string, attribute: string) => {
+  // Browsers ignore control characters and whitespace when reading the scheme
+  const normalized = value.replace(/[\u0000-\u0020\u007F-\u009F]/g, '');
+  if (attribute === 'src' && SAFE_IMAGE_DATA.test(normalized)) return true;
+  return !HAS_SCHEME.test(normalized) || SAFE_SCHEME.test(normalized);
+};
+
+const sanitizeElement = (element: Element) => {
+  const tag = element.tagName.toLowerCase();
+  const allowed = TAG_ATTRIBUTES[tag];
+  Array.from(element.attributes).forEach(({ name, value }) => {
+    const keep =
+      (GLOBAL_ATTRIBUTES.has(name) || Boolean(allowed?.has(name))) &&
+      (!URL_ATTRIBUTES.has(name) || isSafeUrl(value, name));
+    if (!keep) element.removeAttribute(name);
+  });
+  // Only the read-only task list checkboxes that Markdown produces
+  if (tag === 'input' && element.getAttribute('type') !== 'checkbox') {
+    element.remove();
+    return;
+  }
+  if (tag === 'input') element.setAttribute('disabled', '');
+};
+
+const sanitizeChildren = (parent: Node) => {
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType === Node.COMMENT_NODE) {
+      node.remove();
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROP_WITH_CONTENT.has(tag)) {
+      element.remove();
+      return;
+    }
+    sanitizeChildren(element);
+    if (!ALLOWED_TAGS.has(tag)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      return;
+    }
+    sanitizeElement(element);
+  });
+};
+
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><body>${html}`, 'text/html');
+  sanitizeChildren(doc.body);
+  return doc.body.innerHTML;
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { Folder, Note } from '../types';
+import { createSearchIndex, isEmptyQuery, parseQuery, tokenize } from './searchIndex';
+
+const makeNote = (id: string, title: string, content: string, extra: Partial<Note> = {}): Note => ({
+  id,
+  title,
+  content,
+  excerpt: '',
+  createdAt: 0,
+  updatedAt: 0,
+  isFavorite: false,
+  folderId: null,
+  tags: [],
+  ...extra
+});
+
+const makeFolder = (id: string, name: string, parentId: string | null = null): Folder => ({
+  id, name, parentId, createdAt: 0, updatedAt: 0
+});
+
+const searchIds = (notes: Note[], query: string, folders: Folder[] = []) => {
+  const index = createSearchIndex();
+  index.sync(notes);
+  return index.search(parseQuery(query), { notes, folders }).map(r => r.noteId);
+};
+
+describe('tokenize', () => {
+  it('splits CJK runs into characters and overlapping bigrams', () => {
+    expect(tokenize('笔记本')).toEqual(['笔', '笔记', '记', '记本', '本']);
+  });
+
+  it('lowercases words and separates them from adjacent CJK text', () => {
+    expect(tokenize('React组件 Hooks!')).toEqual(['react', '组', '组件', '件', 'hooks']);
+  });
+});
+
+describe('parseQuery', () => {
+  it('sorts words, phrases, tags and folders into their fields', () => {
+    expect(parseQuery('Alpha -beta "Exact Phrase" -"not this" tag:#Work -tag:old in:Projects -in:Archive')).toEqual({
+      terms: ['alpha'],
+      phrases: ['exact phrase'],
+      excluded: ['beta'],
+      excludedPhrases: ['not this'],
+      tags: ['work'],
+      excludedTags: ['old'],
+      folders: ['projects'],
+      excludedFolders: ['archive']
+    });
+  });
+
+  it('accepts quoted folder names and an unterminated quote', () => {
+    const parsed = parseQuery('in:"Reading List" "open ended');
+    expect(parsed.folders).toEqual(['reading list']);
+    expect(parsed.phrases).toEqual(['open ended']);
+  });
+
+  it('ignores empty quotes', () => {
+    expect(isEmptyQuery(parseQuery('"" -"" tag:""'))).toBe(true);
+  });
+});
+
+describe('search', () => {
+  it('ranks title matches above content matches', () => {
+    const notes = [
+      makeNote('body', 'Groceries', 'remember the garden hose'),
+      makeNote('title', 'Garden plans', 'tomatoes and beans')
+    ];
+    expect(searchIds(notes, 'garden')).toEqual(['title', 'body']);
+  });
+
+  it('ranks an exact phrase above scattered words', () => {
+    const notes = [
+      makeNote('scattered', 'Notes', 'the release went out; the notes were late'),
+      makeNote('phrase', 'Notes', 'draft the release notes today')
+    ];
+    expect(searchIds(notes, 'release notes')[0]).toBe('phrase');
+    expect(searchIds(notes, '"release notes"')).toEqual(['phrase']);
+  });
+
+  it('matches words by prefix and requires every term', () => {
+    const notes = [
+      makeNote('a', 'Typescript generics', ''),
+      makeNote('b', 'Typescript basics', '')
+    ];
+    expect(searchIds(notes, 'types gener')).toEqual(['a']);
+  });
+
+  it('requires CJK terms to appear contiguously', () => {
+    const notes = [
+      makeNote('split', '笔记', '本子'),
+      makeNote('whole', '新笔记本', '')
+    ];
+    expect(searchIds(notes, '笔记本')).toEqual(['whole']);
+  });
+
+  it('excludes whole words only', () => {
+    const notes = [
+      makeNote('cat', 'Pets', 'a cat and a dog'),
+      makeNote('category', 'Pets', 'a category of dog')
+    ];
+    expect(searchIds(notes, 'dog -cat')).toEqual(['category']);
+  });
+
+  it('filters by tag and by folder, including subfolders', () => {
+    const folders = [makeFolder('work', 'Work'), makeFolder('sub', 'Meetings', 'work')];
+    const notes = [
+      makeNote('tagged', 'Plan', 'plan #q3', { tags: ['q3'], folderId: 'sub' }),
+      makeNote('untagged', 'Plan', 'plan', { folderId: 'sub' }),
+      makeNote('elsewhere', 'Plan', 'plan #q3', { tags: ['q3'] })
+    ];
+    expect(searchIds(notes, 'plan tag:q3 in:work', folders)).toEqual(['tagged']);
+    expect(searchIds(notes, 'plan -in:work', folders)).toEqual(['elsewhere']);
+    expect(searchIds(notes, 'plan -tag:q3', folders)).toEqual(['untagged']);
+  });
+
+  it('re-indexes only changed notes and drops removed ones on sync', () => {
+    const index = createSearchIndex();
+    const first = makeNote('a', 'Apples', '');
+    const second = makeNote('b', 'Bananas', '');
+    index.sync([first, second]);
+
+    const renamed = { ...first, title: 'Cherries' };
+    index.sync([renamed]);
+    const search = (q: string) => index.search(parseQuery(q), { notes: [renamed], folders: [] }).map(r => r.noteId);
+    expect(search('apples')).toEqual([]);
+    expect(search('cherries')).toEqual(['a']);
+    expect(search('bananas')).toEqual([]);
+  });
+});
@@ -0,0 +1,322 @@
+import { Note, Folder } from '../types';
+import { normalizeTag } from './tags';
+import { getDescendantFolderIds } from './folderRepository';
+
+// In-memory inverted index over note titles and content.
+//
+// Tokenization is CJK-aware: runs of Chinese/Japanese/Korean characters have no word
+// boundaries, so they are indexed as single characters plus overlapping bigrams,
+// while other scripts are split into lowercase words.
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]+|(?:(?![\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af])[\p{L}\p{N}_])+/gu;
+
+const TITLE_BOOST = 3;
+const SNIPPET_RADIUS = 40;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    const run = match[0];
+    if (CJK_CHAR.test(run[0])) {
+      const chars = [...run];
+      chars.forEach((char, i) => {
+        tokens.push(char);
+        if (i < chars.length - 1) tokens.push(char + chars[i + 1]);
+      });
+    } else {
+      tokens.push(run);
+    }
+  }
+  return tokens;
+};
+
+// Query terms use bigrams only for CJK runs longer than one character, so that
+// "笔记本" requires "笔记" and "记本" rather than every single character
+const tokenizeQuery = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    const run = match[0];
+    const chars = [...run];
+    if (CJK_CHAR.test(run[0]) && chars.length > 1) {
+      for (let i = 0; i < chars.length - 1; i++) tokens.push(chars[i] + chars[i + 1]);
+    } else {
+      tokens.push(run);
+    }
+  }
+  return tokens;
+};
+
+// Terms containing CJK text, or made only of punctuation, are checked as substrings
+const needsVerbatimMatch = (term: string) => CJK_CHAR.test(term) || tokenizeQuery(term).length === 0;
+
+// --- Query Parsing ---
+
+export interface ParsedQuery {
+  terms: string[];      // free words, all must match
+  phrases: string[];    // "quoted phrases", matched verbatim
+  excluded: string[];   // -word, matched as whole words
+  excludedPhrases: string[]; // -"phrase", matched verbatim
+  tags: string[];       // tag:name
+  excludedTags: string[]; // -tag:name
+  folders: string[];    // in:folder name
+  excludedFolders: string[]; // -in:folder name
+}
+
+const QUERY_PATTERN = /(-?)(?:(tag|in):)?(?:"([^"]*)"?|(\S+))/g;
+
+export const parseQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = {
+    terms: [],
+    phrases: [],
+    excluded: [],
+    excludedPhrases: [],
+    tags: [],
+    excludedTags: [],
+    folders: [],
+    excludedFolders: []
+  };
+  for (const match of query.matchAll(QUERY_PATTERN)) {
+    const [, negate, field, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    if (!value) continue;
+
+    if (field === 'tag') {
+      (negate ? parsed.excludedTags : parsed.tags).push(normalizeTag(value));
+    } else if (field === 'in') {
+      (negate ? parsed.excludedFolders : parsed.folders).push(value.toLowerCase());
+    } else if (negate) {
+      (quoted !== undefined ? parsed.excludedPhrases : parsed.excluded).push(value.toLowerCase());
+    } else if (quoted !== undefined) {
+      parsed.phrases.push(value.toLowerCase());
+    } else {
+      parsed.terms.push(value.toLowerCase());
+    }
+  }
+  return parsed;
+};
+
+export const isEmptyQuery = (q: ParsedQuery) =>
+  Object.values(q).every((values: string[]) => values.length === 0);
+
+// --- Highlighting ---
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits `text` into plain and matched segments for the given needles (case-insensitive)
+export const highlight = (text: string, needles: string[]): HighlightSegment[] => {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  needles.filter(Boolean).forEach(needle => {
+    let index = lower.indexOf(needle);
+    while (index !== -1) {
+      ranges.push([index, index + needle.length]);
+      index = lower.indexOf(needle, index + needle.length);
+    }
+  });
+  if (ranges.length === 0) return [{ text, match: false }];
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  });
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  merged.forEach(([start, end]) => {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    cursor = end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+};
+
+const buildSnippet = (content: string, needles: string[]): HighlightSegment[] => {
+  const lower = content.toLowerCase();
+  const positions = needles.map(n => lower.indexOf(n)).filter(i => i !== -1);
+  if (positions.length === 0) {
+    return [{ text: content.substring(0, SNIPPET_RADIUS * 2), match: false }];
+  }
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(content.length, first + SNIPPET_RADIUS * 2);
+  const window = (start > 0 ? '…' : '') + content.slice(start, end).replace(/\s+/g, ' ') + (end < content.length ? '…' : '');
+  return highlight(window, needles);
+};
+
+// --- Index ---
+
+interface Posting {
+  titleFreq: number;
+  contentFreq: number;
+}
+
+export interface SearchResult {
+  noteId: string;
+  score: number;
+  titleSegments: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+export interface SearchContext {
+  notes: Note[];
+  folders: Folder[];
+}
+
+export interface SearchIndex {
+  upsert(note: Note): void;
+  remove(noteId: string): void;
+  sync(notes: Note[]): void;
+  search(query: ParsedQuery, context: SearchContext): SearchResult[];
+}
+
+export const createSearchIndex = (): SearchIndex => {
+  const postings = new Map<string, Map<string, Posting>>();
+  const noteTerms = new Map<string, string[]>();
+  const docLengths = new Map<string, number>();
+  const indexedNotes = new Map<string, Note>();
+
+  const remove = (noteId: string) => {
+    (noteTerms.get(noteId) || []).forEach(term => {
+      const list = postings.get(term);
+      list?.delete(noteId);
+      if (list && list.size === 0) postings.delete(term);
+    });
+    noteTerms.delete(noteId);
+    docLengths.delete(noteId);
+    indexedNotes.delete(noteId);
+  };
+
+  const upsert = (note: Note) => {
+    remove(note.id);
+    const counts = new Map<string, Posting>();
+    const titleTokens = tokenize(note.title);
+    const contentTokens = tokenize(note.content);
+    titleTokens.forEach(t => {
+      const p = counts.get(t) || { titleFreq: 0, contentFreq: 0 };
+      p.titleFreq++;
+      counts.set(t, p);
+    });
+    contentTokens.forEach(t => {
+      const p = counts.get(t) || { titleFreq: 0, contentFreq: 0 };
+      p.contentFreq++;
+      counts.set(t, p);
+    });
+    counts.forEach((posting, term) => {
+      if (!postings.has(term)) postings.set(term, new Map());
+      postings.get(term)!.set(note.id, posting);
+    });
+    noteTerms.set(note.id, [...counts.keys()]);
+    docLengths.set(note.id, titleTokens.length * TITLE_BOOST + contentTokens.length);
+    indexedNotes.set(note.id, note);
+  };
+
+  // Re-indexes only notes whose object identity changed since they were indexed, so
+  // calling it again with the same array is a no-op
+  const sync = (notes: Note[]) => {
+    const ids = new Set(notes.map(n => n.id));
+    [...indexedNotes.keys()].filter(id => !ids.has(id)).forEach(remove);
+    notes.filter(n => indexedNotes.get(n.id) !== n).forEach(upsert);
+  };
+
+  // Latin words match by prefix so results appear while a word is still being typed
+  const expandTerm = (token: string): string[] => {
+    if (CJK_CHAR.test(token[0])) return postings.has(token) ? [token] : [];
+    return [...postings.keys()].filter(term => term.startsWith(token));
+  };
+
+  const search = (query: ParsedQuery, { notes, folders }: SearchContext): SearchResult[] => {
+    const notesById = new Map(notes.map(n => [n.id, n]));
+    const docCount = Math.max(notesById.size, 1);
+    const avgLength = [...docLengths.values()].reduce((sum, l) => sum + l, 0) / Math.max(docLengths.size, 1) || 1;
+
+    // Candidate set: intersection of notes containing every query token
+    const queryTokens = [...query.terms, ...query.phrases].flatMap(tokenizeQuery);
+    let candidates: Set<string> = new Set(notesById.keys());
+    const scores = new Map<string, number>();
+
+    queryTokens.forEach(token => {
+      const matching = new Set<string>();
+      expandTerm(token).forEach(term => {
+        const list = postings.get(term)!;
+        const idf = Math.log(1 + (docCount - list.size + 0.5) / (list.size + 0.5));
+        list.forEach((posting, noteId) => {
+          matching.add(noteId);
+          const tf = posting.titleFreq * TITLE_BOOST + posting.contentFreq;
+          const length = docLengths.get(noteId) || avgLength;
+          const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / avgLength));
+          scores.set(noteId, (scores.get(noteId) || 0) + score);
+        });
+      });
+      candidates = new Set([...candidates].filter(id => matching.has(id)));
+    });
+
+    // Folders named in the query, with their subfolders
+    const scopeOf = (names: string[]) => {
+      const scope = new Set<string>();
+      folders
+        .filter(f => names.includes(f.name.toLowerCase()))
+        .forEach(f => getDescendantFolderIds(folders, f.id).forEach(id => scope.add(id)));
+      return scope;
+    };
+    const folderScope = query.folders.length > 0 ? scopeOf(query.folders) : null;
+    const excludedScope = scopeOf(query.excludedFolders);
+
+    // An excluded word drops notes containing it as a word, so -cat keeps "category";
+    // CJK and punctuation-only words have no word boundaries and match as substrings
+    const containsWord = (noteId: string, haystack: string, word: string) => {
+      if (needsVerbatimMatch(word)) return haystack.includes(word);
+      const terms = new Set(noteTerms.get(noteId) || []);
+      return tokenizeQuery(word).every(token => terms.has(token));
+    };
+
+    const needles = [...query.phrases, ...query.terms];
+    const results: SearchResult[] = [];
+
+    candidates.forEach(noteId => {
+      const note = notesById.get(noteId);
+      if (!note) return;
+      const haystack = `${note.title}\n${note.content}`.toLowerCase();
+
+      // Verify against the raw text: bigram hits do not guarantee adjacency
+      // (Latin words are exempt since they match by prefix through the index)
+      if (!query.terms.every(t => !needsVerbatimMatch(t) || haystack.includes(t))) return;
+      if (!query.phrases.every(p => haystack.includes(p))) return;
+      if (query.excluded.some(x => containsWord(noteId, haystack, x))) return;
+      if (query.excludedPhrases.some(p => haystack.includes(p))) return;
+      if (!query.tags.every(tag => note.tags.includes(tag))) return;
+      if (query.excludedTags.some(tag => note.tags.includes(tag))) return;
+      if (folderScope && !(note.folderId && folderScope.has(note.folderId))) return;
+      if (note.folderId && excludedScope.has(note.folderId)) return;
+
+      // Exact phrase and title hits outrank scattered term matches
+      let score = scores.get(noteId) || 0;
+      query.phrases.forEach(p => {
+        if (note.title.toLowerCase().includes(p)) score += 5;
+        else if (note.content.toLowerCase().includes(p)) score += 2;
+      });
+
+      results.push({
+        noteId,
+        score,
+        titleSegments: highlight(note.title, needles),
+        snippet: buildSnippet(note.content, needles)
+      });
+    });
+
+    return results.sort((a, b) => b.score - a.score);
+  };
+
+  return { upsert, remove, sync, search };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { appendTags, extractTags, matchesTags, slugifyTag } from './tags';
+
+describe('extractTags', () => {
+  it('reads inline tags, lowercased and without duplicates', () => {
+    expect(extractTags('#Work notes #读书 and #work/ideas (#todo) #work')).toEqual(['work', '读书', 'work/ideas', 'todo']);
+  });
+
+  it('does not treat headings as tags', () => {
+    expect(extractTags('# Title\n## Section #real')).toEqual(['real']);
+  });
+
+  it('skips inline code and fenced code blocks', () => {
+    expect(extractTags('Use `#include` here\n```\n#define X\n```\n#c')).toEqual(['c']);
+  });
+
+  it('drops tags made only of digits', () => {
+    expect(extractTags('Fixes #123 in #v2 and #2024')).toEqual(['v2']);
+  });
+
+  it('ends a tag at CJK punctuation', () => {
+    expect(extractTags('#读书，#笔记。#想法！')).toEqual(['读书']);
+    expect(extractTags('#读书， #笔记。')).toEqual(['读书', '笔记']);
+  });
+
+  it('needs whitespace or an opening bracket before the hash', () => {
+    expect(extractTags('issue#12 a#b （#括号）')).toEqual(['括号']);
+  });
+});
+
+describe('slugifyTag', () => {
+  it('replaces characters that would end a tag with dashes', () => {
+    expect(slugifyTag(' #Machine Learning ')).toBe('machine-learning');
+    expect(slugifyTag('v1.2, beta')).toBe('v1-2-beta');
+    expect(slugifyTag('读书：笔记')).toBe('读书-笔记');
+  });
+
+  it('returns null when nothing usable is left', () => {
+    expect(slugifyTag('2024')).toBeNull();
+    expect(slugifyTag('...')).toBeNull();
+  });
+
+  it('produces tags that extractTags reads back unchanged', () => {
+    ['Machine Learning', 'v1.2', 'a (b)', '读书，笔记'].forEach(tag => {
+      const slug = slugifyTag(tag)!;
+      expect(extractTags(`#${slug}`)).toEqual([slug]);
+    });
+  });
+});
+
+describe('appendTags', () => {
+  it('reuses a trailing line that only holds tags', () => {
+    expect(appendTags('Body\n\n#a #b\n', ['c'])).toBe('Body\n\n#a #b #c');
+  });
+
+  it('starts a new paragraph after ordinary text', () => {
+    expect(appendTags('Body with #a', ['b', 'c'])).toBe('Body with #a\n\n#b #c');
+  });
+
+  it('does not treat a heading as a tag line', () => {
+    expect(appendTags('# Title', ['a'])).toBe('# Title\n\n#a');
+  });
+
+  it('returns just the tags for empty content', () => {
+    expect(appendTags('  \n', ['a', 'b'])).toBe('#a #b');
+  });
+});
+
+describe('matchesTags', () => {
+  it('requires every tag in "and" mode and any tag in "or" mode', () => {
+    expect(matchesTags(['a', 'b'], ['a', 'c'], 'and')).toBe(false);
+    expect(matchesTags(['a', 'b'], ['a', 'c'], 'or')).toBe(true);
+    expect(matchesTags([], [], 'and')).toBe(true);
+  });
+});
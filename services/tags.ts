@@ -0,0 +1,50 @@
+// Inline tag parsing: `#tag` tokens anywhere in the note body, e.g. "#读书 #work/ideas".
+// Markdown headings ("# Title") are not tags because the hash is followed by a space.
+
+const TAG_PATTERN = /(^|[\s(（])#([^\s#.,;:!?，。；：！？、()（）[\]{}<>"'“”‘’`]+)/g;
+const CODE_PATTERN = /```[\s\S]*?```|`[^`\n]*`/g;
+// The characters that end a tag in TAG_PATTERN
+const TAG_BREAK_PATTERN = /[\s#.,;:!?，。；：！？、()（）[\]{}<>"'“”‘’`]+/g;
+
+export type TagMatchMode = 'and' | 'or';
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').toLowerCase();
+
+export const extractTags = (content: string): string[] => {
+  // Ignore code so that snippets like `#include` do not become tags
+  const text = content.replace(CODE_PATTERN, ' ');
+  const tags = new Set<string>();
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const tag = normalizeTag(match[2]);
+    // Skip plain numbers such as "#1" or issue references
+    if (tag && !/^\d+$/.test(tag)) {
+      tags.add(tag);
+    }
+  }
+  return [...tags];
+};
+
+// Turns free text, such as a front matter tag, into a tag that `extractTags` reads back
+// unchanged: runs of characters that would end it become "-". Returns null when no such
+// tag exists, e.g. for plain numbers.
+export const slugifyTag = (tag: string): string | null => {
+  const slug = normalizeTag(tag).replace(TAG_BREAK_PATTERN, '-').replace(/^-+|-+$/g, '');
+  return slug && !/^\d+$/.test(slug) ? slug : null;
+};
+
+// Adds `#tag` tokens at the end of the note, on the last line when it only holds tags
+export const appendTags = (content: string, tags: string[]): string => {
+  const tokens = tags.map(tag => `#${tag}`).join(' ');
+  const body = content.trimEnd();
+  if (!body) return tokens;
+  const lastLine = body.slice(body.lastIndexOf('\n') + 1).trim();
+  const tagsOnly = lastLine.split(/\s+/).every(token => token.startsWith('#') && extractTags(token).length === 1);
+  return `${body}${tagsOnly ? ' ' : '\n\n'}${tokens}`;
+};
+
+export const matchesTags = (noteTags: string[], selected: string[], mode: TagMatchMode) => {
+  if (selected.length === 0) return true;
+  return mode === 'and'
+    ? selected.every(tag => noteTags.includes(tag))
+    : selected.some(tag => noteTags.includes(tag));
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types';
+import { extractWikiLinks, findBacklinks, findNoteByTitle, rewriteWikiLinks } from './wikiLinks';
+
+const makeNote = (id: string, title: string, content = ''): Note => ({
+  id,
+  title,
+  content,
+  excerpt: '',
+  createdAt: 0,
+  updatedAt: 0,
+  isFavorite: false,
+  folderId: null,
+  tags: []
+});
+
+describe('extractWikiLinks', () => {
+  it('finds plain and labelled links', () => {
+    expect(extractWikiLinks('See [[ Reading List ]] and [[读书笔记|my notes]].')).toEqual([
+      { target: 'Reading List', label: 'Reading List' },
+      { target: '读书笔记', label: 'my notes' }
+    ]);
+  });
+
+  it('ignores empty, nested and multi-line brackets', () => {
+    expect(extractWikiLinks('[[]] [[a\nb]] [[[x]]]')).toEqual([{ target: 'x', label: 'x' }]);
+  });
+});
+
+describe('rewriteWikiLinks', () => {
+  it('points links at the new title, keeping labels and other links', () => {
+    const content = '[[Old Title]], [[old title|see here]] and [[Other]]';
+    expect(rewriteWikiLinks(content, 'Old Title', 'New Title'))
+      .toBe('[[New Title]], [[New Title|see here]] and [[Other]]');
+  });
+
+  it('leaves content without matching links unchanged', () => {
+    const content = 'Mentions Old Title but links [[Older Title]]';
+    expect(rewriteWikiLinks(content, 'Old Title', 'New')).toBe(content);
+  });
+});
+
+describe('findBacklinks', () => {
+  it('returns other notes linking to the title, case-insensitively', () => {
+    const target = makeNote('t', 'Project Plan', 'Links [[project plan]] to itself');
+    const notes = [
+      target,
+      makeNote('a', 'A', 'Read [[Project plan|the plan]]'),
+      makeNote('b', 'B', 'Mentions Project Plan without a link'),
+      makeNote('c', 'C', '[[PROJECT PLAN]] twice [[Project Plan]]')
+    ];
+    expect(findBacklinks(notes, target).map(n => n.id)).toEqual(['a', 'c']);
+  });
+
+  it('finds nothing for an untitled note', () => {
+    const target = makeNote('t', '  ');
+    expect(findBacklinks([target, makeNote('a', 'A', '[[ ]]')], target)).toEqual([]);
+  });
+});
+
+describe('findNoteByTitle', () => {
+  it('matches titles ignoring case and surrounding spaces', () => {
+    const notes = [makeNote('a', 'Alpha'), makeNote('b', ' Beta ')];
+    expect(findNoteByTitle(notes, 'beta')?.id).toBe('b');
+    expect(findNoteByTitle(notes, 'Gamma')).toBeUndefined();
+  });
+});
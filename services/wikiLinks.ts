@@ -0,0 +1,38 @@
+import { Note } from '../types';
+
+// `[[Target]]` or `[[Target|label]]`
+export const WIKI_LINK_PATTERN = /\[\[([^\[\]\n|]+)(?:\|([^\[\]\n]+))?\]\]/g;
+
+export interface WikiLink {
+  target: string;
+  label: string;
+}
+
+export const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+export const isSameTitle = (a: string, b: string) => normalizeTitle(a) === normalizeTitle(b);
+
+export const extractWikiLinks = (content: string): WikiLink[] =>
+  [...content.matchAll(WIKI_LINK_PATTERN)].map(match => ({
+    target: match[1].trim(),
+    label: (match[2] || match[1]).trim()
+  }));
+
+export const findNoteByTitle = (notes: Note[], title: string) =>
+  notes.find(n => isSameTitle(n.title, title));
+
+// Notes (other than `target` itself) containing at least one link to its title
+export const findBacklinks = (notes: Note[], target: Note): Note[] => {
+  if (!target.title.trim()) return [];
+  return notes.filter(n =>
+    n.id !== target.id &&
+    extractWikiLinks(n.content).some(link => isSameTitle(link.target, target.title))
+  );
+};
+
+// Points every link at `oldTitle` to `newTitle`, keeping custom labels intact
+export const rewriteWikiLinks = (content: string, oldTitle: string, newTitle: string) =>
+  content.replace(WIKI_LINK_PATTERN, (raw, target: string, label?: string) => {
+    if (!isSameTitle(target, oldTitle)) return raw;
+    return label ? `[[${newTitle}|${label}]]` : `[[${newTitle}]]`;
+  });
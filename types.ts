@@ -6,6 +6,29 @@ export interface Note {
   updatedAt: number;
   createdAt: number;
   isFavorite: boolean;
+  folderId: string | null; // null = notebook root
+  tags: string[]; // parsed from inline #tag tokens in content
+  deletedAt?: number | null; // set while the note sits in the trash
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null; // null = top-level folder
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type RevisionReason = 'typing' | 'ai' | 'restore' | 'merge';
+
+// Durable snapshot of a note, captured before it is changed
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  createdAt: number;
+  reason: RevisionReason;
 }
 
 export enum AIActionType {
@@ -13,17 +36,50 @@ export enum AIActionType {
   FIX_GRAMMAR = 'FIX_GRAMMAR',
   CONTINUE_WRITING = 'CONTINUE_WRITING',
   GENERATE_TITLE = 'GENERATE_TITLE',
+  REWRITE = 'REWRITE',
+  TRANSLATE = 'TRANSLATE',
   CUSTOM = 'CUSTOM'
 }
 
 export interface AIState {
-  isLoading: boolean;
   error: string | null;
+  hint?: string;
+  detail?: string; // the service's own error message
+  retry?: () => void; // sends the failed request again
 }
 
+// Where the output of a custom prompt goes
+export type PromptOutputTarget = 'append' | 'replace' | 'prepend' | 'cursor' | 'title' | 'newNote';
+
 export interface CustomPrompt {
   id: string;
   name: string;
-  template: string; // Use {{text}} for placement
-  actionType: 'replace' | 'append';
-}
\ No newline at end of file
+  template: string; // Variables such as {{text}} and {{title}}, see services/promptTemplate.ts
+  systemPrompt?: string;
+  model?: string; // empty = the model from the AI settings
+  temperature?: number; // unset = provider default
+  actionType: PromptOutputTarget;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AIProviderConfig {
+  model: string;
+  baseUrl: string; // empty = provider default endpoint
+  apiKey: string;
+  embeddingModel: string; // empty = provider default, used for note retrieval
+}
+
+// How notes are embedded for retrieval: offline hashed vectors, or the provider's embedding model
+export type RetrievalMode = 'local' | 'provider';
+
+// Language of the built-in prompts: the UI locale, or whatever the note is written in
+export type PromptLanguage = 'ui' | 'note';
+
+export interface AISettings {
+  providerId: AIProviderId;
+  providers: Record<AIProviderId, AIProviderConfig>;
+  retrieval: RetrievalMode;
+  promptLanguage: PromptLanguage;
+  autoSuggest: boolean; // background title/tag suggestions, off unless enabled
+}